@@ -0,0 +1,68 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Body, Delete, Get, JsonController, Param, Post, QueryParam, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { ApiKeyDTO, CreateApiKeyRequest, CreatedApiKeyDTO } from "../dtos";
+import { ApiRole, AuditEntry } from "../entities";
+import { AuthService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized(ApiRole.ADMIN)
+class AuthController {
+    constructor(private service: AuthService) {}
+
+    @Get("/api-keys")
+    async getKeys(@Res() response: Response): Promise<Response> {
+        const keys: ApiKeyDTO[] = await this.service.getKeys();
+        return response.status(StatusCodes.OK).send(keys);
+    }
+
+    /**
+     * Creates an API key. The response contains the key itself, which isn't returned anywhere else.
+     */
+    @Post("/api-keys")
+    async createKey(@Body({ required: true }) data: CreateApiKeyRequest, @Res() response: Response): Promise<Response> {
+        try {
+            const key: CreatedApiKeyDTO = await this.service.createKey(data);
+            return response.status(StatusCodes.CREATED).send(key);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Delete("/api-key/:id")
+    async revokeKey(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            await this.service.revokeKey(id);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the requests that changed (or tried to change) data, newest first.
+     */
+    @Get("/audit-trail")
+    async getAuditTrail(
+        @Res() response: Response,
+        @QueryParam("caller") caller?: string,
+        @QueryParam("method") method?: string,
+        @QueryParam("isin") isin?: string,
+        @QueryParam("since") since?: string,
+        @QueryParam("limit") limit?: number
+    ): Promise<Response> {
+        const entries: AuditEntry[] = await this.service.getAuditTrail({
+            caller: caller,
+            method: method,
+            isin: isin,
+            since: since,
+            limit: limit
+        });
+        return response.status(StatusCodes.OK).send(entries);
+    }
+}
+
+export { AuthController };
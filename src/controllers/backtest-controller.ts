@@ -0,0 +1,29 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Body, JsonController, Post, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { BacktestResultDTO, RSLBacktestRequest } from "../dtos";
+import { BacktestService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class BacktestController {
+    constructor(private service: BacktestService) {}
+
+    @Post("/backtests/rsl-momentum")
+    async runRSLMomentum(
+        @Body({ required: true }) data: RSLBacktestRequest,
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            const result: BacktestResultDTO = await this.service.runRSLMomentum(data);
+            return response.status(StatusCodes.OK).send(result);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { BacktestController };
@@ -0,0 +1,122 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, CurrentUser, Get, JsonController, Param, Post, QueryParam, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { ApiRole, ChangeRecord, ChangeSubject } from "../entities";
+import { ApiPrincipal, ChangeHistoryService, ExchangeService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class ChangeHistoryController {
+    constructor(private service: ChangeHistoryService, private exchangeService: ExchangeService) {}
+
+    /**
+     * Returns the changes of all securities, exchanges, and quotes, newest first.
+     */
+    @Get("/changes")
+    async getChanges(
+        @Res() response: Response,
+        @QueryParam("subject") subject?: ChangeSubject,
+        @QueryParam("source") source?: string,
+        @QueryParam("since") since?: string,
+        @QueryParam("limit") limit?: number
+    ): Promise<Response> {
+        const changes: ChangeRecord[] = await this.service.getHistory({
+            subject: subject,
+            source: source,
+            since: since,
+            limit: limit
+        });
+        return response.status(StatusCodes.OK).send(changes);
+    }
+
+    @Get("/security/:isin/history")
+    async getSecurityHistory(
+        @Param("isin") isin: string,
+        @Res() response: Response,
+        @QueryParam("since") since?: string,
+        @QueryParam("limit") limit?: number
+    ): Promise<Response> {
+        const changes: ChangeRecord[] = await this.service.getHistory({
+            subject: ChangeSubject.SECURITY,
+            key: isin,
+            since: since,
+            limit: limit
+        });
+        return response.status(StatusCodes.OK).send(changes);
+    }
+
+    @Get("/exchange/:id/history")
+    async getExchangeHistory(
+        @Param("id") id: number,
+        @Res() response: Response,
+        @QueryParam("since") since?: string,
+        @QueryParam("limit") limit?: number
+    ): Promise<Response> {
+        try {
+            const exchange = await this.exchangeService.getOne(id);
+            const changes: ChangeRecord[] = await this.service.getHistory({
+                subject: ChangeSubject.EXCHANGE,
+                key: exchange.name,
+                since: since,
+                limit: limit
+            });
+            return response.status(StatusCodes.OK).send(changes);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the changes of the quotes of a security and exchange combination, optionally of a single day.
+     */
+    @Get("/quotes/:isin/:exchange/history")
+    async getQuoteHistory(
+        @Param("isin") isin: string,
+        @Param("exchange") exchangeID: number,
+        @Res() response: Response,
+        @QueryParam("date") date?: string,
+        @QueryParam("since") since?: string,
+        @QueryParam("limit") limit?: number
+    ): Promise<Response> {
+        try {
+            const exchange = await this.exchangeService.getOne(exchangeID);
+            const changes: ChangeRecord[] = await this.service.getHistory({
+                subject: ChangeSubject.QUOTE,
+                key: `${isin}@${exchange.name}`,
+                date: date,
+                since: since,
+                limit: limit
+            });
+            return response.status(StatusCodes.OK).send(changes);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Restores the values from before a change. Only the latest change of a security, exchange, or quote can be
+     * reverted.
+     */
+    @Authorized(ApiRole.WRITER)
+    @Post("/change/:id/revert")
+    async revert(
+        @Param("id") id: number,
+        @Res() response: Response,
+        @CurrentUser() caller?: ApiPrincipal
+    ): Promise<Response> {
+        try {
+            const change: ChangeRecord = await this.service.revert(id, caller?.name);
+            if (change.subject === ChangeSubject.EXCHANGE) {
+                this.exchangeService.clearCalendars();
+            }
+            return response.status(StatusCodes.OK).send(change);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { ChangeHistoryController };
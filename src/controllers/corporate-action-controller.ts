@@ -0,0 +1,87 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Body, Delete, Get, JsonController, Param, Post, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { CreateDividendRequest, CreateStockSplitRequest, DividendDTO, StockSplitDTO } from "../dtos";
+import { ApiRole } from "../entities";
+import { CorporateActionService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class CorporateActionController {
+    constructor(private service: CorporateActionService) {}
+
+    @Get("/splits/:isin")
+    async getSplits(@Param("isin") isin: string, @Res() response: Response): Promise<Response> {
+        try {
+            const splits: StockSplitDTO[] = await this.service.getSplits(isin);
+            return response.status(StatusCodes.OK).send(splits);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/splits")
+    async addOrUpdateSplits(
+        @Body({ required: true }) data: CreateStockSplitRequest | CreateStockSplitRequest[],
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.addOrUpdateSplits(data);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/split/:id")
+    async deleteSplit(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            await this.service.deleteSplit(id);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+
+    @Get("/dividends/:isin")
+    async getDividends(@Param("isin") isin: string, @Res() response: Response): Promise<Response> {
+        try {
+            const dividends: DividendDTO[] = await this.service.getDividends(isin);
+            return response.status(StatusCodes.OK).send(dividends);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/dividends")
+    async addOrUpdateDividends(
+        @Body({ required: true }) data: CreateDividendRequest | CreateDividendRequest[],
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.addOrUpdateDividends(data);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/dividend/:id")
+    async deleteDividend(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            await this.service.deleteDividend(id);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+}
+
+export { CorporateActionController };
@@ -1,37 +1,445 @@
-import { Response } from "express";
+import { Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
-import { Get, JsonController, QueryParam, Res } from "routing-controllers";
+import moment from "moment";
+import { Authorized, Get, JsonController, Param, QueryParam, Req, Res } from "routing-controllers";
 import { Service } from "typedi";
+
+import { ExportFormat, ExportOptions, ListingSelection, SecurityFilter } from "../dtos";
+import { SecurityType } from "../entities";
 import {
+    BenchmarkService,
+    CertificateEvaluationData,
+    CertificateEvaluationService,
+    ComparisonPoint,
+    CorrelationMatrixData,
+    ExportService,
+    ListingFilter,
+    ListingService,
     PerformanceEvaluationService,
+    PerformanceGroupData,
+    PerformanceGrouping,
     PerformanceInterval,
     PerformanceResponseData,
+    PerformanceTableRow,
+    ReturnFrequency,
+    RiskService,
+    RiskStatisticsData,
     RSLevyAlgorithm,
+    RSLevyRankingData,
     RSLevyResponseData,
-    RSLevyService
+    RSLevySeriesData,
+    RSLevyService,
+    SecuritiesService
 } from "../services";
 
 @Service()
 @JsonController()
+@Authorized()
 class EvaluationController {
-    constructor(private perfService: PerformanceEvaluationService, private rslService: RSLevyService) {}
+    constructor(
+        private perfService: PerformanceEvaluationService,
+        private rslService: RSLevyService,
+        private exportService: ExportService,
+        private benchmarkService: BenchmarkService,
+        private riskService: RiskService,
+        private securitiesService: SecuritiesService,
+        private certificateService: CertificateEvaluationService,
+        private listingService: ListingService
+    ) {}
 
     @Get("/evaluate/performance-data")
     async evaluatePerformance(
         @QueryParam("interval") interval: PerformanceInterval = { count: 1, unit: "year" },
-        @Res() response: Response
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("benchmark") benchmark?: string,
+        @QueryParam("sector") sector?: string,
+        @QueryParam("country") country?: string,
+        @QueryParam("tag") tag?: string,
+        @QueryParam("listings") listings: ListingSelection = "all"
+    ): Promise<Response> {
+        try {
+            const include = await this.getFilter(listings, { sector: sector, country: country, tag: tag });
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: PerformanceResponseData[] = this.filter(
+                await this.perfService.getPerformanceData(
+                    interval,
+                    { adjusted: adjusted, dividends: withDividends },
+                    currency,
+                    benchmark
+                ),
+                include
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "performance.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the performance of all listings over several periods at once, given as comma-separated list (e.g.
+     * `1m,3m,6m,1y,3y,ytd,2020`).
+     */
+    @Get("/evaluate/performance-table")
+    async getPerformanceTable(
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("periods") periods?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("sector") sector?: string,
+        @QueryParam("country") country?: string,
+        @QueryParam("tag") tag?: string,
+        @QueryParam("listings") listings: ListingSelection = "all"
+    ): Promise<Response> {
+        try {
+            const include = await this.getFilter(listings, { sector: sector, country: country, tag: tag });
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: PerformanceTableRow[] = this.filter(
+                await this.perfService.getPerformanceTable(
+                    periods
+                        ?.split(",")
+                        .map((p) => p.trim())
+                        .filter((p) => p.length > 0),
+                    { adjusted: adjusted, dividends: withDividends },
+                    currency
+                ),
+                include
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "performance-table.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the performance aggregated per type, country, sector, industry, or tag.
+     */
+    @Get("/evaluate/performance-groups")
+    async getPerformanceGroups(
+        @QueryParam("group-by", { required: true }) groupBy: PerformanceGrouping,
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("interval") interval: PerformanceInterval = { count: 1, unit: "year" },
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("sector") sector?: string,
+        @QueryParam("country") country?: string,
+        @QueryParam("tag") tag?: string,
+        @QueryParam("listings") listings: ListingSelection = "all"
+    ): Promise<Response> {
+        try {
+            const include = await this.getFilter(listings, { sector: sector, country: country, tag: tag });
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: PerformanceGroupData[] = await this.perfService.getPerformanceGroups(
+                interval,
+                groupBy,
+                include,
+                { adjusted: adjusted, dividends: withDividends },
+                currency
+            );
+            return await this.exportService.send(
+                response,
+                outputFormat,
+                data,
+                exportOptions,
+                `performance-by-${groupBy}.csv`
+            );
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/evaluate/risk-data")
+    async getRiskStatistics(
+        @QueryParam("interval") interval: PerformanceInterval = { count: 1, unit: "year" },
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("risk-free-rate") riskFreeRate?: number,
+        @QueryParam("confidence") confidence?: number,
+        @QueryParam("type") type?: SecurityType,
+        @QueryParam("exchange") exchange?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("sector") sector?: string,
+        @QueryParam("country") country?: string,
+        @QueryParam("tag") tag?: string,
+        @QueryParam("listings") listings: ListingSelection = "all"
+    ): Promise<Response> {
+        try {
+            const include = await this.getFilter(listings, { sector: sector, country: country, tag: tag });
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: RiskStatisticsData[] = this.filter(
+                await this.riskService.getRiskStatistics(
+                    interval,
+                    { riskFreeRate: riskFreeRate, confidence: confidence, type: type, exchange: exchange },
+                    { adjusted: adjusted, dividends: withDividends },
+                    currency
+                ),
+                include
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "risk.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/evaluate/risk-data/:isin/:exchange")
+    async getListingRiskStatistics(
+        @Param("isin") isin: string,
+        @Param("exchange") exchangeID: number,
+        @Res() response: Response,
+        @QueryParam("interval") interval: PerformanceInterval = { count: 1, unit: "year" },
+        @QueryParam("risk-free-rate") riskFreeRate?: number,
+        @QueryParam("confidence") confidence?: number,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string
+    ): Promise<Response> {
+        try {
+            const data: RiskStatisticsData = await this.riskService.getListingRiskStatistics(
+                isin,
+                exchangeID,
+                interval,
+                { riskFreeRate: riskFreeRate, confidence: confidence },
+                { adjusted: adjusted, dividends: withDividends },
+                currency
+            );
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the correlation and covariance matrices of the returns of the listings given as comma-separated list of
+     * ISINs (or "ISIN@exchange").
+     */
+    @Get("/evaluate/correlation")
+    async getCorrelationMatrix(
+        @QueryParam("securities", { required: true }) securities: string,
+        @Res() response: Response,
+        @QueryParam("interval") interval: PerformanceInterval = { count: 1, unit: "year" },
+        @QueryParam("frequency") frequency: ReturnFrequency = "daily",
+        @QueryParam("end-date") endDate?: string,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string
     ): Promise<Response> {
-        const data: PerformanceResponseData[] = await this.perfService.getPerformanceData(interval);
-        return response.status(StatusCodes.OK).send(data);
+        try {
+            const data: CorrelationMatrixData = await this.riskService.getCorrelationMatrix(
+                securities
+                    .split(",")
+                    .map((id) => id.trim())
+                    .filter((id) => id.length > 0),
+                interval,
+                frequency,
+                endDate,
+                { adjusted: adjusted, dividends: withDividends },
+                currency
+            );
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
     }
 
     @Get("/evaluate/rsl-data")
     async getRSLevyData(
         @QueryParam("algorithm") algorithm: RSLevyAlgorithm = RSLevyAlgorithm.WEEKLY,
-        @Res() response: Response
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("period") period?: number,
+        @QueryParam("sector") sector?: string,
+        @QueryParam("country") country?: string,
+        @QueryParam("tag") tag?: string,
+        @QueryParam("listings") listings: ListingSelection = "all"
     ): Promise<Response> {
-        const data: RSLevyResponseData[] = await this.rslService.getRSLevyData(algorithm);
-        return response.status(StatusCodes.OK).send(data);
+        try {
+            const include = await this.getFilter(listings, { sector: sector, country: country, tag: tag });
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: RSLevyResponseData[] = this.filter(
+                await this.rslService.getRSLevyData(
+                    algorithm,
+                    { adjusted: adjusted, dividends: withDividends },
+                    period
+                ),
+                include
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "rsl.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/evaluate/rsl-data/:isin/:exchange")
+    async getRSLevySeries(
+        @Param("isin") isin: string,
+        @Param("exchange") exchangeID: number,
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("algorithm") algorithm: RSLevyAlgorithm = RSLevyAlgorithm.WEEKLY,
+        @QueryParam("start-date") startDate?: string,
+        @QueryParam("end-date") endDate?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("period") period?: number
+    ): Promise<Response> {
+        try {
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: RSLevySeriesData[] = await this.rslService.getRSLevySeries(
+                isin,
+                exchangeID,
+                algorithm,
+                startDate,
+                endDate,
+                { adjusted: adjusted, dividends: withDividends },
+                period
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, `rsl-${isin}.csv`);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the RSL ranking of all listings as of the given date (today if not set).
+     */
+    @Get("/evaluate/rsl-ranking")
+    async getRSLevyRanking(
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("algorithm") algorithm: RSLevyAlgorithm = RSLevyAlgorithm.WEEKLY,
+        @QueryParam("date") date?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("period") period?: number,
+        @QueryParam("sector") sector?: string,
+        @QueryParam("country") country?: string,
+        @QueryParam("tag") tag?: string,
+        @QueryParam("listings") listings: ListingSelection = "all"
+    ): Promise<Response> {
+        try {
+            const include = await this.getFilter(listings, { sector: sector, country: country, tag: tag });
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: RSLevyRankingData[] = await this.rslService.getRSLevyRanking(
+                algorithm,
+                date ? moment(date).toDate() : new Date(),
+                { adjusted: adjusted, dividends: withDividends },
+                period,
+                include
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "rsl-ranking.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Compares the certificates with their underlyings: distance to barrier and strike, days to expiry, and the
+     * performance over the interval versus the underlying's.
+     */
+    @Get("/evaluate/certificates")
+    async getCertificateData(
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("interval") interval: PerformanceInterval = { count: 1, unit: "year" },
+        @QueryParam("underlying") underlying?: string,
+        @QueryParam("kind") kind?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("listings") listings: ListingSelection = "all"
+    ): Promise<Response> {
+        try {
+            const include = await this.listingService.getFilter(listings);
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: CertificateEvaluationData[] = this.filter(
+                await this.certificateService.getCertificateData(
+                    interval,
+                    { underlying: underlying, kind: kind },
+                    { adjusted: adjusted, dividends: withDividends },
+                    currency
+                ),
+                include
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "certificates.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns a chart series comparing the securities given as comma-separated list of ISINs (or "ISIN@exchange"), all
+     * rebased to 100.
+     */
+    @Get("/evaluate/comparison")
+    async getComparison(
+        @QueryParam("securities", { required: true }) securities: string,
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("start-date") startDate?: string,
+        @QueryParam("end-date") endDate?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string
+    ): Promise<Response> {
+        try {
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: ComparisonPoint[] = await this.benchmarkService.getComparison(
+                securities
+                    .split(",")
+                    .map((id) => id.trim())
+                    .filter((id) => id.length > 0),
+                startDate,
+                endDate,
+                { adjusted: adjusted, dividends: withDividends },
+                currency
+            );
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "comparison.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Combines the listing selection and the security filter.
+     */
+    private async getFilter(selection: ListingSelection, filter: SecurityFilter): Promise<ListingFilter | undefined> {
+        return this.listingService.getFilter(selection, await this.securitiesService.getMatchingISINs(filter));
+    }
+
+    /**
+     * Keeps only the rows of the listings the filter accepts.
+     */
+    private filter<T extends { securityISIN: string; exchangeName: string }>(data: T[], include?: ListingFilter): T[] {
+        return include ? data.filter((d) => include(d.securityISIN, d.exchangeName)) : data;
     }
 }
 
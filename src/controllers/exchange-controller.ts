@@ -1,14 +1,26 @@
 import { Response } from "express";
 import { StatusCodes } from "http-status-codes";
-import { Body, Get, JsonController, Param, Post, Res } from "routing-controllers";
+import {
+    Authorized,
+    Body,
+    CurrentUser,
+    Delete,
+    Get,
+    JsonController,
+    Param,
+    Post,
+    QueryParam,
+    Res
+} from "routing-controllers";
 import { Service } from "typedi";
 
-import { CreateExchangeRequest } from "../dtos";
-import { SecuritiesExchange } from "../entities";
-import { ExchangeService } from "../services";
+import { CreateExchangeRequest, CreateHolidayRequest, HolidayDTO } from "../dtos";
+import { ApiRole, SecuritiesExchange } from "../entities";
+import { ApiPrincipal, ExchangeService } from "../services";
 
 @Service()
 @JsonController()
+@Authorized()
 class ExchangeController {
     constructor(private service: ExchangeService) {}
 
@@ -27,18 +39,67 @@ class ExchangeController {
         }
     }
 
+    @Authorized(ApiRole.WRITER)
     @Post("/exchanges")
     async addOrUpdate(
         @Body({ required: true }) data: CreateExchangeRequest | CreateExchangeRequest[],
+        @Res() response: Response,
+        @CurrentUser() caller?: ApiPrincipal
+    ): Promise<Response> {
+        try {
+            await this.service.addOrUpdate(data, caller?.name);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/exchange/:id/holidays")
+    async getHolidays(
+        @Param("id") id: number,
+        @Res() response: Response,
+        @QueryParam("year") year?: number
+    ): Promise<Response> {
+        try {
+            const holidays: HolidayDTO[] = await this.service.getHolidays(id, year);
+            return response.status(StatusCodes.OK).send(holidays);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Adds a single holiday or imports a whole list at once, e.g. the holidays of the next year.
+     */
+    @Authorized(ApiRole.WRITER)
+    @Post("/exchange/:id/holidays")
+    async addOrUpdateHolidays(
+        @Param("id") id: number,
+        @Body({ required: true }) data: CreateHolidayRequest | CreateHolidayRequest[],
         @Res() response: Response
     ): Promise<Response> {
         try {
-            await this.service.addOrUpdate(data);
+            await this.service.addOrUpdateHolidays(id, data);
             return response.status(StatusCodes.NO_CONTENT).send();
         } catch (error) {
             return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
         }
     }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/exchange/:id/holiday/:holidayID")
+    async deleteHoliday(
+        @Param("id") id: number,
+        @Param("holidayID") holidayID: number,
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.deleteHoliday(id, holidayID);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
 }
 
 export { ExchangeController };
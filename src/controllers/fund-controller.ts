@@ -0,0 +1,109 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Body, Delete, Get, JsonController, Param, Post, QueryParam, Req, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { AddFundCompositionRequest, FundCompositionDTO, FundCompositionImportOptions, LookThroughDTO } from "../dtos";
+import { ApiRole } from "../entities";
+import { FundCompositionService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class FundController {
+    constructor(private service: FundCompositionService) {}
+
+    /**
+     * Returns the newest composition of a fund or ETF on or before the given date (the newest one if not set).
+     */
+    @Get("/composition/:isin")
+    async getComposition(
+        @Param("isin") isin: string,
+        @Res() response: Response,
+        @QueryParam("date") date?: string
+    ): Promise<Response> {
+        try {
+            const data: FundCompositionDTO = await this.service.getComposition(isin, date);
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/composition/:isin/dates")
+    async getCompositionDates(@Param("isin") isin: string, @Res() response: Response): Promise<Response> {
+        try {
+            const dates: string[] = await this.service.getCompositionDates(isin);
+            return response.status(StatusCodes.OK).send(dates);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/compositions")
+    async setCompositions(
+        @Body({ required: true }) data: AddFundCompositionRequest | AddFundCompositionRequest[],
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.setCompositions(data);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Imports the composition of a fund from a CSV file sent as the raw request body (e.g. with content type text/csv).
+     */
+    @Authorized(ApiRole.WRITER)
+    @Post("/composition/:isin/import")
+    async importComposition(
+        @Param("isin") isin: string,
+        @Req() request: Request,
+        @QueryParam("options", { required: true }) options: FundCompositionImportOptions,
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.importComposition(isin, request, options);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/composition/:isin/:date")
+    async deleteComposition(
+        @Param("isin") isin: string,
+        @Param("date") date: string,
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.deleteComposition(isin, date);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the exposure of a fund by underlying, sector, and country, looking through funds held by the fund.
+     */
+    @Get("/look-through/:isin")
+    async getLookThrough(
+        @Param("isin") isin: string,
+        @Res() response: Response,
+        @QueryParam("date") date?: string
+    ): Promise<Response> {
+        try {
+            const data: LookThroughDTO = await this.service.getFundLookThrough(isin, date);
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { FundController };
@@ -0,0 +1,46 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Body, Get, JsonController, Param, Post, QueryParam, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { AddFxRatesRequest, FxRateItem } from "../dtos";
+import { ApiRole } from "../entities";
+import { FxRateService } from "../services";
+import { validateRequests } from "../utils";
+
+@Service()
+@JsonController()
+@Authorized()
+class FxRateController {
+    constructor(private service: FxRateService) {}
+
+    @Get("/fx-rates/:base/:quote")
+    async get(
+        @Res() response: Response,
+        @Param("base") baseCurrency: string,
+        @Param("quote") quoteCurrency: string,
+        @QueryParam("start-date") startDate?: string,
+        @QueryParam("end-date") endDate?: string
+    ): Promise<Response> {
+        const rates: FxRateItem[] = await this.service.get(baseCurrency, quoteCurrency, startDate, endDate);
+        return response.status(StatusCodes.OK).send(rates);
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/fx-rates")
+    async add(
+        @Body({ required: true }) data: AddFxRatesRequest | AddFxRatesRequest[],
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            for (const item of await validateRequests(AddFxRatesRequest, data)) {
+                await this.service.add(item);
+            }
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { FxRateController };
@@ -1,4 +1,15 @@
+export { AuthController } from "./auth-controller";
+export { BacktestController } from "./backtest-controller";
+export { ChangeHistoryController } from "./change-history-controller";
+export { CorporateActionController } from "./corporate-action-controller";
 export { EvaluationController } from "./evaluation-controller";
 export { ExchangeController } from "./exchange-controller";
+export { FundController } from "./fund-controller";
+export { FxRateController } from "./fx-rate-controller";
+export { IndicatorController } from "./indicator-controller";
+export { ListingController } from "./listing-controller";
+export { PortfolioController } from "./portfolio-controller";
+export { ProviderController } from "./provider-controller";
 export { QuoteDataController } from "./quote-controller";
 export { SecurityController } from "./security-controller";
+export { WatchlistController } from "./watchlist-controller";
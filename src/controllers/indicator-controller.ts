@@ -0,0 +1,58 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Get, JsonController, Param, QueryParam, Req, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { ExportFormat, ExportOptions, IndicatorOptions, IndicatorPointDTO, IndicatorType } from "../dtos";
+import { ExportService, IndicatorService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class IndicatorController {
+    constructor(private service: IndicatorService, private exportService: ExportService) {}
+
+    /**
+     * Returns the time series of a technical indicator (sma, ema, rsi, macd, bollinger, atr, volatility, rsl). The
+     * indicator parameters are passed as JSON object in the `options` query param, e.g. `{"period":50}`.
+     */
+    @Get("/indicators/:isin/:exchange/:indicator")
+    async get(
+        @Req() request: Request,
+        @Res() response: Response,
+        @Param("isin") isin: string,
+        @Param("exchange") exchangeID: number,
+        @Param("indicator") indicator: IndicatorType,
+        @QueryParam("options") options: IndicatorOptions = {},
+        @QueryParam("start-date") startDate?: string,
+        @QueryParam("end-date") endDate?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false
+    ): Promise<Response> {
+        try {
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: IndicatorPointDTO[] = await this.service.getIndicator(
+                isin,
+                exchangeID,
+                indicator,
+                options,
+                startDate,
+                endDate,
+                { adjusted: adjusted, dividends: withDividends }
+            );
+            return await this.exportService.send(
+                response,
+                outputFormat,
+                data,
+                exportOptions,
+                `${indicator}-${isin}.csv`
+            );
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { IndicatorController };
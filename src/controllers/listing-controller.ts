@@ -0,0 +1,40 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Body, Get, JsonController, Post, QueryParam, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { CreateListingRequest, ListingDTO } from "../dtos";
+import { ApiRole } from "../entities";
+import { ListingService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class ListingController {
+    constructor(private service: ListingService) {}
+
+    /**
+     * Returns the listings of all securities, or of the one given by ISIN, with the preferred listing first.
+     */
+    @Get("/listings")
+    async getAll(@Res() response: Response, @QueryParam("isin") isin?: string): Promise<Response> {
+        const listings: ListingDTO[] = await this.service.getListings(isin);
+        return response.status(StatusCodes.OK).send(listings);
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/listings")
+    async addOrUpdate(
+        @Body({ required: true }) data: CreateListingRequest | CreateListingRequest[],
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.addOrUpdate(data);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { ListingController };
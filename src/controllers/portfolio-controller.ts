@@ -0,0 +1,181 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import moment from "moment";
+import { Authorized, Body, Delete, Get, JsonController, Param, Post, QueryParam, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import {
+    AddTransactionRequest,
+    CostBasisMethod,
+    CreatePortfolioRequest,
+    LookThroughDTO,
+    PortfolioHoldingsDTO,
+    PortfolioReturnDTO
+} from "../dtos";
+import { ApiRole, Portfolio, PortfolioTransaction } from "../entities";
+import { FundCompositionService, PerformanceInterval, PortfolioReturnService, PortfolioService } from "../services";
+import { getPeriodRange, PeriodRange } from "../utils";
+
+@Service()
+@JsonController()
+@Authorized()
+class PortfolioController {
+    constructor(
+        private service: PortfolioService,
+        private returnService: PortfolioReturnService,
+        private fundService: FundCompositionService
+    ) {}
+
+    @Get("/portfolios")
+    async getAll(): Promise<Portfolio[]> {
+        return this.service.getAll();
+    }
+
+    @Get("/portfolio/:id")
+    async getOne(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            const p: Portfolio = await this.service.getOne(id);
+            return response.status(StatusCodes.OK).send(p);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/portfolios")
+    async create(@Body({ required: true }) data: CreatePortfolioRequest, @Res() response: Response): Promise<Response> {
+        try {
+            const p: Portfolio = await this.service.create(data);
+            return response.status(StatusCodes.CREATED).send(p);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/portfolio/:id")
+    async delete(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            await this.service.delete(id);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+
+    @Get("/portfolio/:id/transactions")
+    async getTransactions(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            const transactions: PortfolioTransaction[] = await this.service.getTransactions(id);
+            return response.status(StatusCodes.OK).send(transactions.map((t) => this.service.toDTO(t)));
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/portfolio/:id/transactions")
+    async addTransactions(
+        @Param("id") id: number,
+        @Body({ required: true }) data: AddTransactionRequest | AddTransactionRequest[],
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            await this.service.addTransactions(id, data);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/transaction/:id")
+    async deleteTransaction(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            await this.service.deleteTransaction(id);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            const status = error instanceof RangeError ? StatusCodes.BAD_REQUEST : StatusCodes.NOT_FOUND;
+            return response.status(status).send({ message: error.message });
+        }
+    }
+
+    @Get("/portfolio/:id/holdings")
+    async getHoldings(
+        @Param("id") id: number,
+        @QueryParam("method") method: CostBasisMethod = "fifo",
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            const holdings: PortfolioHoldingsDTO = await this.service.getHoldings(id, method);
+            return response.status(StatusCodes.OK).send(holdings);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the time- and money-weighted returns over a period. The period is given either as explicit start and end
+     * dates, as a performance interval (e.g. `{"count": 3, "unit": "month"}`), or as a period specification like
+     * "ytd", "1y", or "2020". Without any of these, the returns over the portfolio's complete history are determined.
+     */
+    @Get("/portfolio/:id/returns")
+    async getReturns(
+        @Param("id") id: number,
+        @Res() response: Response,
+        @QueryParam("period") period?: string,
+        @QueryParam("interval") interval?: PerformanceInterval,
+        @QueryParam("start-date") startDate?: string,
+        @QueryParam("end-date") endDate?: string
+    ): Promise<Response> {
+        try {
+            let spec: string = period ?? "max";
+            let getRange = (newestDate: Date): PeriodRange => getPeriodRange(spec, newestDate);
+
+            if (startDate) {
+                spec = "custom";
+                getRange = (newestDate: Date) => ({
+                    start: moment(startDate).toDate(),
+                    end: endDate ? moment(endDate).toDate() : newestDate
+                });
+            } else if (interval) {
+                spec = `${interval.count}${interval.unit.charAt(0)}`;
+            }
+
+            const data: PortfolioReturnDTO = await this.returnService.getReturns(id, spec, getRange);
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/portfolio/:id/returns/yearly")
+    async getYearlyReturns(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            const data: PortfolioReturnDTO[] = await this.returnService.getYearlyReturns(id);
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the exposure of a portfolio by underlying, sector, and country, replacing funds and ETFs by their
+     * constituents.
+     */
+    @Get("/portfolio/:id/look-through")
+    async getLookThrough(
+        @Param("id") id: number,
+        @Res() response: Response,
+        @QueryParam("date") date?: string
+    ): Promise<Response> {
+        try {
+            const data: LookThroughDTO = await this.fundService.getPortfolioLookThrough(id, date);
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { PortfolioController };
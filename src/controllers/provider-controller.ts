@@ -0,0 +1,52 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Get, JsonController, Post, QueryParam, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { ApiRole, ProviderRun } from "../entities";
+import { IngestionSummary, ProviderStatus, QuoteIngestionService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class ProviderController {
+    constructor(private service: QuoteIngestionService) {}
+
+    @Get("/providers")
+    async getProviders(): Promise<ProviderStatus[]> {
+        return this.service.getProviders();
+    }
+
+    /**
+     * Runs the providers immediately instead of waiting for the next scheduled run.
+     */
+    @Authorized(ApiRole.WRITER)
+    @Post("/providers/run")
+    async run(@Res() response: Response, @QueryParam("provider") provider?: string): Promise<Response> {
+        try {
+            const summaries: IngestionSummary[] = await this.service.run(provider);
+            return response.status(StatusCodes.OK).send(summaries);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/provider-runs")
+    async getRuns(
+        @Res() response: Response,
+        @QueryParam("provider") provider?: string,
+        @QueryParam("status") status?: "success" | "failure",
+        @QueryParam("since") since?: string,
+        @QueryParam("limit") limit?: number
+    ): Promise<Response> {
+        const runs: ProviderRun[] = await this.service.getRuns({
+            provider: provider,
+            status: status,
+            since: since,
+            limit: limit
+        });
+        return response.status(StatusCodes.OK).send(runs);
+    }
+}
+
+export { ProviderController };
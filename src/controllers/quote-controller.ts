@@ -1,40 +1,151 @@
-import { Response } from "express";
+import { Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
-import { Body, Get, JsonController, Param, Post, QueryParam, Res } from "routing-controllers";
+import {
+    Authorized,
+    Body,
+    CurrentUser,
+    Delete,
+    Get,
+    JsonController,
+    Param,
+    Post,
+    QueryParam,
+    Req,
+    Res
+} from "routing-controllers";
 import { Service } from "typedi";
 
-import { AddQuoteDataRequest, NewestSharePriceDateDTO, NewestDatesOptions } from "../dtos";
-import { QuoteData } from "../entities";
-import { QuoteDataService } from "../services";
+import {
+    AddQuoteDataRequest,
+    ExportFormat,
+    ExportOptions,
+    ListingDTO,
+    ListingSelection,
+    NewestDatesOptions,
+    NewestSharePriceDateDTO,
+    QuoteImportOptions,
+    QuoteImportReport
+} from "../dtos";
+import { ApiRole, SecurityType } from "../entities";
+import {
+    AlertService,
+    ApiPrincipal,
+    DataQualityData,
+    DataQualityDetails,
+    DataQualityService,
+    ExportService,
+    ListingService,
+    QuoteDataService,
+    QuoteImportService
+} from "../services";
 import { QuoteCountData } from "../services/quote-service";
+import { checkInterval } from "../utils";
 
 @Service()
 @JsonController()
+@Authorized()
 class QuoteDataController {
-    constructor(private service: QuoteDataService) {}
+    constructor(
+        private service: QuoteDataService,
+        private importService: QuoteImportService,
+        private exportService: ExportService,
+        private alertService: AlertService,
+        private dataQualityService: DataQualityService,
+        private listingService: ListingService
+    ) {}
 
+    /**
+     * Returns the quotes as JSON, CSV, or NDJSON, depending on the `format` query param or the Accept header. The quotes
+     * are streamed from the database, so even long histories are never held in memory. With `interval` set to week,
+     * month, quarter, or year, the quotes are aggregated per period.
+     */
     @Get("/quotes/:isin/:exchange")
     async get(
+        @Req() request: Request,
         @Res() response: Response,
         @Param("isin") isin: string,
         @Param("exchange") exchangeID: number,
         @QueryParam("start-date") startDate?: string,
-        @QueryParam("end-date") endDate?: string
+        @QueryParam("end-date") endDate?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("interval") interval = "day"
     ): Promise<Response> {
-        const quotes: QuoteData[] = await this.service.get(isin, exchangeID, startDate, endDate);
-        return response.send(quotes.map((qd: QuoteData) => ({ date: qd.date, quote: qd.quote })));
+        try {
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            // fails before the response is started
+            checkInterval(interval);
+            const quotes = this.service.stream(isin, exchangeID, {
+                startDate: startDate,
+                endDate: endDate,
+                adjustment: { adjusted: adjusted, dividends: withDividends },
+                currency: currency,
+                interval: interval
+            });
+            return await this.exportService.send(response, outputFormat, quotes, exportOptions, `quotes-${isin}.csv`);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
     }
 
+    @Authorized(ApiRole.WRITER)
     @Post("/quotes")
-    async add(@Body({ required: true }) data: AddQuoteDataRequest, @Res() response: Response): Promise<Response> {
+    async add(
+        @Body({ required: true }) data: AddQuoteDataRequest,
+        @Res() response: Response,
+        @CurrentUser() caller?: ApiPrincipal
+    ): Promise<Response> {
         try {
-            await this.service.add(data);
+            await this.service.add(data, caller?.name);
+            this.alertService.schedule([data.isin]);
             return response.status(StatusCodes.NO_CONTENT).send();
         } catch (error) {
             return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
         }
     }
 
+    /**
+     * Imports quotes from a CSV file sent as the raw request body (e.g. with content type text/csv).
+     */
+    @Authorized(ApiRole.WRITER)
+    @Post("/quotes/import")
+    async import(
+        @Req() request: Request,
+        @QueryParam("options") options: QuoteImportOptions = {},
+        @Res() response: Response,
+        @CurrentUser() caller?: ApiPrincipal
+    ): Promise<Response> {
+        try {
+            const report: QuoteImportReport = await this.importService.import(request, options, caller?.name);
+            if (report.inserted + report.updated > 0) {
+                this.alertService.schedule();
+            }
+            return response.status(StatusCodes.OK).send(report);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/quote/:isin/:exchange/:date")
+    async delete(
+        @Param("isin") isin: string,
+        @Param("exchange") exchangeID: number,
+        @Param("date") date: string,
+        @Res() response: Response,
+        @CurrentUser() caller?: ApiPrincipal
+    ): Promise<Response> {
+        try {
+            await this.service.delete(isin, exchangeID, date, caller?.name);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+
     @Get("/quotes/newest-dates")
     async getNewestDates(
         @QueryParam("options") options: NewestDatesOptions = { "date-only": false },
@@ -55,6 +166,96 @@ class QuoteDataController {
 
         return response.status(StatusCodes.OK).send(data);
     }
+
+    /**
+     * Returns the data quality of all listings: the covered dates, gaps, staleness, suspicious price jumps, and whether
+     * there's enough history for the evaluations.
+     */
+    @Get("/quotes/data-quality")
+    async getDataQuality(
+        @Req() request: Request,
+        @Res() response: Response,
+        @QueryParam("stale-after") staleAfter?: number,
+        @QueryParam("jump-threshold") jumpThreshold?: number,
+        @QueryParam("type") type?: SecurityType,
+        @QueryParam("exchange") exchange?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions
+    ): Promise<Response> {
+        try {
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            const data: DataQualityData[] = await this.dataQualityService.getReport({
+                staleAfter: staleAfter,
+                jumpThreshold: jumpThreshold,
+                type: type,
+                exchange: exchange
+            });
+            return await this.exportService.send(response, outputFormat, data, exportOptions, "data-quality.csv");
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the data quality of a single listing, including the individual gaps and price jumps.
+     */
+    @Get("/quotes/data-quality/:isin/:exchange")
+    async getListingDataQuality(
+        @Param("isin") isin: string,
+        @Param("exchange") exchangeID: number,
+        @Res() response: Response,
+        @QueryParam("stale-after") staleAfter?: number,
+        @QueryParam("jump-threshold") jumpThreshold?: number
+    ): Promise<Response> {
+        try {
+            const data: DataQualityDetails = await this.dataQualityService.getListingReport(isin, exchangeID, {
+                staleAfter: staleAfter,
+                jumpThreshold: jumpThreshold
+            });
+            return response.status(StatusCodes.OK).send(data);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    /**
+     * Returns the quotes of a security without knowing the exchange ID: those of its preferred listing, of the listing on
+     * the exchange given by name, or with `listings=all` those of all listings one after the other. Each quote carries
+     * its exchange's name. Registered last so that the fixed paths like `/quotes/count` take precedence.
+     */
+    @Get("/quotes/:isin")
+    async getByISIN(
+        @Req() request: Request,
+        @Res() response: Response,
+        @Param("isin") isin: string,
+        @QueryParam("listings") listings: ListingSelection = "preferred",
+        @QueryParam("exchange") exchangeName?: string,
+        @QueryParam("start-date") startDate?: string,
+        @QueryParam("end-date") endDate?: string,
+        @QueryParam("format") format?: string,
+        @QueryParam("export") exportOptions?: ExportOptions,
+        @QueryParam("adjusted") adjusted = false,
+        @QueryParam("with-dividends") withDividends = false,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("interval") interval = "day"
+    ): Promise<Response> {
+        try {
+            const outputFormat: ExportFormat = this.exportService.getFormat(request, format);
+            // fails before the response is started
+            checkInterval(interval);
+            const selected: ListingDTO[] = await this.listingService.getQuoteListings(isin, listings, exchangeName);
+            const quotes = this.listingService.streamQuotes(isin, selected, {
+                startDate: startDate,
+                endDate: endDate,
+                adjustment: { adjusted: adjusted, dividends: withDividends },
+                currency: currency,
+                interval: interval
+            });
+            return await this.exportService.send(response, outputFormat, quotes, exportOptions, `quotes-${isin}.csv`);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
 }
 
 export { QuoteDataController };
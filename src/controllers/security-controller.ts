@@ -1,20 +1,49 @@
 import { Response } from "express";
 import { StatusCodes } from "http-status-codes";
-import { Body, Get, JsonController, Param, Post, Res } from "routing-controllers";
+import { Authorized, Body, CurrentUser, Get, JsonController, Param, Post, QueryParam, Res } from "routing-controllers";
 import { Service } from "typedi";
 
-import { CreateSecurityRequest } from "../dtos";
-import { Security } from "../entities";
-import { SecuritiesService } from "../services";
+import { CertificateTermsDTO, CreateSecurityRequest } from "../dtos";
+import { ApiRole, Security, SecurityType } from "../entities";
+import { ApiPrincipal, SecuritiesService } from "../services";
 
 @Service() // <-- apparently necessary with typedi > 0.8.0
 @JsonController()
+@Authorized()
 class SecurityController {
     constructor(private service: SecuritiesService) {}
 
+    /**
+     * Returns the securities, optionally filtered by their master data or searched by name, identifiers, and issuer.
+     */
     @Get("/securities")
-    async getAll(@Res() response: Response): Promise<Response> {
-        const securities: Security[] = await this.service.getAll();
+    async getAll(
+        @Res() response: Response,
+        @QueryParam("type") type?: SecurityType,
+        @QueryParam("country") country?: string,
+        @QueryParam("sector") sector?: string,
+        @QueryParam("industry") industry?: string,
+        @QueryParam("currency") currency?: string,
+        @QueryParam("issuer") issuer?: string,
+        @QueryParam("tag") tag?: string,
+        @QueryParam("search") search?: string
+    ): Promise<Response> {
+        const securities: Security[] = await this.service.find({
+            type: type,
+            country: country,
+            sector: sector,
+            industry: industry,
+            currency: currency,
+            issuer: issuer,
+            tag: tag,
+            search: search
+        });
+        return response.status(StatusCodes.OK).send(securities);
+    }
+
+    @Get("/benchmarks")
+    async getBenchmarks(@Res() response: Response): Promise<Response> {
+        const securities: Security[] = await this.service.getBenchmarks();
         return response.status(StatusCodes.OK).send(securities);
     }
 
@@ -28,13 +57,25 @@ class SecurityController {
         }
     }
 
+    @Get("/security/:isin/certificate")
+    async getCertificateTerms(@Param("isin") isin: string, @Res() response: Response): Promise<Response> {
+        try {
+            const terms: CertificateTermsDTO = await this.service.getCertificateTerms(isin);
+            return response.status(StatusCodes.OK).send(terms);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
     @Post("/securities")
     async addOrUpdate(
         @Body({ required: true }) data: CreateSecurityRequest | CreateSecurityRequest[],
-        @Res() response: Response
+        @Res() response: Response,
+        @CurrentUser() caller?: ApiPrincipal
     ): Promise<Response> {
         try {
-            await this.service.addOrUpdate(data);
+            await this.service.addOrUpdate(data, caller?.name);
             return response.status(StatusCodes.NO_CONTENT).send();
         } catch (error) {
             return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
@@ -0,0 +1,144 @@
+import { Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import { Authorized, Body, Delete, Get, JsonController, Param, Post, QueryParam, Res } from "routing-controllers";
+import { Service } from "typedi";
+
+import { AddWatchlistSecuritiesRequest, AlertDTO, CreateAlertRuleRequest, CreateWatchlistRequest } from "../dtos";
+import { AlertRule, ApiRole, Watchlist } from "../entities";
+import { AlertService, WatchlistService } from "../services";
+
+@Service()
+@JsonController()
+@Authorized()
+class WatchlistController {
+    constructor(private service: WatchlistService, private alertService: AlertService) {}
+
+    @Get("/watchlists")
+    async getAll(): Promise<Watchlist[]> {
+        return this.service.getAll();
+    }
+
+    @Get("/watchlist/:id")
+    async getOne(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            const w: Watchlist = await this.service.getOne(id);
+            return response.status(StatusCodes.OK).send(w);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/watchlists")
+    async create(@Body({ required: true }) data: CreateWatchlistRequest, @Res() response: Response): Promise<Response> {
+        try {
+            const w: Watchlist = await this.service.create(data);
+            return response.status(StatusCodes.CREATED).send(w);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/watchlist/:id")
+    async delete(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            await this.service.delete(id);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/watchlist/:id/securities")
+    async addSecurities(
+        @Param("id") id: number,
+        @Body({ required: true }) data: AddWatchlistSecuritiesRequest,
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            const w: Watchlist = await this.service.addSecurities(id, data.isins);
+            return response.status(StatusCodes.OK).send(w);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/watchlist/:id/security/:isin")
+    async removeSecurity(
+        @Param("id") id: number,
+        @Param("isin") isin: string,
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            const w: Watchlist = await this.service.removeSecurity(id, isin);
+            return response.status(StatusCodes.OK).send(w);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Get("/watchlist/:id/rules")
+    async getRules(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            const rules: AlertRule[] = await this.service.getRules(id);
+            return response.status(StatusCodes.OK).send(rules);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Post("/watchlist/:id/rules")
+    async addRule(
+        @Param("id") id: number,
+        @Body({ required: true }) data: CreateAlertRuleRequest,
+        @Res() response: Response
+    ): Promise<Response> {
+        try {
+            const rule: AlertRule = await this.service.addRule(id, data);
+            return response.status(StatusCodes.CREATED).send(rule);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+
+    @Authorized(ApiRole.WRITER)
+    @Delete("/alert-rule/:id")
+    async deleteRule(@Param("id") id: number, @Res() response: Response): Promise<Response> {
+        try {
+            await this.service.deleteRule(id);
+            return response.status(StatusCodes.NO_CONTENT).send();
+        } catch (error) {
+            return response.status(StatusCodes.NOT_FOUND).send({ message: error.message });
+        }
+    }
+
+    @Get("/alerts")
+    async getAlerts(
+        @Res() response: Response,
+        @QueryParam("watchlist") watchlistID?: number,
+        @QueryParam("since") since?: string
+    ): Promise<Response> {
+        const alerts: AlertDTO[] = await this.alertService.getHistory(watchlistID, since);
+        return response.status(StatusCodes.OK).send(alerts);
+    }
+
+    /**
+     * Evaluates all alert rules immediately instead of waiting for new quotes.
+     */
+    @Authorized(ApiRole.WRITER)
+    @Post("/alerts/evaluate")
+    async evaluate(@Res() response: Response): Promise<Response> {
+        try {
+            const alerts: AlertDTO[] = await this.alertService.evaluate();
+            return response.status(StatusCodes.OK).send(alerts);
+        } catch (error) {
+            return response.status(StatusCodes.BAD_REQUEST).send({ message: error.message });
+        }
+    }
+}
+
+export { WatchlistController };
@@ -0,0 +1,34 @@
+import { IsEnum, MaxLength, MinLength } from "class-validator";
+
+import { ApiRole } from "../entities";
+
+class CreateApiKeyRequest {
+    @MinLength(1, { message: "API key name must not be empty" })
+    @MaxLength(100)
+    name: string;
+
+    @IsEnum(ApiRole)
+    role: ApiRole;
+
+    constructor(name: string, role: ApiRole) {
+        this.name = name;
+        this.role = role;
+    }
+}
+
+type ApiKeyDTO = {
+    id: number;
+    name: string;
+    prefix: string;
+    role: ApiRole;
+    createdAt: Date;
+    lastUsedAt: Date | null;
+    revokedAt: Date | null;
+};
+
+/** a newly created key; the only time the key itself is returned */
+type CreatedApiKeyDTO = ApiKeyDTO & {
+    key: string;
+};
+
+export { ApiKeyDTO, CreateApiKeyRequest, CreatedApiKeyDTO };
@@ -0,0 +1,129 @@
+import {
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsIn,
+    IsInt,
+    IsNumber,
+    IsOptional,
+    IsPositive,
+    Length,
+    Min
+} from "class-validator";
+
+/**
+ * The parameters of an RSL momentum backtest. On each rebalance date, the positions whose RSL fell below the sell
+ * threshold are sold, and the free slots are filled with the best-ranked listings above the buy threshold. All trades
+ * are executed at the next close after the rebalance date.
+ */
+class RSLBacktestRequest {
+    @IsDateString()
+    startDate: string;
+
+    @IsOptional()
+    @IsDateString()
+    endDate?: string;
+
+    /** the rebalance schedule: every Friday, or the last day of each month */
+    @IsOptional()
+    @IsIn(["weekly", "monthly"])
+    rebalance?: "weekly" | "monthly";
+
+    @IsOptional()
+    @IsIn(["weekly", "daily"])
+    algorithm?: "weekly" | "daily";
+
+    /** the RSL period in weeks or days, depending on the algorithm */
+    @IsOptional()
+    @IsInt()
+    @Min(2)
+    period?: number;
+
+    /** the maximum number of positions held at the same time */
+    @IsInt()
+    @Min(1)
+    topN: number;
+
+    @IsOptional()
+    @IsNumber()
+    buyThreshold?: number;
+
+    @IsOptional()
+    @IsNumber()
+    sellThreshold?: number;
+
+    @IsOptional()
+    @IsPositive()
+    initialCapital?: number;
+
+    /** the variable transaction costs as a fraction of the traded value, e.g. 0.001 for 0.1% */
+    @IsOptional()
+    @Min(0)
+    costRate?: number;
+
+    /** the fixed transaction costs per trade */
+    @IsOptional()
+    @Min(0)
+    fixedCosts?: number;
+
+    /** the annual risk-free rate for the Sharpe ratio */
+    @IsOptional()
+    @IsNumber()
+    riskFreeRate?: number;
+
+    /** reinvests the dividends by computing everything on dividend-adjusted prices */
+    @IsOptional()
+    @IsBoolean()
+    dividends?: boolean;
+
+    /** restricts the candidates to these securities; all listings are candidates otherwise */
+    @IsOptional()
+    @IsArray()
+    @Length(12, 12, { each: true, message: "ISIN must be exactly 12 characters long" })
+    isins?: string[];
+
+    constructor(startDate: string, topN: number) {
+        this.startDate = startDate;
+        this.topN = topN;
+    }
+}
+
+type BacktestTradeDTO = {
+    date: Date;
+    isin: string;
+    exchange: string;
+    type: "buy" | "sell";
+    quantity: number;
+    price: number;
+    /** the RSL value on the rebalance date that caused the trade */
+    rslValue: number | null;
+    costs: number;
+};
+
+type EquityPointDTO = {
+    date: Date;
+    value: number;
+    cash: number;
+    positions: number;
+};
+
+type BacktestResultDTO = {
+    startDate: Date;
+    endDate: Date;
+    initialCapital: number;
+    finalValue: number;
+    totalReturn: number;
+    /** the compound annual growth rate; only for periods longer than a year */
+    cagr: number | null;
+    /** the largest decline from a peak, as a positive fraction */
+    maxDrawdown: number;
+    /** based on daily returns; null if the equity never changed */
+    sharpeRatio: number | null;
+    /** the annual turnover: the average of bought and sold value per year, relative to the average equity */
+    turnover: number;
+    totalCosts: number;
+    trades: BacktestTradeDTO[];
+    equityCurve: EquityPointDTO[];
+};
+
+export { BacktestResultDTO, BacktestTradeDTO, EquityPointDTO, RSLBacktestRequest };
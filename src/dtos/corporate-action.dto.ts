@@ -0,0 +1,60 @@
+import { IsDateString, IsPositive, Length } from "class-validator";
+
+class CreateStockSplitRequest {
+    @Length(12, 12, { message: "ISIN must be exactly 12 characters long" })
+    isin: string;
+
+    @IsDateString()
+    date: string;
+
+    @IsPositive({ message: "Split ratio must be positive" })
+    ratio: number;
+
+    constructor(isin: string, date: string, ratio: number) {
+        this.isin = isin;
+        this.date = date;
+        this.ratio = ratio;
+    }
+}
+
+class CreateDividendRequest {
+    @Length(12, 12, { message: "ISIN must be exactly 12 characters long" })
+    isin: string;
+
+    @IsDateString()
+    exDate: string;
+
+    @IsPositive({ message: "Dividend amount must be positive" })
+    amount: number;
+
+    constructor(isin: string, exDate: string, amount: number) {
+        this.isin = isin;
+        this.exDate = exDate;
+        this.amount = amount;
+    }
+}
+
+/**
+ * Selects whether prices are adjusted for corporate actions. Split adjustment is always applied in adjusted mode;
+ * dividend adjustment only on request.
+ */
+type PriceAdjustmentOptions = {
+    adjusted: boolean;
+    dividends: boolean;
+};
+
+type StockSplitDTO = {
+    id: number;
+    isin: string;
+    date: string;
+    ratio: number;
+};
+
+type DividendDTO = {
+    id: number;
+    isin: string;
+    exDate: string;
+    amount: number;
+};
+
+export { CreateDividendRequest, CreateStockSplitRequest, DividendDTO, PriceAdjustmentOptions, StockSplitDTO };
@@ -0,0 +1,27 @@
+/**
+ * The CSV dialects supported by imports and exports. The "german" dialect uses semicolons as delimiters, decimal commas,
+ * and DD.MM.YYYY dates.
+ */
+type CSVDialect = "default" | "german";
+
+type CSVOptions = {
+    dialect?: CSVDialect;
+    /** overrides the dialect's delimiter */
+    delimiter?: string;
+    /** overrides the dialect's decimal separator */
+    decimalSeparator?: string;
+    /** overrides the dialect's date format; uses moment.js format tokens */
+    dateFormat?: string;
+};
+
+/**
+ * The options for exporting data as CSV. The byte order mark helps spreadsheet applications like Excel to detect the
+ * encoding.
+ */
+type ExportOptions = CSVOptions & {
+    bom?: boolean;
+};
+
+type ExportFormat = "json" | "csv" | "ndjson";
+
+export { CSVDialect, CSVOptions, ExportFormat, ExportOptions };
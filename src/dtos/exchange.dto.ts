@@ -1,12 +1,63 @@
-import { IsString } from "class-validator";
+import {
+    ArrayNotEmpty,
+    IsArray,
+    IsDateString,
+    IsInt,
+    IsOptional,
+    IsString,
+    Matches,
+    Max,
+    MaxLength,
+    Min
+} from "class-validator";
 
 class CreateExchangeRequest {
     @IsString()
     name: string;
 
-    constructor(name: string) {
+    @IsOptional()
+    @Matches(/^[A-Z]{3}$/, { message: "Currency must be a three-letter ISO 4217 code" })
+    currency?: string;
+
+    /** the IANA time zone, e.g. "Europe/Berlin" */
+    @IsOptional()
+    @IsString()
+    timezone?: string;
+
+    /** the ISO weekdays the exchange trades on (1 = Monday, 7 = Sunday) */
+    @IsOptional()
+    @IsArray()
+    @ArrayNotEmpty()
+    @IsInt({ each: true })
+    @Min(1, { each: true })
+    @Max(7, { each: true })
+    tradingDays?: number[];
+
+    constructor(name: string, currency?: string) {
+        this.name = name;
+        this.currency = currency;
+    }
+}
+
+class CreateHolidayRequest {
+    @IsDateString()
+    date: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    name?: string;
+
+    constructor(date: string, name?: string) {
+        this.date = date;
         this.name = name;
     }
 }
 
-export { CreateExchangeRequest };
+type HolidayDTO = {
+    id: number;
+    date: string;
+    name: string | null;
+};
+
+export { CreateExchangeRequest, CreateHolidayRequest, HolidayDTO };
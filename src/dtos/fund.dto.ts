@@ -0,0 +1,97 @@
+import { IsArray, IsDateString, IsObject, Length } from "class-validator";
+
+import { CSVOptions } from "./csv.dto";
+
+/**
+ * A single constituent of a fund, identified by its ISIN, its name, or both; holdings like cash only have a name. The
+ * underlying doesn't need to be stored as security, but if it is, its master data takes precedence over the country and
+ * sector given here.
+ */
+type FundHoldingItem = {
+    isin?: string;
+    name?: string;
+    /** the share of the fund's assets as a fraction, e.g. 0.05 for 5% */
+    weight: number;
+    country?: string;
+    sector?: string;
+};
+
+/** The complete composition of a fund or ETF on a date; replaces any composition stored for that date. */
+class AddFundCompositionRequest {
+    @Length(12, 12, { message: "ISIN must be exactly 12 characters long" })
+    isin: string;
+
+    @IsDateString()
+    date: string;
+
+    @IsArray()
+    @IsObject({ each: true })
+    holdings: FundHoldingItem[];
+
+    constructor(isin: string, date: string, holdings: FundHoldingItem[]) {
+        this.isin = isin;
+        this.date = date;
+        this.holdings = holdings;
+    }
+}
+
+/**
+ * The options of the CSV composition import. The file needs a weight column and an isin or name column, and may have
+ * country and sector columns.
+ */
+type FundCompositionImportOptions = CSVOptions & {
+    /** the date of the composition */
+    date: string;
+    /** whether the weights are given in percent (e.g. 5 for 5%) rather than as fractions */
+    percent?: boolean;
+};
+
+type FundHoldingDTO = {
+    id: number;
+    isin: string | null;
+    name: string | null;
+    weight: number;
+    country: string | null;
+    sector: string | null;
+};
+
+type FundCompositionDTO = {
+    isin: string;
+    date: string;
+    /** the sum of all weights; less than 1 if the published list is incomplete */
+    totalWeight: number;
+    holdings: FundHoldingDTO[];
+};
+
+/** the share of a fund's or portfolio's assets in an underlying, a sector, or a country */
+type ExposureDTO = {
+    /** the underlying's ISIN (or name if it has none), the sector, or the country; null if not known */
+    key: string | null;
+    /** the underlying's name; only for the exposure by underlying */
+    name?: string | null;
+    weight: number;
+    /** the market value of the exposure; only for portfolios */
+    value: number | null;
+};
+
+type LookThroughDTO = {
+    /** the fund's ISIN or the portfolio's name */
+    source: string;
+    /** the total market value; only for portfolios */
+    marketValue: number | null;
+    /** the share of the assets incomplete compositions don't list; it's contained in none of the exposures */
+    uncovered: number;
+    byUnderlying: ExposureDTO[];
+    bySector: ExposureDTO[];
+    byCountry: ExposureDTO[];
+};
+
+export {
+    AddFundCompositionRequest,
+    ExposureDTO,
+    FundCompositionDTO,
+    FundCompositionImportOptions,
+    FundHoldingDTO,
+    FundHoldingItem,
+    LookThroughDTO
+};
@@ -0,0 +1,27 @@
+import { IsArray, IsObject, Matches } from "class-validator";
+
+class AddFxRatesRequest {
+    @Matches(/^[A-Z]{3}$/, { message: "Base currency must be a three-letter ISO 4217 code" })
+    baseCurrency: string;
+
+    @Matches(/^[A-Z]{3}$/, { message: "Quote currency must be a three-letter ISO 4217 code" })
+    quoteCurrency: string;
+
+    @IsArray()
+    @IsObject({ each: true })
+    rates: FxRateItem[];
+
+    constructor(baseCurrency: string, quoteCurrency: string, rates: FxRateItem[]) {
+        this.baseCurrency = baseCurrency;
+        this.quoteCurrency = quoteCurrency;
+        this.rates = rates;
+    }
+}
+
+/** one unit of the base currency costs `rate` units of the quote currency */
+type FxRateItem = {
+    date: Date;
+    rate: number;
+};
+
+export { AddFxRatesRequest, FxRateItem };
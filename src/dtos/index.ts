@@ -1,3 +1,51 @@
-export { CreateExchangeRequest } from "./exchange.dto";
-export { AddQuoteDataRequest, NewestDatesOptions, NewestSharePriceDateDTO } from "./quote.dto";
-export { CreateSecurityRequest } from "./security.dto";
+export { ApiKeyDTO, CreateApiKeyRequest, CreatedApiKeyDTO } from "./auth.dto";
+export { BacktestResultDTO, BacktestTradeDTO, EquityPointDTO, RSLBacktestRequest } from "./backtest.dto";
+export {
+    CreateDividendRequest,
+    CreateStockSplitRequest,
+    DividendDTO,
+    PriceAdjustmentOptions,
+    StockSplitDTO
+} from "./corporate-action.dto";
+export { CSVDialect, CSVOptions, ExportFormat, ExportOptions } from "./csv.dto";
+export { CreateExchangeRequest, CreateHolidayRequest, HolidayDTO } from "./exchange.dto";
+export {
+    AddFundCompositionRequest,
+    ExposureDTO,
+    FundCompositionDTO,
+    FundCompositionImportOptions,
+    FundHoldingDTO,
+    FundHoldingItem,
+    LookThroughDTO
+} from "./fund.dto";
+export { AddFxRatesRequest, FxRateItem } from "./fx-rate.dto";
+export { IndicatorOptions, IndicatorPointDTO, IndicatorType } from "./indicator.dto";
+export { CreateListingRequest, ListingDTO, ListingSelection } from "./listing.dto";
+export {
+    AddTransactionRequest,
+    CostBasisMethod,
+    CreatePortfolioRequest,
+    HoldingDTO,
+    PortfolioHoldingsDTO,
+    PortfolioReturnDTO,
+    TransactionDTO
+} from "./portfolio.dto";
+export {
+    AddQuoteDataRequest,
+    ListingQuoteDataDTO,
+    NewestDatesOptions,
+    NewestSharePriceDateDTO,
+    QuoteDataDTO,
+    QuoteDataItem,
+    QuoteImportColumns,
+    QuoteImportOptions,
+    QuoteImportReport,
+    QuoteImportRowResult
+} from "./quote.dto";
+export { CertificateTermsDTO, CertificateTermsRequest, CreateSecurityRequest, SecurityFilter } from "./security.dto";
+export {
+    AddWatchlistSecuritiesRequest,
+    AlertDTO,
+    CreateAlertRuleRequest,
+    CreateWatchlistRequest
+} from "./watchlist.dto";
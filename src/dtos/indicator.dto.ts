@@ -0,0 +1,31 @@
+type IndicatorType = "sma" | "ema" | "rsi" | "macd" | "bollinger" | "atr" | "volatility" | "rsl";
+
+/**
+ * The parameters of an indicator. Only those relevant for the indicator are used; all have the usual defaults (e.g. 14
+ * for RSI and ATR, 12/26/9 for MACD, 20 and 2 deviations for Bollinger bands, 27 weeks or 200 days for RSL).
+ */
+type IndicatorOptions = {
+    /** the window length, in bars of the selected interval */
+    period?: number;
+    /** the fast EMA period of MACD */
+    fast?: number;
+    /** the slow EMA period of MACD */
+    slow?: number;
+    /** the signal EMA period of MACD */
+    signal?: number;
+    /** the width of the Bollinger bands in standard deviations */
+    deviations?: number;
+    /** computes the indicator on daily bars, or on weekly bars (the last trading day of each week) */
+    interval?: "daily" | "weekly";
+};
+
+/**
+ * A single point of an indicator time series. Indicators with several lines (MACD, Bollinger bands) have one field per
+ * line; all others have a single `value` field.
+ */
+type IndicatorPointDTO = {
+    date: Date;
+    [line: string]: Date | number | null;
+};
+
+export { IndicatorOptions, IndicatorPointDTO, IndicatorType };
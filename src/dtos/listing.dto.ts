@@ -0,0 +1,57 @@
+import { IsBoolean, IsEnum, IsOptional, IsString, Length, MaxLength } from "class-validator";
+
+import { ListingStatus } from "../entities";
+
+/** Selects whether evaluations include all listings of a security or only its preferred one. */
+type ListingSelection = "preferred" | "all";
+
+class CreateListingRequest {
+    @Length(12, 12, { message: "ISIN must be exactly 12 characters long" })
+    isin: string;
+
+    /** the exchange name */
+    @IsString()
+    exchange: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(20)
+    nsin?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(20)
+    ticker?: string;
+
+    /** marking a listing as preferred removes the mark from the security's other listings */
+    @IsOptional()
+    @IsBoolean()
+    preferred?: boolean;
+
+    @IsOptional()
+    @IsEnum(ListingStatus)
+    status?: ListingStatus;
+
+    constructor(isin: string, exchange: string) {
+        this.isin = isin;
+        this.exchange = exchange;
+    }
+}
+
+type ListingDTO = {
+    isin: string;
+    securityName: string;
+    exchangeID: number;
+    exchangeName: string;
+    /** the listing's own NSIN, or the security's if it has none */
+    nsin: string;
+    ticker: string | null;
+    /** whether the listing is used where only one listing per security is wanted, explicitly marked or not */
+    preferred: boolean;
+    status: ListingStatus;
+    quoteCount: number;
+    /** null for listings without quotes */
+    newestDate: Date | null;
+};
+
+export { CreateListingRequest, ListingDTO, ListingSelection };
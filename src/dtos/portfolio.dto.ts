@@ -0,0 +1,132 @@
+import { IsDateString, IsEnum, IsOptional, IsPositive, IsString, Length, Min, MinLength } from "class-validator";
+
+import { TransactionType } from "../entities";
+
+class CreatePortfolioRequest {
+    @MinLength(1, { message: "Portfolio name must not be empty" })
+    name: string;
+
+    @IsOptional()
+    @IsString()
+    description?: string;
+
+    constructor(name: string, description?: string) {
+        this.name = name;
+        this.description = description;
+    }
+}
+
+/**
+ * A single portfolio transaction. Buys and sells need the security, exchange, quantity, and price; dividends need the
+ * security and the amount; fees only need the amount.
+ */
+class AddTransactionRequest {
+    @IsEnum(TransactionType)
+    type: TransactionType;
+
+    @IsDateString()
+    date: string;
+
+    @IsOptional()
+    @Length(12, 12, { message: "ISIN must be exactly 12 characters long" })
+    isin?: string;
+
+    @IsOptional()
+    @IsString()
+    exchange?: string;
+
+    @IsOptional()
+    @IsPositive()
+    quantity?: number;
+
+    @IsOptional()
+    @IsPositive()
+    price?: number;
+
+    @IsOptional()
+    @IsPositive()
+    amount?: number;
+
+    @IsOptional()
+    @Min(0)
+    fees?: number;
+
+    constructor(type: TransactionType, date: string) {
+        this.type = type;
+        this.date = date;
+    }
+}
+
+type CostBasisMethod = "fifo" | "average";
+
+type TransactionDTO = {
+    id: number;
+    type: TransactionType;
+    date: string;
+    isin: string | null;
+    exchange: string | null;
+    quantity: number | null;
+    price: number | null;
+    amount: number | null;
+    fees: number;
+};
+
+type HoldingDTO = {
+    isin: string;
+    securityName: string;
+    exchangeName: string;
+    quantity: number;
+    costBasis: number;
+    averageCost: number;
+    /** the newest close on the exchange, or null if there are no quotes */
+    marketPrice: number | null;
+    marketPriceDate: Date | null;
+    marketValue: number | null;
+    unrealizedPnL: number | null;
+    realizedPnL: number;
+    dividends: number;
+    fees: number;
+};
+
+type PortfolioHoldingsDTO = {
+    portfolio: string;
+    method: CostBasisMethod;
+    holdings: HoldingDTO[];
+    totals: {
+        costBasis: number;
+        marketValue: number;
+        unrealizedPnL: number;
+        realizedPnL: number;
+        dividends: number;
+        /** all fees, including those not related to a security */
+        fees: number;
+    };
+};
+
+type PortfolioReturnDTO = {
+    /** the period specification, or "custom" for explicit dates */
+    period: string;
+    /** the valuation date the return is measured from */
+    startDate: Date;
+    endDate: Date;
+    startValue: number;
+    endValue: number;
+    /** purchases and fees minus sale proceeds and dividends within the period */
+    netInflows: number;
+    /** the time-weighted return over the complete period */
+    twr: number;
+    /** only for periods longer than a year */
+    annualizedTWR: number | null;
+    /** the annual money-weighted return (XIRR); null if it can't be determined */
+    irr: number | null;
+};
+
+export {
+    AddTransactionRequest,
+    CostBasisMethod,
+    CreatePortfolioRequest,
+    HoldingDTO,
+    PortfolioHoldingsDTO,
+    PortfolioReturnDTO,
+    TransactionDTO
+};
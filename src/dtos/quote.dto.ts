@@ -1,5 +1,21 @@
 import { IsArray, IsObject, IsString, Length } from "class-validator";
 
+import { CSVOptions } from "./csv.dto";
+
+/**
+ * A single day's quote data. Either a full OHLCV bar or only a closing price; in the latter case the price may also be
+ * passed as `quote` (the original single-value format), which is then treated as the close.
+ */
+type QuoteDataItem = {
+    date: Date;
+    quote?: number;
+    open?: number;
+    high?: number;
+    low?: number;
+    close?: number;
+    volume?: number;
+};
+
 class AddQuoteDataRequest {
     @Length(12, 12, { message: "ISIN must be exactly 12 characters long" })
     isin: string;
@@ -9,15 +25,66 @@ class AddQuoteDataRequest {
 
     @IsArray()
     @IsObject({ each: true })
-    quotes: { date: Date; quote: number }[];
+    quotes: QuoteDataItem[];
 
-    constructor(isin: string, exchange: string, data: { date: Date; quote: number }[]) {
+    constructor(isin: string, exchange: string, data: QuoteDataItem[]) {
         this.isin = isin;
         this.exchange = exchange;
         this.quotes = data;
     }
 }
 
+type QuoteDataDTO = {
+    date: Date;
+    /** the closing price; kept for clients that only know the single-value format */
+    quote: number;
+    open: number | null;
+    high: number | null;
+    low: number | null;
+    close: number;
+    volume: number | null;
+};
+
+/** a quote retrieved by ISIN alone, which may come from several exchanges */
+type ListingQuoteDataDTO = QuoteDataDTO & {
+    exchange: string;
+};
+
+/** Maps the quote fields to the header names of the CSV columns holding them. */
+type QuoteImportColumns = {
+    date?: string;
+    open?: string;
+    high?: string;
+    low?: string;
+    close?: string;
+    volume?: string;
+    isin?: string;
+    nsin?: string;
+    exchange?: string;
+};
+
+type QuoteImportOptions = CSVOptions & {
+    /** ISIN or NSIN used for all rows without a security column */
+    security?: string;
+    /** exchange name used for all rows without an exchange column */
+    exchange?: string;
+    columns?: QuoteImportColumns;
+};
+
+type QuoteImportRowResult = {
+    /** the line number in the uploaded file, the header being line 1 */
+    row: number;
+    status: "inserted" | "updated" | "rejected";
+    reason?: string;
+};
+
+type QuoteImportReport = {
+    inserted: number;
+    updated: number;
+    rejected: number;
+    rows: QuoteImportRowResult[];
+};
+
 type NewestDatesOptions = {
     "date-only"?: boolean;
 };
@@ -28,4 +95,15 @@ type NewestSharePriceDateDTO = {
     newestDate: string;
 };
 
-export { AddQuoteDataRequest, NewestDatesOptions, NewestSharePriceDateDTO };
+export {
+    AddQuoteDataRequest,
+    ListingQuoteDataDTO,
+    NewestDatesOptions,
+    NewestSharePriceDateDTO,
+    QuoteDataDTO,
+    QuoteDataItem,
+    QuoteImportColumns,
+    QuoteImportOptions,
+    QuoteImportReport,
+    QuoteImportRowResult
+};
@@ -1,7 +1,55 @@
-import { IsEnum, Length, MinLength } from "class-validator";
+import { Type } from "class-transformer";
+import {
+    ArrayMaxSize,
+    IsArray,
+    IsBoolean,
+    IsDateString,
+    IsEnum,
+    IsOptional,
+    IsPositive,
+    IsString,
+    Length,
+    Matches,
+    Max,
+    MaxLength,
+    Min,
+    MinLength,
+    ValidateNested
+} from "class-validator";
 
 import { SecurityType } from "../entities";
 
+/** The terms of a certificate; strike and barrier are given in the underlying's price. */
+class CertificateTermsRequest {
+    /** the ISIN of the underlying, which has to be stored as security */
+    @IsOptional()
+    @Length(12, 12, { message: "Underlying ISIN must be exactly 12 characters long" })
+    underlying?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(50)
+    kind?: string;
+
+    @IsOptional()
+    @IsPositive({ message: "Strike must be positive" })
+    strike?: number;
+
+    @IsOptional()
+    @IsPositive({ message: "Barrier must be positive" })
+    barrier?: number;
+
+    /** the number of underlying units per certificate; defaults to 1 */
+    @IsOptional()
+    @IsPositive({ message: "Ratio must be positive" })
+    ratio?: number;
+
+    /** not set for open-end products */
+    @IsOptional()
+    @IsDateString()
+    expiry?: string;
+}
+
 class CreateSecurityRequest {
     @Length(12, 12, { message: "ISIN must be exactly 12 characters long" })
     isin: string;
@@ -15,6 +63,69 @@ class CreateSecurityRequest {
     @IsEnum(SecurityType)
     type: SecurityType;
 
+    @IsOptional()
+    @IsBoolean()
+    isBenchmark?: boolean;
+
+    /** the ISIN of the default benchmark; null removes it */
+    @IsOptional()
+    @Length(12, 12, { message: "Benchmark ISIN must be exactly 12 characters long" })
+    benchmark?: string | null;
+
+    @IsOptional()
+    @Matches(/^[A-Z]{2}$/, { message: "Country must be a two-letter ISO 3166-1 code" })
+    country?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    sector?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    industry?: string;
+
+    @IsOptional()
+    @Matches(/^[A-Z]{3}$/, { message: "Currency must be a three-letter ISO 4217 code" })
+    currency?: string;
+
+    @IsOptional()
+    @Matches(/^[A-Z0-9]{6}$/, { message: "WKN must be exactly 6 letters or digits" })
+    wkn?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(20)
+    ticker?: string;
+
+    @IsOptional()
+    @Matches(/^[A-Z0-9]{2}G[A-Z0-9]{8}[0-9]$/, { message: "FIGI must be 12 characters with a G as third character" })
+    figi?: string;
+
+    @IsOptional()
+    @IsString()
+    @MaxLength(100)
+    issuer?: string;
+
+    /** the total expense ratio as a fraction, e.g. 0.002 for 0.2%; only for funds and ETFs */
+    @IsOptional()
+    @Min(0)
+    @Max(0.1, { message: "TER must be given as a fraction, e.g. 0.002 for 0.2%" })
+    ter?: number;
+
+    @IsOptional()
+    @IsArray()
+    @ArrayMaxSize(20)
+    @Matches(/^[^,]{1,50}$/, { each: true, message: "Tags must have 1 to 50 characters and no commas" })
+    tags?: string[];
+
+    /** only for certificates; replaces the stored terms */
+    @IsOptional()
+    @ValidateNested()
+    @Type(() => CertificateTermsRequest)
+    certificate?: CertificateTermsRequest;
+
     constructor(isin: string, nsin: string, name: string, type: SecurityType) {
         this.isin = isin;
         this.nsin = nsin;
@@ -23,4 +134,27 @@ class CreateSecurityRequest {
     }
 }
 
-export { CreateSecurityRequest };
+/** Restricts a list of securities. All text filters except the search are exact, but case-insensitive. */
+type SecurityFilter = {
+    type?: SecurityType;
+    country?: string;
+    sector?: string;
+    industry?: string;
+    currency?: string;
+    issuer?: string;
+    tag?: string;
+    /** searches the name, the identifiers, and the issuer for the text */
+    search?: string;
+};
+
+type CertificateTermsDTO = {
+    isin: string;
+    underlyingISIN: string | null;
+    kind: string | null;
+    strike: number | null;
+    barrier: number | null;
+    ratio: number;
+    expiry: string | null;
+};
+
+export { CertificateTermsDTO, CertificateTermsRequest, CreateSecurityRequest, SecurityFilter };
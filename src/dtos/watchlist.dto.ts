@@ -0,0 +1,72 @@
+import { IsArray, IsEnum, IsIn, IsNumber, IsObject, IsOptional, IsString, Length, MinLength } from "class-validator";
+
+import { AlertDirection, AlertRuleType } from "../entities";
+
+class CreateWatchlistRequest {
+    @MinLength(1, { message: "Watchlist name must not be empty" })
+    name: string;
+
+    @IsOptional()
+    @IsArray()
+    @Length(12, 12, { each: true, message: "ISIN must be exactly 12 characters long" })
+    isins?: string[];
+
+    constructor(name: string, isins?: string[]) {
+        this.name = name;
+        this.isins = isins;
+    }
+}
+
+class AddWatchlistSecuritiesRequest {
+    @IsArray()
+    @Length(12, 12, { each: true, message: "ISIN must be exactly 12 characters long" })
+    isins: string[];
+
+    constructor(isins: string[]) {
+        this.isins = isins;
+    }
+}
+
+/**
+ * An alert rule. Performance rules need an interval; RSL rules may choose the algorithm and use the weekly one
+ * otherwise.
+ */
+class CreateAlertRuleRequest {
+    @IsEnum(AlertRuleType)
+    type: AlertRuleType;
+
+    @IsEnum(AlertDirection)
+    direction: AlertDirection;
+
+    @IsNumber()
+    threshold: number;
+
+    @IsOptional()
+    @IsObject()
+    interval?: { unit: "day" | "month" | "year"; count: number };
+
+    @IsOptional()
+    @IsString()
+    @IsIn(["weekly", "daily"])
+    algorithm?: string;
+
+    constructor(type: AlertRuleType, direction: AlertDirection, threshold: number) {
+        this.type = type;
+        this.direction = direction;
+        this.threshold = threshold;
+    }
+}
+
+type AlertDTO = {
+    id: number;
+    ruleID: number;
+    watchlist: string;
+    isin: string;
+    exchange: string;
+    date: string;
+    value: number;
+    message: string;
+    createdAt: Date;
+};
+
+export { AddWatchlistSecuritiesRequest, AlertDTO, CreateAlertRuleRequest, CreateWatchlistRequest };
@@ -0,0 +1,58 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+
+import { Watchlist } from "./watchlist.entity";
+
+enum AlertRuleType {
+    /** the newest close */
+    PRICE = "price",
+    /** the performance over the rule's interval */
+    PERFORMANCE = "performance",
+    /** the RSL value according to the rule's algorithm */
+    RSL = "rsl"
+}
+
+enum AlertDirection {
+    ABOVE = "above",
+    BELOW = "below"
+}
+
+/**
+ * A rule that raises an alert for a security on the watchlist as soon as the observed value crosses the threshold in
+ * the given direction.
+ */
+@Entity({ name: "alert_rules" })
+class AlertRule {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        type: "enum",
+        enum: AlertRuleType
+    })
+    type!: AlertRuleType;
+
+    @Column({
+        type: "enum",
+        enum: AlertDirection
+    })
+    direction!: AlertDirection;
+
+    @Column({ type: "decimal", precision: 12, scale: 4 })
+    threshold!: number;
+
+    /** the performance interval; only used for performance rules */
+    @Column({ type: "simple-json", nullable: true })
+    interval?: { unit: "day" | "month" | "year"; count: number } | null;
+
+    /** the RSL algorithm ("weekly" or "daily"); only used for RSL rules */
+    @Column({ length: 10, nullable: true })
+    algorithm?: string | null;
+
+    @Column({ default: true })
+    active!: boolean;
+
+    @ManyToOne(() => Watchlist, (watchlist) => watchlist.rules, { onDelete: "CASCADE" })
+    watchlist!: Watchlist;
+}
+
+export { AlertDirection, AlertRule, AlertRuleType };
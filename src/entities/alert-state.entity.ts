@@ -0,0 +1,32 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+
+import { AlertRule } from "./alert-rule.entity";
+
+/**
+ * The outcome of the latest evaluation of an alert rule for a single listing. Needed to detect when the observed value
+ * crosses the threshold.
+ */
+@Entity({ name: "alert_states" })
+@Unique(["rule", "isin", "exchange"])
+class AlertState {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @ManyToOne(() => AlertRule, { onDelete: "CASCADE" })
+    rule!: AlertRule;
+
+    @Column()
+    isin!: string;
+
+    @Column()
+    exchange!: string;
+
+    @Column({ type: "double" })
+    value!: number;
+
+    /** whether the value was beyond the threshold */
+    @Column()
+    triggered!: boolean;
+}
+
+export { AlertState };
@@ -0,0 +1,34 @@
+import { Column, CreateDateColumn, Entity, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+
+import { AlertRule } from "./alert-rule.entity";
+
+/** an alert raised by a rule; these form the alert history */
+@Entity({ name: "alerts" })
+class Alert {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @ManyToOne(() => AlertRule, { onDelete: "CASCADE" })
+    rule!: AlertRule;
+
+    @Column()
+    isin!: string;
+
+    @Column()
+    exchange!: string;
+
+    /** the date of the data the alert is based on */
+    @Column({ type: "date" })
+    date!: Date;
+
+    @Column({ type: "double" })
+    value!: number;
+
+    @Column()
+    message!: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
+
+export { Alert };
@@ -0,0 +1,45 @@
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn } from "typeorm";
+
+/** Each role includes the rights of the ones before it: readers only read, writers change data, admins manage keys. */
+enum ApiRole {
+    READER = "reader",
+    WRITER = "writer",
+    ADMIN = "admin"
+}
+
+/**
+ * A key for the REST API. Only the key's hash is stored; the key itself is shown once when it is created.
+ */
+@Entity({ name: "api_keys" })
+class ApiKey {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    /** identifies the caller in the audit trail */
+    @Column({ length: 100, unique: true })
+    name!: string;
+
+    /** the first characters of the key, to tell keys apart without revealing them */
+    @Column({ length: 8 })
+    prefix!: string;
+
+    /** the SHA-256 hash of the key, hex-encoded */
+    @Column({ length: 64, unique: true })
+    keyHash!: string;
+
+    @Column({ type: "enum", enum: ApiRole })
+    role!: ApiRole;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    /** updated at most once a minute */
+    @Column({ type: "datetime", nullable: true })
+    lastUsedAt!: Date | null;
+
+    /** revoked keys are kept so the audit trail still refers to an existing name */
+    @Column({ type: "datetime", nullable: true })
+    revokedAt!: Date | null;
+}
+
+export { ApiKey, ApiRole };
@@ -0,0 +1,36 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+import { ApiRole } from "./api-key.entity";
+
+/** a request that (tried to) change data, with the caller that sent it */
+@Entity({ name: "audit_trail" })
+@Index(["createdAt"])
+class AuditEntry {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    /** the name of the API key; null for requests without a (valid) key */
+    @Column({ type: "varchar", length: 100, nullable: true })
+    caller!: string | null;
+
+    @Column({ type: "enum", enum: ApiRole, nullable: true })
+    role!: ApiRole | null;
+
+    @Column({ length: 10 })
+    method!: string;
+
+    @Column({ length: 500 })
+    path!: string;
+
+    /** the ISINs given in the request body, e.g. of the securities or quotes written */
+    @Column({ type: "simple-array", nullable: true })
+    isins!: string[] | null;
+
+    @Column()
+    statusCode!: number;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+}
+
+export { AuditEntry };
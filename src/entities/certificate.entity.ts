@@ -0,0 +1,41 @@
+import { Column, Entity, JoinColumn, ManyToOne, OneToOne, PrimaryGeneratedColumn } from "typeorm";
+
+import { Security } from "./security.entity";
+
+/**
+ * The terms of a certificate or other derivative. Strike and barrier are given in the underlying's price, the issuer is
+ * part of the security's master data.
+ */
+@Entity({ name: "certificates" })
+class CertificateDetails {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @OneToOne(() => Security, (security) => security.certificate, { onDelete: "CASCADE" })
+    @JoinColumn()
+    security!: Security;
+
+    /** not set for underlyings that aren't stored as securities */
+    @ManyToOne(() => Security, { nullable: true, onDelete: "SET NULL" })
+    underlying?: Security | null;
+
+    /** the kind of product, e.g. "discount", "bonus", or "knock-out" */
+    @Column({ type: "varchar", length: 50, nullable: true })
+    kind?: string | null;
+
+    @Column({ type: "decimal", precision: 16, scale: 6, nullable: true })
+    strike?: number | null;
+
+    @Column({ type: "decimal", precision: 16, scale: 6, nullable: true })
+    barrier?: number | null;
+
+    /** the number of underlying units per certificate, e.g. 0.01 for 100 certificates per share */
+    @Column({ type: "decimal", precision: 12, scale: 6, default: 1 })
+    ratio!: number;
+
+    /** not set for open-end products */
+    @Column({ type: "date", nullable: true })
+    expiry?: Date | null;
+}
+
+export { CertificateDetails };
@@ -0,0 +1,61 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+enum ChangeSubject {
+    SECURITY = "security",
+    EXCHANGE = "exchange",
+    QUOTE = "quote"
+}
+
+enum ChangeAction {
+    INSERT = "insert",
+    UPDATE = "update",
+    DELETE = "delete"
+}
+
+/** the values of a security, an exchange, or a quote at one point in time, as stored in the change history */
+type ChangeValues = Record<string, unknown>;
+
+/**
+ * A single insert, update, or delete of a security, an exchange, or a quote, with the values before and after.
+ */
+@Entity({ name: "change_history" })
+@Index(["subject", "subjectKey", "changedAt"])
+class ChangeRecord {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ type: "enum", enum: ChangeSubject })
+    subject!: ChangeSubject;
+
+    /** the ISIN of a security, the name of an exchange, or "ISIN@exchange" for a quote series */
+    @Column({ length: 120 })
+    subjectKey!: string;
+
+    /** the date of a quote; null for securities and exchanges */
+    @Column({ type: "date", nullable: true })
+    date!: string | null;
+
+    @Column({ type: "enum", enum: ChangeAction })
+    action!: ChangeAction;
+
+    /** null for inserts */
+    @Column({ type: "simple-json", nullable: true })
+    before!: ChangeValues | null;
+
+    /** null for deletes */
+    @Column({ type: "simple-json", nullable: true })
+    after!: ChangeValues | null;
+
+    /** who made the change: the API key name, or "provider:<name>" for quotes from a quote provider */
+    @Column({ type: "varchar", length: 120, nullable: true })
+    source!: string | null;
+
+    /** set if this change reverted an earlier one */
+    @Column({ type: "int", nullable: true })
+    revertOf!: number | null;
+
+    @CreateDateColumn()
+    changedAt!: Date;
+}
+
+export { ChangeAction, ChangeRecord, ChangeSubject, ChangeValues };
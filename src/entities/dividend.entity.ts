@@ -0,0 +1,22 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+
+import { Security } from "./security.entity";
+
+@Entity({ name: "dividends" })
+@Unique(["exDate", "security"])
+class Dividend {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ type: "date" })
+    exDate!: Date;
+
+    /** the dividend per share, in the same currency as the quotes */
+    @Column({ type: "decimal", precision: 12, scale: 4 })
+    amount!: number;
+
+    @ManyToOne(() => Security, (security) => security.dividends, { onDelete: "CASCADE" })
+    security!: Security;
+}
+
+export { Dividend };
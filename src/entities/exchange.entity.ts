@@ -1,6 +1,7 @@
-import { IsString } from "class-validator";
+import { IsString, Length } from "class-validator";
 import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from "typeorm";
 
+import { ExchangeHoliday } from "./holiday.entity";
 import { QuoteData } from "./quote.entity";
 
 @Entity({ name: "exchanges" })
@@ -12,8 +13,33 @@ class SecuritiesExchange {
     @IsString()
     name!: string;
 
+    /** the ISO 4217 code of the currency the quotes on this exchange are denominated in */
+    @Column({ length: 3, default: "EUR" })
+    @Length(3, 3)
+    currency!: string;
+
+    /** the IANA time zone of the exchange, e.g. "Europe/Berlin" */
+    @Column({ length: 64, default: "Europe/Berlin" })
+    @IsString()
+    timezone!: string;
+
+    /** the ISO weekdays the exchange trades on (1 = Monday, 7 = Sunday), stored as comma-separated list */
+    @Column({
+        type: "varchar",
+        length: 13,
+        default: "1,2,3,4,5",
+        transformer: {
+            to: (days?: number[]) => days?.join(","),
+            from: (days: string) => days.split(",").map(Number)
+        }
+    })
+    tradingDays!: number[];
+
     @OneToMany(() => QuoteData, (quote) => quote.exchange)
     quotes!: QuoteData[];
+
+    @OneToMany(() => ExchangeHoliday, (holiday) => holiday.exchange)
+    holidays!: ExchangeHoliday[];
 }
 
 export { SecuritiesExchange };
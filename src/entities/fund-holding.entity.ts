@@ -0,0 +1,44 @@
+import { Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+
+import { Security } from "./security.entity";
+
+/**
+ * A constituent of a fund or ETF as of a date. All holdings of a fund with the same date form one composition.
+ */
+@Entity({ name: "fund_holdings" })
+@Index(["fund", "date"])
+class FundHolding {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    /** the date the composition was published for */
+    @Column({ type: "date" })
+    date!: Date;
+
+    @ManyToOne(() => Security, { onDelete: "CASCADE" })
+    fund!: Security;
+
+    /**
+     * the underlying's ISIN; kept as text since most constituents aren't stored as securities. Not set for holdings
+     * without one, e.g. cash.
+     */
+    @Column({ type: "varchar", length: 12, nullable: true })
+    isin?: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    name?: string | null;
+
+    /** the share of the fund's assets as a fraction, e.g. 0.05 for 5% */
+    @Column({ type: "decimal", precision: 9, scale: 6 })
+    weight!: number;
+
+    /** used for the look-through unless the underlying is a stored security with a country */
+    @Column({ type: "varchar", length: 2, nullable: true })
+    country?: string | null;
+
+    /** used for the look-through unless the underlying is a stored security with a sector */
+    @Column({ type: "varchar", length: 100, nullable: true })
+    sector?: string | null;
+}
+
+export { FundHolding };
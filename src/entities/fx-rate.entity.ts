@@ -0,0 +1,25 @@
+import { Column, Entity, PrimaryGeneratedColumn, Unique } from "typeorm";
+
+/**
+ * A daily exchange rate: one unit of the base currency costs `rate` units of the quote currency.
+ */
+@Entity({ name: "fx_rates" })
+@Unique(["date", "baseCurrency", "quoteCurrency"])
+class FxRate {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ type: "date" })
+    date!: Date;
+
+    @Column({ length: 3 })
+    baseCurrency!: string;
+
+    @Column({ length: 3 })
+    quoteCurrency!: string;
+
+    @Column({ type: "decimal", precision: 16, scale: 8 })
+    rate!: number;
+}
+
+export { FxRate };
@@ -0,0 +1,22 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+
+import { SecuritiesExchange } from "./exchange.entity";
+
+@Entity({ name: "exchange_holidays" })
+@Unique(["date", "exchange"])
+class ExchangeHoliday {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    /** a date the exchange is closed on although it's a trading weekday */
+    @Column({ type: "date" })
+    date!: Date;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    name!: string | null;
+
+    @ManyToOne(() => SecuritiesExchange, (exchange) => exchange.holidays, { onDelete: "CASCADE" })
+    exchange!: SecuritiesExchange;
+}
+
+export { ExchangeHoliday };
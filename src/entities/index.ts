@@ -1,3 +1,20 @@
+export { Alert } from "./alert.entity";
+export { AlertDirection, AlertRule, AlertRuleType } from "./alert-rule.entity";
+export { AlertState } from "./alert-state.entity";
+export { ApiKey, ApiRole } from "./api-key.entity";
+export { AuditEntry } from "./audit-entry.entity";
+export { CertificateDetails } from "./certificate.entity";
+export { ChangeAction, ChangeRecord, ChangeSubject, ChangeValues } from "./change-record.entity";
+export { Dividend } from "./dividend.entity";
 export { SecuritiesExchange } from "./exchange.entity";
+export { FundHolding } from "./fund-holding.entity";
+export { FxRate } from "./fx-rate.entity";
+export { ExchangeHoliday } from "./holiday.entity";
+export { Listing, ListingStatus } from "./listing.entity";
+export { Portfolio } from "./portfolio.entity";
+export { ProviderRun } from "./provider-run.entity";
 export { QuoteData } from "./quote.entity";
 export { Security, SecurityType } from "./security.entity";
+export { StockSplit } from "./split.entity";
+export { PortfolioTransaction, TransactionType } from "./transaction.entity";
+export { Watchlist } from "./watchlist.entity";
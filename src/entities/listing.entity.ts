@@ -0,0 +1,42 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+
+import { SecuritiesExchange } from "./exchange.entity";
+import { Security } from "./security.entity";
+
+enum ListingStatus {
+    ACTIVE = "active",
+    DELISTED = "delisted"
+}
+
+/**
+ * The exchange-specific data of a security/exchange combination. Combinations with quotes but without an entry here
+ * count as active listings without a preference.
+ */
+@Entity({ name: "listings" })
+@Unique(["security", "exchange"])
+class Listing {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @ManyToOne(() => Security, { onDelete: "CASCADE" })
+    security!: Security;
+
+    @ManyToOne(() => SecuritiesExchange, { onDelete: "CASCADE" })
+    exchange!: SecuritiesExchange;
+
+    /** the exchange's own identifier, if it differs from the security's NSIN */
+    @Column({ type: "varchar", length: 20, nullable: true })
+    nsin?: string | null;
+
+    @Column({ type: "varchar", length: 20, nullable: true })
+    ticker?: string | null;
+
+    /** marks the listing used for the security where only one listing is wanted; at most one per security */
+    @Column({ default: false })
+    preferred!: boolean;
+
+    @Column({ type: "enum", enum: ListingStatus, default: ListingStatus.ACTIVE })
+    status!: ListingStatus;
+}
+
+export { Listing, ListingStatus };
@@ -0,0 +1,22 @@
+import { IsString } from "class-validator";
+import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+
+import { PortfolioTransaction } from "./transaction.entity";
+
+@Entity({ name: "portfolios" })
+class Portfolio {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ unique: true })
+    @IsString()
+    name!: string;
+
+    @Column({ type: "text", nullable: true })
+    description?: string | null;
+
+    @OneToMany(() => PortfolioTransaction, (transaction) => transaction.portfolio)
+    transactions!: PortfolioTransaction[];
+}
+
+export { Portfolio };
@@ -0,0 +1,41 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+/** the outcome of a provider update of a single listing; these form the ingestion history */
+@Entity({ name: "provider_runs" })
+@Index(["provider", "startedAt"])
+class ProviderRun {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ length: 100 })
+    provider!: string;
+
+    /** null if the run failed before any listing was processed */
+    @Column({ type: "varchar", length: 12, nullable: true })
+    isin!: string | null;
+
+    @Column({ type: "varchar", nullable: true })
+    exchange!: string | null;
+
+    /** where the quotes came from, e.g. the name of a dropped file */
+    @Column({ type: "varchar", nullable: true })
+    source!: string | null;
+
+    @Column({ length: 10 })
+    status!: "success" | "failure";
+
+    /** the number of quotes inserted or updated */
+    @Column({ default: 0 })
+    quotes!: number;
+
+    @Column({ type: "text", nullable: true })
+    message!: string | null;
+
+    @Column({ type: "datetime" })
+    startedAt!: Date;
+
+    @Column({ type: "datetime" })
+    finishedAt!: Date;
+}
+
+export { ProviderRun };
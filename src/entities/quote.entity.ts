@@ -12,8 +12,24 @@ class QuoteData {
     @Column({ type: "date" })
     date!: Date;
 
-    @Column({ type: "decimal", precision: 12, scale: 4 })
-    quote!: number;
+    @Column({ type: "decimal", precision: 12, scale: 4, nullable: true })
+    open?: number | null;
+
+    @Column({ type: "decimal", precision: 12, scale: 4, nullable: true })
+    high?: number | null;
+
+    @Column({ type: "decimal", precision: 12, scale: 4, nullable: true })
+    low?: number | null;
+
+    /**
+     * The closing price. The column keeps its original name from the time when only a single quote was stored per
+     * day, so existing data remains valid.
+     */
+    @Column({ name: "quote", type: "decimal", precision: 12, scale: 4 })
+    close!: number;
+
+    @Column({ type: "bigint", nullable: true })
+    volume?: number | null;
 
     @ManyToOne(() => Security, (security) => security.quotes)
     security!: Security;
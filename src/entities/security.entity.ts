@@ -1,7 +1,10 @@
 import { IsString, Length } from "class-validator";
-import { Column, Entity, OneToMany, PrimaryGeneratedColumn, Unique } from "typeorm";
+import { Column, Entity, ManyToOne, OneToMany, OneToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
 
+import { CertificateDetails } from "./certificate.entity";
+import { Dividend } from "./dividend.entity";
 import { QuoteData } from "./quote.entity";
+import { StockSplit } from "./split.entity";
 
 enum SecurityType {
     STOCK = "stock",
@@ -35,8 +38,70 @@ class Security {
     })
     type!: SecurityType;
 
+    /** the ISO 3166-1 alpha-2 code of the issuer's home country */
+    @Column({ type: "varchar", length: 2, nullable: true })
+    country!: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    sector!: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    industry!: string | null;
+
+    /** the ISO 4217 code of the currency the security is denominated in; the quotes use the exchange's currency */
+    @Column({ type: "varchar", length: 3, nullable: true })
+    currency!: string | null;
+
+    @Column({ type: "varchar", length: 6, nullable: true })
+    wkn!: string | null;
+
+    @Column({ type: "varchar", length: 20, nullable: true })
+    ticker!: string | null;
+
+    /** the Financial Instrument Global Identifier */
+    @Column({ type: "varchar", length: 12, nullable: true })
+    figi!: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    issuer!: string | null;
+
+    /** the total expense ratio of funds and ETFs as a fraction, e.g. 0.002 for 0.2% */
+    @Column({
+        type: "decimal",
+        precision: 6,
+        scale: 5,
+        nullable: true,
+        transformer: {
+            to: (ter?: number | null) => ter,
+            from: (ter: string | null) => (ter === null ? null : Number(ter))
+        }
+    })
+    ter!: number | null;
+
+    /** free-form tags like "dividend aristocrat" or "watch"; stored as comma-separated list */
+    @Column({ type: "simple-array", nullable: true })
+    tags!: string[] | null;
+
+    /** marks securities like index ETFs that other securities are compared with */
+    @Column({ default: false })
+    isBenchmark!: boolean;
+
+    /** the benchmark used for the relative performance of this security, unless the request chooses another one */
+    @ManyToOne(() => Security, { nullable: true, onDelete: "SET NULL" })
+    benchmark!: Security | null;
+
     @OneToMany(() => QuoteData, (quote) => quote.security)
     quotes!: QuoteData[];
+
+    @OneToMany(() => StockSplit, (split) => split.security)
+    splits!: StockSplit[];
+
+    @OneToMany(() => Dividend, (dividend) => dividend.security)
+    dividends!: Dividend[];
+
+    /** the terms of certificates; not set for other securities */
+    @OneToOne(() => CertificateDetails, (certificate) => certificate.security)
+    certificate?: CertificateDetails;
 }
 
 export { Security, SecurityType };
@@ -0,0 +1,23 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+
+import { Security } from "./security.entity";
+
+@Entity({ name: "splits" })
+@Unique(["date", "security"])
+class StockSplit {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    /** the first trading day on which the prices reflect the split */
+    @Column({ type: "date" })
+    date!: Date;
+
+    /** the number of new shares per old share, e.g. 2 for a 2:1 split or 0.1 for a 1:10 reverse split */
+    @Column({ type: "decimal", precision: 12, scale: 6 })
+    ratio!: number;
+
+    @ManyToOne(() => Security, (security) => security.splits, { onDelete: "CASCADE" })
+    security!: Security;
+}
+
+export { StockSplit };
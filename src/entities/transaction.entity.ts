@@ -0,0 +1,55 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+
+import { SecuritiesExchange } from "./exchange.entity";
+import { Portfolio } from "./portfolio.entity";
+import { Security } from "./security.entity";
+
+enum TransactionType {
+    BUY = "buy",
+    SELL = "sell",
+    DIVIDEND = "dividend",
+    FEE = "fee"
+}
+
+@Entity({ name: "transactions" })
+class PortfolioTransaction {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({
+        type: "enum",
+        enum: TransactionType
+    })
+    type!: TransactionType;
+
+    @Column({ type: "date" })
+    date!: Date;
+
+    /** the number of shares bought or sold; not set for dividends and fees */
+    @Column({ type: "decimal", precision: 16, scale: 6, nullable: true })
+    quantity?: number | null;
+
+    /** the price per share of a buy or sell; not set for dividends and fees */
+    @Column({ type: "decimal", precision: 12, scale: 4, nullable: true })
+    price?: number | null;
+
+    /** the total cash amount of a dividend or fee; not set for buys and sells */
+    @Column({ type: "decimal", precision: 14, scale: 4, nullable: true })
+    amount?: number | null;
+
+    /** the commissions and taxes paid for a buy or sell */
+    @Column({ type: "decimal", precision: 12, scale: 4, default: 0 })
+    fees!: number;
+
+    @ManyToOne(() => Portfolio, (portfolio) => portfolio.transactions, { onDelete: "CASCADE" })
+    portfolio!: Portfolio;
+
+    /** not set for fees that don't relate to a security, e.g. custody fees */
+    @ManyToOne(() => Security, { nullable: true })
+    security?: Security | null;
+
+    @ManyToOne(() => SecuritiesExchange, { nullable: true })
+    exchange?: SecuritiesExchange | null;
+}
+
+export { PortfolioTransaction, TransactionType };
@@ -0,0 +1,24 @@
+import { IsString } from "class-validator";
+import { Column, Entity, JoinTable, ManyToMany, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+
+import { AlertRule } from "./alert-rule.entity";
+import { Security } from "./security.entity";
+
+@Entity({ name: "watchlists" })
+class Watchlist {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ unique: true })
+    @IsString()
+    name!: string;
+
+    @ManyToMany(() => Security)
+    @JoinTable({ name: "watchlist_securities" })
+    securities!: Security[];
+
+    @OneToMany(() => AlertRule, (rule) => rule.watchlist)
+    rules!: AlertRule[];
+}
+
+export { Watchlist };
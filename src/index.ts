@@ -4,11 +4,28 @@ import config from "config";
 import cors from "cors";
 import express from "express";
 
-import { useContainer, useExpressServer } from "routing-controllers";
+import { Action, useContainer, useExpressServer } from "routing-controllers";
 import { Container } from "typedi";
 import { createConnection } from "typeorm";
 
-import { EvaluationController, ExchangeController, QuoteDataController, SecurityController } from "./controllers";
+import {
+    AuthController,
+    BacktestController,
+    ChangeHistoryController,
+    CorporateActionController,
+    EvaluationController,
+    ExchangeController,
+    FundController,
+    FxRateController,
+    IndicatorController,
+    ListingController,
+    PortfolioController,
+    ProviderController,
+    QuoteDataController,
+    SecurityController,
+    WatchlistController
+} from "./controllers";
+import { AuthService, QuoteIngestionService } from "./services";
 
 const connectionName = config.get("ormconfig.connection") as string;
 createConnection(connectionName)
@@ -18,18 +35,40 @@ createConnection(connectionName)
         const app = express();
         app.use(cors());
         app.use(express.json());
+        app.use(Container.get(AuthService).auditWrites());
 
         useExpressServer(app, {
             routePrefix: "/api",
             classTransformer: true,
             validation: true,
-            controllers: [EvaluationController, ExchangeController, QuoteDataController, SecurityController]
+            authorizationChecker: (action: Action, roles: string[]) =>
+                Container.get(AuthService).authorize(action.request, roles),
+            currentUserChecker: (action: Action) => Container.get(AuthService).getPrincipal(action.request),
+            controllers: [
+                AuthController,
+                BacktestController,
+                ChangeHistoryController,
+                CorporateActionController,
+                EvaluationController,
+                ExchangeController,
+                FundController,
+                FxRateController,
+                IndicatorController,
+                ListingController,
+                PortfolioController,
+                ProviderController,
+                QuoteDataController,
+                SecurityController,
+                WatchlistController
+            ]
         });
 
         const port = config.get("express.port") as number;
         app.listen(port, "0.0.0.0", () => {
             console.log(`Server listening on port ${port}`);
         });
+
+        Container.get(QuoteIngestionService).start();
     })
     .catch((error) => {
         console.log(error);
@@ -0,0 +1,75 @@
+/*
+ * A local stand-in for a quote data vendor, to test the HTTP quote provider without network access. It answers
+ * `GET /quotes?isin=...&exchange=...&since=YYYY-MM-DD` with made-up but reproducible daily quotes of the weekdays of
+ * the last year after the since date, up to yesterday.
+ *
+ * Configure the provider with `{ "type": "http", "url": "http://localhost:3001/quotes" }`.
+ */
+import config from "config";
+import express from "express";
+import { StatusCodes } from "http-status-codes";
+import moment from "moment";
+
+const port: number = config.has("mockProvider.port") ? config.get("mockProvider.port") : 3001;
+
+/**
+ * Creates a pseudo-random number generator, so the same listing always gets the same prices.
+ */
+function createRandom(seed: string): () => number {
+    let state = [...seed].reduce((hash, c) => (hash * 31 + c.charCodeAt(0)) >>> 0, 17);
+    return () => {
+        // xorshift32
+        state ^= state << 13;
+        state ^= state >>> 17;
+        state ^= state << 5;
+        return (state >>> 0) / 4294967296;
+    };
+}
+
+const app = express();
+
+app.get("/quotes", (request, response) => {
+    const isin = request.query.isin;
+    const exchange = request.query.exchange;
+    if (typeof isin !== "string" || typeof exchange !== "string") {
+        return response.status(StatusCodes.BAD_REQUEST).send({ message: "isin and exchange are required" });
+    }
+    const since = typeof request.query.since === "string" ? moment(request.query.since, "YYYY-MM-DD", true) : null;
+    if (since && !since.isValid()) {
+        return response.status(StatusCodes.BAD_REQUEST).send({ message: "since must be a date" });
+    }
+
+    // the prices always start one year ago, so the quotes after the since date are the same on every request
+    const random = createRandom(`${isin}@${exchange}`);
+    const yesterday = moment().startOf("day").subtract(1, "day");
+    const date = yesterday.clone().subtract(1, "year");
+    let close = 20 + random() * 180;
+    const quotes = [];
+
+    for (; !date.isAfter(yesterday); date.add(1, "day")) {
+        if (date.isoWeekday() > 5) {
+            continue;
+        }
+        const open = close;
+        close = open * (1 + (random() - 0.5) * 0.04);
+        const high = Math.max(open, close) * (1 + random() * 0.01);
+        const low = Math.min(open, close) * (1 - random() * 0.01);
+        const volume = Math.round(1000 + random() * 100000);
+        if (!since || date.isAfter(since, "day")) {
+            quotes.push({
+                date: date.format("YYYY-MM-DD"),
+                open: Number(open.toFixed(2)),
+                high: Number(high.toFixed(2)),
+                low: Number(low.toFixed(2)),
+                close: Number(close.toFixed(2)),
+                volume: volume
+            });
+        }
+    }
+
+    return response.status(StatusCodes.OK).send(quotes);
+});
+
+app.listen(port, "127.0.0.1", () => {
+    console.log(`Mock quote server listening on port ${port}`);
+});
@@ -0,0 +1,76 @@
+import http from "http";
+import https from "https";
+import { URL } from "url";
+
+import { AlertDTO } from "../dtos";
+
+/** Sends raised alerts somewhere. New notifiers only need to implement this and be registered in `createNotifier`. */
+interface AlertNotifier {
+    notify(alert: AlertDTO): Promise<void>;
+}
+
+type NotifierConfig = {
+    type: string;
+    /** webhook: the URL to post the alerts to */
+    url?: string;
+    /** webhook: the seconds to wait for a response; 10 if not set */
+    timeout?: number;
+};
+
+const DEFAULT_TIMEOUT_SECONDS = 10;
+
+class LogNotifier implements AlertNotifier {
+    async notify(alert: AlertDTO): Promise<void> {
+        console.log(`Alert for ${alert.isin}@${alert.exchange} (${alert.watchlist}): ${alert.message}`);
+    }
+}
+
+/** Posts each alert as JSON to the configured URL. */
+class WebhookNotifier implements AlertNotifier {
+    constructor(private url: string, private timeout = DEFAULT_TIMEOUT_SECONDS) {}
+
+    async notify(alert: AlertDTO): Promise<void> {
+        const body = JSON.stringify(alert);
+        const target = new URL(this.url);
+        const request = target.protocol === "https:" ? https.request : http.request;
+
+        return new Promise((resolve, reject) => {
+            const req = request(
+                target,
+                {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) }
+                },
+                (res) => {
+                    res.resume();
+                    if (res.statusCode && res.statusCode >= 400) {
+                        reject(new Error(`Webhook ${this.url} responded with status ${res.statusCode}`));
+                    } else {
+                        resolve();
+                    }
+                }
+            );
+            req.setTimeout(this.timeout * 1000, () =>
+                req.destroy(new Error(`Webhook ${this.url} didn't respond within ${this.timeout} seconds`))
+            );
+            req.on("error", reject);
+            req.end(body);
+        });
+    }
+}
+
+function createNotifier(conf: NotifierConfig): AlertNotifier {
+    switch (conf.type) {
+        case "log":
+            return new LogNotifier();
+        case "webhook":
+            if (!conf.url) {
+                throw new Error("The webhook notifier needs a URL");
+            }
+            return new WebhookNotifier(conf.url, conf.timeout);
+        default:
+            throw new Error(`Unknown alert notifier: ${conf.type}`);
+    }
+}
+
+export { AlertNotifier, createNotifier, LogNotifier, NotifierConfig, WebhookNotifier };
@@ -0,0 +1,268 @@
+import config from "config";
+import moment from "moment";
+import { Service } from "typedi";
+import { getRepository, Repository } from "typeorm";
+
+import { AlertDTO } from "../dtos";
+import { Alert, AlertDirection, AlertRule, AlertRuleType, AlertState, SecuritiesExchange } from "../entities";
+import { AlertNotifier, createNotifier, NotifierConfig } from "./alert-notifiers";
+import { ExchangeService } from "./exchange-service";
+import { PerformanceEvaluationService } from "./performance-evaluation.service";
+import { QuoteDataService } from "./quote-service";
+import { RSLevyAlgorithm, RSLevyService } from "./rsleval.service";
+
+/** a value observed for a listing, to be compared with a rule's threshold */
+type Observation = {
+    isin: string;
+    exchange: string;
+    date: Date;
+    value: number;
+};
+
+@Service()
+class AlertService {
+    private ruleRepository: Repository<AlertRule>;
+    private stateRepository: Repository<AlertState>;
+    private alertRepository: Repository<Alert>;
+    private notifiers: AlertNotifier[];
+    /** the end of the latest evaluation started; evaluations run one after another */
+    private queue: Promise<unknown> = Promise.resolve();
+    /** the ISINs of the scheduled evaluation that hasn't started yet; null for all, undefined if none is scheduled */
+    private pending: Set<string> | null | undefined;
+
+    constructor(
+        private quoteService: QuoteDataService,
+        private exchangeService: ExchangeService,
+        private perfService: PerformanceEvaluationService,
+        private rslService: RSLevyService
+    ) {
+        const connection: string = config.get("ormconfig.connection");
+        this.ruleRepository = getRepository<AlertRule>(AlertRule, connection);
+        this.stateRepository = getRepository<AlertState>(AlertState, connection);
+        this.alertRepository = getRepository<Alert>(Alert, connection);
+
+        const notifierConfig: NotifierConfig[] = config.has("alerts.notifiers") ? config.get("alerts.notifiers") : [];
+        this.notifiers = notifierConfig.map((conf) => createNotifier(conf));
+    }
+
+    /**
+     * Evaluates the active alert rules and raises an alert for each listing whose value crossed a rule's threshold since
+     * the previous evaluation. A listing that is already beyond the threshold when first evaluated raises an alert as
+     * well.
+     *
+     * Evaluations run one after another, so this waits for the ones started before.
+     *
+     * @param isins restricts the evaluation to these securities; all securities on watchlists are evaluated otherwise
+     * @returns the newly raised alerts
+     */
+    async evaluate(isins?: string[]): Promise<AlertDTO[]> {
+        return this.enqueue(() => this.run(isins)).then((alerts) => this.notify(alerts));
+    }
+
+    /**
+     * Evaluates the alert rules in the background after new quotes arrived. Requests made while an evaluation is
+     * waiting to start are merged into it.
+     *
+     * @param isins the securities with new quotes; all securities if not set
+     */
+    schedule(isins?: string[]): void {
+        const scheduled = this.pending !== undefined;
+        this.pending = !isins || this.pending === null ? null : new Set([...(this.pending ?? []), ...isins]);
+        if (scheduled) {
+            return;
+        }
+
+        this.enqueue(() => {
+            const pending = this.pending;
+            this.pending = undefined;
+            return this.run(pending ? [...pending] : undefined);
+        })
+            .then((alerts) => this.notify(alerts))
+            .catch((error) => console.log(error));
+    }
+
+    /**
+     * Returns the alert history, newest first.
+     *
+     * @param watchlistID restricts the history to the rules of a single watchlist
+     * @param since restricts the history to alerts raised on or after this date
+     * @returns the alerts
+     */
+    async getHistory(watchlistID?: number, since?: string): Promise<AlertDTO[]> {
+        const query = this.alertRepository
+            .createQueryBuilder("a")
+            .innerJoinAndSelect("a.rule", "r")
+            .innerJoinAndSelect("r.watchlist", "w")
+            .orderBy("a.createdAt", "DESC");
+
+        if (watchlistID) {
+            query.andWhere("w.id = :wid", { wid: watchlistID });
+        }
+        if (since) {
+            query.andWhere("a.createdAt >= :since", { since: moment(since).toDate() });
+        }
+
+        return query.getMany().then((alerts) => alerts.map((a) => this.toDTO(a)));
+    }
+
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async run(isins?: string[]): Promise<AlertDTO[]> {
+        const rules: AlertRule[] = await this.ruleRepository.find({
+            where: { active: true },
+            relations: ["watchlist", "watchlist.securities"]
+        });
+
+        // the evaluations compute the values of all listings at once, so they are computed once per parameter set
+        const cache = new Map<string, Promise<Observation[]>>();
+        const raised: AlertDTO[] = [];
+
+        for (const rule of rules) {
+            const relevant = new Set(
+                rule.watchlist.securities.map((s) => s.isin).filter((isin) => !isins || isins.includes(isin))
+            );
+            if (relevant.size === 0) {
+                continue;
+            }
+
+            const key = `${rule.type}:${JSON.stringify(rule.interval)}:${rule.algorithm}`;
+            let observations = cache.get(key);
+            if (!observations) {
+                observations = this.observe(rule);
+                cache.set(key, observations);
+            }
+
+            for (const observation of (await observations).filter((o) => relevant.has(o.isin))) {
+                const alert = await this.check(rule, observation);
+                if (alert) {
+                    raised.push(alert);
+                }
+            }
+        }
+
+        return raised;
+    }
+
+    /** Sends the raised alerts to the notifiers in the background, so a slow notifier doesn't hold up the evaluations. */
+    private notify(alerts: AlertDTO[]): AlertDTO[] {
+        for (const alert of alerts) {
+            for (const notifier of this.notifiers) {
+                notifier.notify(alert).catch((error) => console.log(error));
+            }
+        }
+        return alerts;
+    }
+
+    /**
+     * Compares the observation with the rule's threshold and the previous state, and stores the new state.
+     *
+     * @returns the newly raised alert, if any
+     */
+    private async check(rule: AlertRule, observation: Observation): Promise<AlertDTO | undefined> {
+        const threshold = Number(rule.threshold);
+        const triggered =
+            rule.direction === AlertDirection.ABOVE ? observation.value > threshold : observation.value < threshold;
+
+        await this.stateRepository
+            .createQueryBuilder()
+            .insert()
+            .into(AlertState)
+            .values({
+                rule: rule,
+                isin: observation.isin,
+                exchange: observation.exchange,
+                value: observation.value,
+                triggered: false
+            })
+            .orUpdate({ conflict_target: ["rule", "isin", "exchange"], overwrite: ["value"] })
+            .execute();
+        // only the update that actually flips the state raises an alert
+        const result = await this.stateRepository
+            .createQueryBuilder()
+            .update(AlertState)
+            .set({ triggered: triggered })
+            .where("ruleId = :rule AND isin = :isin AND exchange = :exchange AND triggered = :previous", {
+                rule: rule.id,
+                isin: observation.isin,
+                exchange: observation.exchange,
+                previous: !triggered
+            })
+            .execute();
+
+        if (!triggered || !result.affected) {
+            return undefined;
+        }
+
+        const alert = new Alert();
+        alert.rule = rule;
+        alert.isin = observation.isin;
+        alert.exchange = observation.exchange;
+        alert.date = observation.date;
+        alert.value = observation.value;
+        alert.message = `${rule.type}${rule.type === AlertRuleType.RSL ? ` (${rule.algorithm})` : ""} ${
+            rule.direction
+        } ${threshold}: ${observation.value.toFixed(4)} on ${moment(observation.date).format("YYYY-MM-DD")}`;
+
+        return this.toDTO(await this.alertRepository.save(alert));
+    }
+
+    private async observe(rule: AlertRule): Promise<Observation[]> {
+        switch (rule.type) {
+            case AlertRuleType.PRICE: {
+                const exchanges = new Map<number, SecuritiesExchange>(
+                    (await this.exchangeService.getAll()).map((e) => [e.id, e])
+                );
+                const isins = new Map<number, string>(rule.watchlist.securities.map((s) => [s.id, s.isin]));
+                return (await this.quoteService.getNewestQuotes())
+                    .filter((q) => isins.has(q.securityID))
+                    .map((q) => ({
+                        isin: isins.get(q.securityID) ?? "",
+                        exchange: exchanges.get(q.exchangeID)?.name ?? "",
+                        date: q.date,
+                        value: q.close
+                    }));
+            }
+
+            case AlertRuleType.PERFORMANCE:
+                if (!rule.interval) {
+                    return [];
+                }
+                return (await this.perfService.getPerformanceData(rule.interval)).map((p) => ({
+                    isin: p.securityISIN,
+                    exchange: p.exchangeName,
+                    date: p.newestDate,
+                    value: p.performance
+                }));
+
+            case AlertRuleType.RSL: {
+                const algorithm = rule.algorithm === "daily" ? RSLevyAlgorithm.DAILY : RSLevyAlgorithm.WEEKLY;
+                return (await this.rslService.getRSLevyData(algorithm)).map((r) => ({
+                    isin: r.securityISIN,
+                    exchange: r.exchangeName,
+                    date: r.newestWeeklyClose,
+                    value: r.rslValue
+                }));
+            }
+        }
+    }
+
+    private toDTO(alert: Alert): AlertDTO {
+        return {
+            id: alert.id,
+            ruleID: alert.rule.id,
+            watchlist: alert.rule.watchlist.name,
+            isin: alert.isin,
+            exchange: alert.exchange,
+            date: moment(alert.date).format("YYYY-MM-DD"),
+            value: Number(alert.value),
+            message: alert.message,
+            createdAt: alert.createdAt
+        };
+    }
+}
+
+export { AlertService };
@@ -0,0 +1,285 @@
+import config from "config";
+import crypto from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import moment from "moment";
+import { UnauthorizedError } from "routing-controllers";
+import { Service } from "typedi";
+import { getRepository, IsNull, Repository } from "typeorm";
+
+import { ApiKeyDTO, CreateApiKeyRequest, CreatedApiKeyDTO } from "../dtos";
+import { ApiKey, ApiRole, AuditEntry } from "../entities";
+
+/** the caller of a request */
+type ApiPrincipal = {
+    /** the name of the API key, "admin" for the configured admin key, or "anonymous" */
+    name: string;
+    role: ApiRole;
+};
+
+type AuditTrailFilter = {
+    caller?: string;
+    method?: string;
+    isin?: string;
+    since?: string;
+    limit?: number;
+};
+
+/** the order of the roles; a role includes the rights of all lower ones */
+const ROLE_RANKS: Record<ApiRole, number> = {
+    [ApiRole.READER]: 0,
+    [ApiRole.WRITER]: 1,
+    [ApiRole.ADMIN]: 2
+};
+
+/** the caller names used for the configured admin key and for requests without a key */
+const RESERVED_NAMES = new Set(["admin", "anonymous"]);
+
+/** the requests that don't change data and therefore aren't audited */
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/** the POST routes that only compute results and therefore aren't audited either */
+const READ_ONLY_ROUTES = new Set(["/api/backtests/rsl-momentum"]);
+
+/** how often the last use of a key is written at most, so that not every request writes to the database */
+const LAST_USED_INTERVAL_SECONDS = 60;
+
+@Service()
+class AuthService {
+    private keyRepository: Repository<ApiKey>;
+    private auditRepository: Repository<AuditEntry>;
+    /** the callers of the requests being handled, so each key is looked up only once per request */
+    private principals = new WeakMap<Request, ApiPrincipal | null>();
+
+    constructor() {
+        const connection: string = config.get("ormconfig.connection");
+        this.keyRepository = getRepository<ApiKey>(ApiKey, connection);
+        this.auditRepository = getRepository<AuditEntry>(AuditEntry, connection);
+    }
+
+    /**
+     * The routing-controllers authorization check: the caller needs at least the lowest of the given roles, or the
+     * reader role if none are given. Always succeeds if authentication is disabled.
+     *
+     * @param request the request
+     * @param roles the roles from the `@Authorized` decorators of the controller and the action
+     * @returns whether the caller may use the route
+     * @throws UnauthorizedError if the request has no valid API key and anonymous access isn't allowed
+     */
+    async authorize(request: Request, roles: string[]): Promise<boolean> {
+        if (!this.isEnabled()) {
+            return true;
+        }
+
+        const principal = await this.getPrincipal(request);
+        if (!principal) {
+            throw new UnauthorizedError("A valid API key is required");
+        }
+
+        const ranks = roles.map((role) => {
+            if (!(role in ROLE_RANKS)) {
+                throw new Error(`Unknown role: ${role}`);
+            }
+            return ROLE_RANKS[role as ApiRole];
+        });
+        return ROLE_RANKS[principal.role] >= (ranks.length > 0 ? Math.min(...ranks) : ROLE_RANKS[ApiRole.READER]);
+    }
+
+    /**
+     * Identifies the caller of a request by the key in the `X-API-Key` header or in the `Authorization` header as
+     * bearer token. Requests without a key get the configured anonymous role, the reader role if none is configured.
+     *
+     * @param request the request
+     * @returns the caller, or undefined for requests without a key if anonymous access isn't allowed
+     * @throws UnauthorizedError if the key is unknown or revoked
+     */
+    async getPrincipal(request: Request): Promise<ApiPrincipal | undefined> {
+        if (this.principals.has(request)) {
+            return this.principals.get(request) ?? undefined;
+        }
+
+        const key = this.getKey(request);
+        let principal: ApiPrincipal | null = null;
+        if (key) {
+            const known = await this.lookup(key);
+            if (!known) {
+                throw new UnauthorizedError("Invalid API key");
+            }
+            principal = known;
+        } else {
+            // requests without a key may read by default, as they could before keys were introduced
+            const anonymousRole: ApiRole | null = config.has("auth.anonymousRole")
+                ? config.get("auth.anonymousRole")
+                : ApiRole.READER;
+            principal = anonymousRole ? { name: "anonymous", role: anonymousRole } : null;
+        }
+
+        this.principals.set(request, principal);
+        return principal ?? undefined;
+    }
+
+    async getKeys(): Promise<ApiKeyDTO[]> {
+        const keys = await this.keyRepository.find({ order: { name: "ASC" } });
+        return keys.map((k) => this.toDTO(k));
+    }
+
+    /**
+     * Creates a random API key.
+     *
+     * @param data the name and role of the key
+     * @returns the key's data including the key itself, which can't be retrieved again
+     */
+    async createKey(data: CreateApiKeyRequest): Promise<CreatedApiKeyDTO> {
+        if (RESERVED_NAMES.has(data.name)) {
+            throw new Error(`The name ${data.name} is reserved`);
+        }
+        if (await this.keyRepository.findOne({ name: data.name })) {
+            throw new Error(`An API key named ${data.name} already exists`);
+        }
+
+        const key = crypto.randomBytes(24).toString("hex");
+        const entry = new ApiKey();
+        entry.name = data.name;
+        entry.prefix = key.slice(0, 8);
+        entry.keyHash = this.hash(key);
+        entry.role = data.role;
+        entry.lastUsedAt = null;
+        entry.revokedAt = null;
+        return { ...this.toDTO(await this.keyRepository.save(entry)), key: key };
+    }
+
+    /**
+     * Revokes an API key. The key stays in the list, so the audit trail keeps referring to a known caller.
+     *
+     * @param id the key's ID
+     */
+    async revokeKey(id: number): Promise<void> {
+        const entry = await this.keyRepository.findOne({ id: id, revokedAt: IsNull() });
+        if (!entry) {
+            throw new Error(`No active API key with ID ${id}`);
+        }
+        entry.revokedAt = new Date();
+        await this.keyRepository.save(entry);
+    }
+
+    /**
+     * Creates an Express middleware that adds every request changing data to the audit trail once it is answered,
+     * including the rejected ones and those whose client disconnected before the answer.
+     */
+    auditWrites(): RequestHandler {
+        return (request: Request, response: Response, next: NextFunction) => {
+            if (!READ_METHODS.has(request.method) && !READ_ONLY_ROUTES.has(request.path)) {
+                let recorded = false;
+                const record = () => {
+                    // a finished response is closed as well
+                    if (recorded) {
+                        return;
+                    }
+                    recorded = true;
+                    this.record(request, response.statusCode).catch((error) =>
+                        console.log(`No audit entry for ${request.method} ${request.originalUrl}:`, error)
+                    );
+                };
+                response.on("finish", record);
+                response.on("close", record);
+            }
+            next();
+        };
+    }
+
+    async getAuditTrail(filter: AuditTrailFilter = {}): Promise<AuditEntry[]> {
+        const query = this.auditRepository
+            .createQueryBuilder("e")
+            .orderBy("e.createdAt", "DESC")
+            .addOrderBy("e.id", "DESC")
+            .limit(filter.limit ?? 100);
+
+        if (filter.caller) {
+            query.andWhere("e.caller = :caller", { caller: filter.caller });
+        }
+        if (filter.method) {
+            query.andWhere("e.method = :method", { method: filter.method.toUpperCase() });
+        }
+        if (filter.isin) {
+            query.andWhere("FIND_IN_SET(:isin, e.isins) > 0", { isin: filter.isin });
+        }
+        if (filter.since) {
+            query.andWhere("e.createdAt >= :since", { since: moment(filter.since).toDate() });
+        }
+
+        return query.getMany();
+    }
+
+    private isEnabled(): boolean {
+        return config.has("auth.enabled") ? config.get("auth.enabled") : true;
+    }
+
+    private getKey(request: Request): string | undefined {
+        const header = request.header("X-API-Key");
+        if (header) {
+            return header;
+        }
+        const match = /^Bearer\s+(\S+)$/i.exec(request.header("Authorization") ?? "");
+        return match ? match[1] : undefined;
+    }
+
+    private async lookup(key: string): Promise<ApiPrincipal | undefined> {
+        const hash = this.hash(key);
+
+        // the configured admin key allows creating the first keys
+        const adminKey: string | null = config.has("auth.adminKey") ? config.get("auth.adminKey") : null;
+        if (adminKey && crypto.timingSafeEqual(Buffer.from(hash), Buffer.from(this.hash(adminKey)))) {
+            return { name: "admin", role: ApiRole.ADMIN };
+        }
+
+        const entry = await this.keyRepository.findOne({ keyHash: hash, revokedAt: IsNull() });
+        if (!entry) {
+            return undefined;
+        }
+        if (!entry.lastUsedAt || moment().diff(entry.lastUsedAt, "seconds") >= LAST_USED_INTERVAL_SECONDS) {
+            await this.keyRepository.update(entry.id, { lastUsedAt: new Date() });
+        }
+        return { name: entry.name, role: entry.role };
+    }
+
+    private async record(request: Request, statusCode: number): Promise<void> {
+        // with authentication disabled, the caller is only identified here
+        const principal = this.principals.has(request)
+            ? this.principals.get(request)
+            : await this.getPrincipal(request).catch(() => undefined);
+        const items: unknown[] = Array.isArray(request.body) ? request.body : [request.body];
+        const isins = new Set<string>();
+        for (const item of items) {
+            const isin = item && typeof item === "object" ? (item as { isin?: unknown }).isin : undefined;
+            if (typeof isin === "string") {
+                isins.add(isin);
+            }
+        }
+
+        const entry = new AuditEntry();
+        entry.caller = principal?.name ?? null;
+        entry.role = principal?.role ?? null;
+        entry.method = request.method;
+        entry.path = request.originalUrl.slice(0, 500);
+        entry.isins = isins.size > 0 ? [...isins] : null;
+        entry.statusCode = statusCode;
+        await this.auditRepository.save(entry);
+    }
+
+    private hash(key: string): string {
+        return crypto.createHash("sha256").update(key).digest("hex");
+    }
+
+    private toDTO(key: ApiKey): ApiKeyDTO {
+        return {
+            id: key.id,
+            name: key.name,
+            prefix: key.prefix,
+            role: key.role,
+            createdAt: key.createdAt,
+            lastUsedAt: key.lastUsedAt,
+            revokedAt: key.revokedAt
+        };
+    }
+}
+
+export { ApiPrincipal, AuditTrailFilter, AuthService };
@@ -0,0 +1,251 @@
+import moment from "moment";
+import { Service } from "typedi";
+
+import {
+    BacktestResultDTO,
+    BacktestTradeDTO,
+    EquityPointDTO,
+    PriceAdjustmentOptions,
+    RSLBacktestRequest
+} from "../dtos";
+import { annualize, DAY_MS, maxDrawdown, PriceAdjustments, sharpeRatio, simpleReturns } from "../utils";
+import { CorporateActionService } from "./corporate-action-service";
+import { ClosingPrice, ListingInfo, QuoteDataService } from "./quote-service";
+import { RSLevyAlgorithm, RSLevyRankingData, RSLevyService } from "./rsleval.service";
+
+type Position = {
+    listing: ListingInfo;
+    shares: number;
+};
+
+/** the closing prices of a listing, ordered by date */
+type PriceHistory = {
+    dates: number[];
+    closes: number[];
+};
+
+@Service()
+class BacktestService {
+    constructor(
+        private rslService: RSLevyService,
+        private quoteService: QuoteDataService,
+        private corporateActionService: CorporateActionService
+    ) {}
+
+    /**
+     * Simulates an RSL momentum strategy. The rankings are computed with `RSLevyService.getRSLevyRanking` as of each
+     * rebalance date, i.e. only with the quotes known at that date, and the resulting trades are executed at the next
+     * close. Prices and share counts are split-adjusted, so splits don't show up as trades or losses.
+     *
+     * @param request the strategy parameters
+     * @returns the equity curve, the trades, and the performance statistics
+     */
+    async runRSLMomentum(request: RSLBacktestRequest): Promise<BacktestResultDTO> {
+        const start = moment(request.startDate).startOf("day");
+        const end = request.endDate ? moment(request.endDate).startOf("day") : moment().startOf("day");
+        if (!end.isAfter(start)) {
+            throw new RangeError("The end date must be after the start date");
+        }
+
+        const algorithm = request.algorithm === "daily" ? RSLevyAlgorithm.DAILY : RSLevyAlgorithm.WEEKLY;
+        const buyThreshold = request.buyThreshold ?? 1.05;
+        const sellThreshold = request.sellThreshold ?? 1.0;
+        const initialCapital = request.initialCapital ?? 10000;
+        const costRate = request.costRate ?? 0;
+        const fixedCosts = request.fixedCosts ?? 0;
+        const adjustment: PriceAdjustmentOptions = { adjusted: true, dividends: request.dividends ?? false };
+
+        const listings = (await this.quoteService.getListings()).filter(
+            (l) => !request.isins || request.isins.includes(l.isin)
+        );
+        const histories = await this.getPriceHistories(listings, start.toDate(), end.toDate(), adjustment);
+        const tradingDays = [...new Set([...histories.values()].flatMap((h) => h.dates))].sort((a, b) => a - b);
+        if (tradingDays.length === 0) {
+            throw new Error("There are no quotes in the backtest period");
+        }
+
+        let cash = initialCapital;
+        const positions = new Map<string, Position>();
+        const trades: BacktestTradeDTO[] = [];
+        const equityCurve: EquityPointDTO[] = [];
+
+        const trade = (
+            listing: ListingInfo,
+            type: "buy" | "sell",
+            shares: number,
+            date: number,
+            rsl: number | null
+        ) => {
+            const price = this.getPrice(histories.get(this.getKey(listing)), date) ?? 0;
+            const costs = shares * price * costRate + fixedCosts;
+            cash += type === "buy" ? -(shares * price + costs) : shares * price - costs;
+            trades.push({
+                date: new Date(date),
+                isin: listing.isin,
+                exchange: listing.exchangeName,
+                type: type,
+                quantity: shares,
+                price: price,
+                rslValue: rsl,
+                costs: costs
+            });
+        };
+
+        const rebalanceDates = this.getRebalanceDates(start, end, request.rebalance ?? "weekly");
+        let nextRebalance = 0;
+
+        for (const day of tradingDays) {
+            // a rebalance decided on a date is executed at the first close after it
+            while (nextRebalance < rebalanceDates.length && rebalanceDates[nextRebalance].valueOf() < day) {
+                const decisionDate = rebalanceDates[nextRebalance++];
+                if (nextRebalance < rebalanceDates.length && rebalanceDates[nextRebalance].valueOf() < day) {
+                    // several rebalance dates without a trading day in between; only the newest one counts
+                    continue;
+                }
+
+                const ranking = (
+                    await this.rslService.getRSLevyRanking(algorithm, decisionDate, adjustment, request.period)
+                ).filter((r) => listings.some((l) => this.matches(l, r)));
+                const rslByKey = new Map<string, RSLevyRankingData>(
+                    ranking.map((r) => [`${r.securityISIN}@${r.exchangeName}`, r])
+                );
+
+                for (const [key, position] of positions) {
+                    const rsl = rslByKey.get(`${position.listing.isin}@${position.listing.exchangeName}`);
+                    const price = this.getPrice(histories.get(key), day);
+                    if ((!rsl || rsl.rslValue < sellThreshold) && price !== null) {
+                        trade(position.listing, "sell", position.shares, day, rsl?.rslValue ?? null);
+                        positions.delete(key);
+                    }
+                }
+
+                const candidates = ranking
+                    .filter((r) => r.rslValue >= buyThreshold)
+                    .map((r) => ({ rsl: r, listing: listings.find((l) => this.matches(l, r)) }))
+                    .filter((c) => c.listing && !positions.has(this.getKey(c.listing)));
+
+                for (const candidate of candidates) {
+                    const listing = candidate.listing;
+                    const freeSlots = request.topN - positions.size;
+                    if (!listing || freeSlots <= 0) {
+                        break;
+                    }
+                    const price = this.getPrice(histories.get(this.getKey(listing)), day);
+                    // the cash is split equally between the free slots
+                    const budget = cash / freeSlots - fixedCosts;
+                    if (!price || budget <= 0) {
+                        continue;
+                    }
+                    const shares = budget / (price * (1 + costRate));
+                    trade(listing, "buy", shares, day, candidate.rsl.rslValue);
+                    positions.set(this.getKey(listing), { listing: listing, shares: shares });
+                }
+            }
+
+            const invested = [...positions.entries()].reduce(
+                (sum, [key, p]) => sum + p.shares * (this.getPrice(histories.get(key), day) ?? 0),
+                0.0
+            );
+            equityCurve.push({ date: new Date(day), value: cash + invested, cash: cash, positions: positions.size });
+        }
+
+        const values = equityCurve.map((e) => e.value);
+        const finalValue = values[values.length - 1];
+        const days = (tradingDays[tradingDays.length - 1] - tradingDays[0]) / DAY_MS;
+        const averageEquity = values.reduce((a, b) => a + b, 0.0) / values.length;
+        const tradedValue = trades.reduce((sum, t) => sum + t.quantity * t.price, 0.0);
+
+        return {
+            startDate: new Date(tradingDays[0]),
+            endDate: new Date(tradingDays[tradingDays.length - 1]),
+            initialCapital: initialCapital,
+            finalValue: finalValue,
+            totalReturn: finalValue / initialCapital - 1,
+            cagr: annualize(finalValue / initialCapital - 1, days),
+            maxDrawdown: maxDrawdown(values),
+            sharpeRatio: sharpeRatio(simpleReturns(values), 252, request.riskFreeRate ?? 0),
+            turnover: days > 0 && averageEquity > 0 ? tradedValue / 2 / averageEquity / (days / 365.25) : 0,
+            totalCosts: trades.reduce((sum, t) => sum + t.costs, 0.0),
+            trades: trades,
+            equityCurve: equityCurve
+        };
+    }
+
+    /**
+     * Loads the adjusted closes of all listings within the period.
+     */
+    private async getPriceHistories(
+        listings: ListingInfo[],
+        start: Date,
+        end: Date,
+        adjustment: PriceAdjustmentOptions
+    ): Promise<Map<string, PriceHistory>> {
+        const adjustments: PriceAdjustments = await this.corporateActionService.getPriceAdjustments(adjustment);
+        const closes: ClosingPrice[] = await this.quoteService.getCloses(listings, start, end);
+
+        const histories = new Map<string, PriceHistory>();
+        for (const c of closes) {
+            const key = `${c.securityID}@${c.exchangeID}`;
+            let history = histories.get(key);
+            if (!history) {
+                history = { dates: [], closes: [] };
+                histories.set(key, history);
+            }
+            history.dates.push(c.date.valueOf());
+            history.closes.push(c.close * adjustments.getFactor(c.securityID, c.exchangeID, c.date));
+        }
+        return histories;
+    }
+
+    /**
+     * Returns the newest close on or before the date, or null if there's none.
+     */
+    private getPrice(history: PriceHistory | undefined, date: number): number | null {
+        if (!history) {
+            return null;
+        }
+        let low = 0;
+        let high = history.dates.length - 1;
+        let result = -1;
+        while (low <= high) {
+            const mid = Math.floor((low + high) / 2);
+            if (history.dates[mid] <= date) {
+                result = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return result < 0 ? null : history.closes[result];
+    }
+
+    /**
+     * Lists the rebalance dates within the period: each Friday, or the last day of each month.
+     */
+    private getRebalanceDates(start: moment.Moment, end: moment.Moment, schedule: "weekly" | "monthly"): Date[] {
+        const dates: Date[] = [];
+        const date = schedule === "monthly" ? start.clone().endOf("month").startOf("day") : start.clone().isoWeekday(5);
+        if (date.isBefore(start)) {
+            date.add(1, "week");
+        }
+        while (!date.isAfter(end)) {
+            dates.push(date.toDate());
+            if (schedule === "monthly") {
+                date.add(1, "day").endOf("month").startOf("day");
+            } else {
+                date.add(1, "week");
+            }
+        }
+        return dates;
+    }
+
+    private getKey(listing: ListingInfo): string {
+        return `${listing.securityID}@${listing.exchangeID}`;
+    }
+
+    private matches(listing: ListingInfo, ranking: RSLevyRankingData): boolean {
+        return listing.isin === ranking.securityISIN && listing.exchangeName === ranking.exchangeName;
+    }
+}
+
+export { BacktestService };
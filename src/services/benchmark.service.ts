@@ -0,0 +1,230 @@
+import moment from "moment";
+import { Service } from "typedi";
+
+import { PriceAdjustmentOptions } from "../dtos";
+import { Security } from "../entities";
+import { beta, correlation, simpleReturns } from "../utils";
+import { ListingService } from "./listing.service";
+import { ClosingPrice, ListingInfo, QuoteDataService } from "./quote-service";
+import { SecuritiesService } from "./security-service";
+
+/** a listing's performance between two dates, to be compared with its benchmark */
+type PerformanceWindow = {
+    listing: ListingInfo;
+    baseDate: Date;
+    newestDate: Date;
+    performance: number;
+};
+
+type RelativePerformanceData = {
+    benchmarkISIN: string | null;
+    /** the benchmark's performance between the same dates */
+    benchmarkPerformance: number | null;
+    /** the performance minus the benchmark's performance */
+    excessReturn: number | null;
+    /** based on the daily returns on the dates both have quotes */
+    beta: number | null;
+    correlation: number | null;
+    /** the ratio of the growth factors; above 1 if the security outperformed the benchmark */
+    relativeStrength: number | null;
+};
+
+/** one point of a comparison chart with one value per security, all starting at 100 */
+type ComparisonPoint = {
+    date: Date;
+    [security: string]: Date | number | null;
+};
+
+/** how far before the base date the benchmark's base price is looked for, to cover holidays and missing quotes */
+const BASE_DATE_MARGIN_DAYS = 30;
+
+const NO_BENCHMARK: RelativePerformanceData = {
+    benchmarkISIN: null,
+    benchmarkPerformance: null,
+    excessReturn: null,
+    beta: null,
+    correlation: null,
+    relativeStrength: null
+};
+
+@Service()
+class BenchmarkService {
+    constructor(
+        private quoteService: QuoteDataService,
+        private securityService: SecuritiesService,
+        private listingService: ListingService
+    ) {}
+
+    /**
+     * Compares the performance of listings with their benchmarks over the same dates. If the benchmark has no quote on
+     * a listing's base or newest date, its last quote before that date is used.
+     *
+     * @param windows the listings' performance windows
+     * @param benchmark the ISIN of the benchmark to use for all listings; each security's default benchmark otherwise
+     * @param adjustment whether to compare split- (and dividend-) adjusted prices
+     * @param currency the currency to measure both in; the exchanges' own currencies otherwise
+     * @returns the relative performance, keyed by "securityID@exchangeID"; listings without benchmark are left out
+     */
+    async getRelativePerformance(
+        windows: PerformanceWindow[],
+        benchmark?: string,
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<Map<string, RelativePerformanceData>> {
+        const result = new Map<string, RelativePerformanceData>();
+        if (windows.length === 0) {
+            return result;
+        }
+
+        const defaults = new Map<number, Security | null>(
+            (await this.securityService.getAll(["benchmark"])).map((s) => [s.id, s.benchmark])
+        );
+        if (benchmark) {
+            // fails early for unknown ISINs
+            await this.securityService.getOne({ isin: benchmark });
+        } else if (![...defaults.values()].some((b) => b)) {
+            return result;
+        }
+
+        const listings = await this.quoteService.getListings();
+        const pairs: { window: PerformanceWindow; benchmark: ListingInfo }[] = [];
+        for (const window of windows) {
+            const isin = benchmark ?? defaults.get(window.listing.securityID)?.isin;
+            if (!isin || isin === window.listing.isin) {
+                continue;
+            }
+            const listing = this.findListing(listings, isin, window.listing.exchangeName);
+            if (listing) {
+                pairs.push({ window: window, benchmark: listing });
+            }
+        }
+        if (pairs.length === 0) {
+            return result;
+        }
+
+        const needed = new Map<string, ListingInfo>();
+        for (const pair of pairs) {
+            needed.set(this.getKey(pair.window.listing), pair.window.listing);
+            needed.set(this.getKey(pair.benchmark), pair.benchmark);
+        }
+        const series = await this.quoteService.getCloseSeries([...needed.values()], {
+            startDate: moment(Math.min(...pairs.map((p) => p.window.baseDate.valueOf())))
+                .subtract(BASE_DATE_MARGIN_DAYS, "days")
+                .toDate(),
+            endDate: new Date(Math.max(...pairs.map((p) => p.window.newestDate.valueOf()))),
+            adjustment: adjustment,
+            currency: currency
+        });
+
+        for (const { window, benchmark: benchmarkListing } of pairs) {
+            const start = window.baseDate.valueOf();
+            const end = window.newestDate.valueOf();
+            const inWindow = (c: ClosingPrice) => c.date.valueOf() >= start && c.date.valueOf() <= end;
+            const own = (series.get(this.getKey(window.listing)) ?? []).filter(inWindow);
+            const other = (series.get(this.getKey(benchmarkListing)) ?? []).filter(inWindow);
+            // the benchmark's performance starts from its price as of the listing's base date
+            const base = (series.get(this.getKey(benchmarkListing)) ?? [])
+                .filter((c) => c.date.valueOf() <= start)
+                .pop();
+            if (!base || other.length === 0 || other[other.length - 1].date.valueOf() === base.date.valueOf()) {
+                continue;
+            }
+
+            const benchmarkPerformance = other[other.length - 1].close / base.close - 1;
+
+            // the returns are only compared on the dates both have quotes
+            const otherByDate = new Map<number, number>(other.map((c) => [c.date.valueOf(), c.close]));
+            const common = own.filter((c) => otherByDate.has(c.date.valueOf()));
+            const ownReturns = simpleReturns(common.map((c) => c.close));
+            const otherReturns = simpleReturns(common.map((c) => otherByDate.get(c.date.valueOf()) ?? 0));
+
+            result.set(this.getKey(window.listing), {
+                benchmarkISIN: benchmarkListing.isin,
+                benchmarkPerformance: benchmarkPerformance,
+                excessReturn: window.performance - benchmarkPerformance,
+                beta: beta(ownReturns, otherReturns),
+                correlation: correlation(ownReturns, otherReturns),
+                relativeStrength: (1 + window.performance) / (1 + benchmarkPerformance)
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Creates a chart series comparing several securities. All series are rebased to 100 on the first date all of them
+     * have a quote; days without a quote carry the previous value forward.
+     *
+     * @param securities the securities as ISIN, or as "ISIN@exchange" to choose the exchange
+     * @param startDate the first date of the comparison; the complete common history if not set
+     * @param endDate the last date of the comparison; the newest quote if not set
+     * @param adjustment whether to compare split- (and dividend-) adjusted prices
+     * @param currency the currency to compare all prices in; the exchanges' own currencies otherwise
+     * @returns one point per date with one value per security, keyed by the given identifiers
+     */
+    async getComparison(
+        securities: string[],
+        startDate?: string,
+        endDate?: string,
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<ComparisonPoint[]> {
+        if (securities.length === 0) {
+            throw new Error("No securities to compare");
+        }
+
+        const listings = await this.listingService.resolveListings(securities);
+        const selected = securities.map((id, i) => ({ id: id, listing: listings[i] }));
+
+        const series = await this.quoteService.getCloseSeries(
+            selected.map((s) => s.listing),
+            {
+                startDate: startDate ? moment(startDate).toDate() : undefined,
+                endDate: endDate ? moment(endDate).toDate() : undefined,
+                adjustment: adjustment,
+                currency: currency
+            }
+        );
+
+        const closes = selected.map((s) => series.get(this.getKey(s.listing)) ?? []);
+        if (closes.some((c) => c.length === 0)) {
+            return [];
+        }
+        const baseTime = Math.max(...closes.map((c) => c[0].date.valueOf()));
+        const dates = [...new Set(closes.flatMap((c) => c.map((x) => x.date.valueOf())))]
+            .filter((time) => time >= baseTime)
+            .sort((a, b) => a - b);
+
+        const indices = closes.map(() => 0);
+        const bases = closes.map((c) => {
+            const base = [...c].reverse().find((x) => x.date.valueOf() <= baseTime);
+            return base ? base.close : 0;
+        });
+
+        return dates.map((time) => {
+            const point: ComparisonPoint = { date: new Date(time) };
+            selected.forEach((s, i) => {
+                const c = closes[i];
+                while (indices[i] + 1 < c.length && c[indices[i] + 1].date.valueOf() <= time) {
+                    ++indices[i];
+                }
+                point[s.id] = c[indices[i]].date.valueOf() <= time ? (c[indices[i]].close / bases[i]) * 100 : null;
+            });
+            return point;
+        });
+    }
+
+    /**
+     * Finds a listing of the security, preferring the given exchange.
+     */
+    private findListing(listings: ListingInfo[], isin: string, exchangeName: string): ListingInfo | undefined {
+        const candidates = listings.filter((l) => l.isin === isin);
+        return candidates.find((l) => l.exchangeName === exchangeName) ?? candidates[0];
+    }
+
+    private getKey(listing: ListingInfo): string {
+        return `${listing.securityID}@${listing.exchangeID}`;
+    }
+}
+
+export { BenchmarkService, ComparisonPoint, NO_BENCHMARK, PerformanceWindow, RelativePerformanceData };
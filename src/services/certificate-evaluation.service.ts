@@ -0,0 +1,147 @@
+import moment from "moment";
+import { Service } from "typedi";
+
+import { PriceAdjustmentOptions } from "../dtos";
+import { PerformanceEvaluationService, PerformanceInterval } from "./performance-evaluation.service";
+import { ClosingPrice, ListingInfo, QuoteDataService } from "./quote-service";
+import { SecuritiesService } from "./security-service";
+
+type CertificateEvaluationOptions = {
+    /** restricts the certificates to those on this underlying (by ISIN) */
+    underlying?: string;
+    /** restricts the certificates to a kind of product, e.g. "discount" */
+    kind?: string;
+};
+
+/**
+ * A certificate listing compared with its underlying. The underlying is taken from the same exchange if it's listed
+ * there, or from the exchange with the newest quote otherwise. The distances are relative to the underlying's newest
+ * close; they are positive while the underlying is above the barrier or strike.
+ */
+type CertificateEvaluationData = {
+    securityISIN: string;
+    securityName: string;
+    exchangeName: string;
+    kind: string | null;
+    underlyingISIN: string;
+    underlyingName: string;
+    underlyingExchangeName: string;
+    newestDate: Date;
+    price: number;
+    underlyingDate: Date;
+    underlyingPrice: number;
+    strike: number | null;
+    barrier: number | null;
+    ratio: number;
+    expiry: Date | null;
+    /** null for open-end products */
+    daysToExpiry: number | null;
+    distanceToBarrier: number | null;
+    distanceToStrike: number | null;
+    /** the performance over the interval; null if either listing doesn't have enough history */
+    performance: number | null;
+    underlyingPerformance: number | null;
+    /** the certificate's performance minus the underlying's */
+    performanceDifference: number | null;
+};
+
+@Service()
+class CertificateEvaluationService {
+    constructor(
+        private securityService: SecuritiesService,
+        private quoteService: QuoteDataService,
+        private perfService: PerformanceEvaluationService
+    ) {}
+
+    /**
+     * Compares all listed certificates that have a listed underlying with that underlying.
+     *
+     * @param interval the interval the performance is measured over, counting back from each listing's newest date
+     * @param options the filters
+     * @param adjustment whether to compute the performance on split- (and dividend-) adjusted prices
+     * @param currency the currency to measure the performance in; uses each exchange's own currency if not set
+     * @returns one entry per certificate listing
+     */
+    async getCertificateData(
+        interval: PerformanceInterval,
+        options: CertificateEvaluationOptions = {},
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<CertificateEvaluationData[]> {
+        const certificates = (await this.securityService.getCertificates()).filter(
+            (c) =>
+                c.underlying &&
+                (!options.underlying || c.underlying.isin === options.underlying) &&
+                (!options.kind || c.kind === options.kind)
+        );
+        if (certificates.length === 0) {
+            return [];
+        }
+
+        const listings: ListingInfo[] = await this.quoteService.getListings();
+        const newestQuotes = new Map<string, ClosingPrice>(
+            (await this.quoteService.getNewestQuotes()).map((q) => [`${q.securityID}@${q.exchangeID}`, q])
+        );
+        const performance = new Map<string, number>(
+            (await this.perfService.getPerformanceData(interval, adjustment, currency)).map((p) => [
+                `${p.securityISIN}@${p.exchangeName}`,
+                p.performance
+            ])
+        );
+        const getNewest = (listing: ListingInfo): ClosingPrice | undefined =>
+            newestQuotes.get(`${listing.securityID}@${listing.exchangeID}`);
+
+        const today = moment().startOf("day");
+        const result: CertificateEvaluationData[] = [];
+        for (const terms of certificates) {
+            const underlyingListings = listings
+                .filter((l) => l.isin === terms.underlying?.isin)
+                .sort((a, b) => (getNewest(b)?.date.valueOf() ?? 0) - (getNewest(a)?.date.valueOf() ?? 0));
+
+            for (const listing of listings.filter((l) => l.isin === terms.security.isin)) {
+                const underlying =
+                    underlyingListings.find((l) => l.exchangeID === listing.exchangeID) ?? underlyingListings[0];
+                const quote = getNewest(listing);
+                const underlyingQuote = underlying ? getNewest(underlying) : undefined;
+                if (!underlying || !quote || !underlyingQuote) {
+                    continue;
+                }
+
+                const strike = terms.strike === null || terms.strike === undefined ? null : Number(terms.strike);
+                const barrier = terms.barrier === null || terms.barrier === undefined ? null : Number(terms.barrier);
+                const distance = (level: number | null) =>
+                    level === null ? null : (underlyingQuote.close - level) / underlyingQuote.close;
+                const perf = performance.get(`${listing.isin}@${listing.exchangeName}`) ?? null;
+                const underlyingPerf = performance.get(`${underlying.isin}@${underlying.exchangeName}`) ?? null;
+
+                result.push({
+                    securityISIN: listing.isin,
+                    securityName: listing.securityName,
+                    exchangeName: listing.exchangeName,
+                    kind: terms.kind ?? null,
+                    underlyingISIN: underlying.isin,
+                    underlyingName: underlying.securityName,
+                    underlyingExchangeName: underlying.exchangeName,
+                    newestDate: quote.date,
+                    price: quote.close,
+                    underlyingDate: underlyingQuote.date,
+                    underlyingPrice: underlyingQuote.close,
+                    strike: strike,
+                    barrier: barrier,
+                    ratio: Number(terms.ratio),
+                    expiry: terms.expiry ? moment(terms.expiry).toDate() : null,
+                    daysToExpiry: terms.expiry ? moment(terms.expiry).diff(today, "days") : null,
+                    distanceToBarrier: distance(barrier),
+                    distanceToStrike: distance(strike),
+                    performance: perf,
+                    underlyingPerformance: underlyingPerf,
+                    performanceDifference: perf === null || underlyingPerf === null ? null : perf - underlyingPerf
+                });
+            }
+        }
+
+        return result;
+    }
+}
+
+export { CertificateEvaluationData, CertificateEvaluationOptions, CertificateEvaluationService };
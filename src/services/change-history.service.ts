@@ -0,0 +1,381 @@
+import config from "config";
+import moment from "moment";
+import { Service } from "typedi";
+import { EntityManager, getRepository, Repository } from "typeorm";
+
+import {
+    ChangeAction,
+    ChangeRecord,
+    ChangeSubject,
+    ChangeValues,
+    QuoteData,
+    SecuritiesExchange,
+    Security
+} from "../entities";
+
+type ChangeHistoryFilter = {
+    subject?: ChangeSubject;
+    /** the ISIN of a security, the name of an exchange, or "ISIN@exchange" for a quote series */
+    key?: string;
+    /** the date of a quote */
+    date?: string;
+    source?: string;
+    since?: string;
+    limit?: number;
+};
+
+/** a change about to be recorded; before is null for inserts, after for deletes */
+type PendingChange = {
+    key: string;
+    date?: string;
+    before: ChangeValues | null;
+    after: ChangeValues | null;
+};
+
+/** the number of changes written to the database at once, e.g. during a quote import */
+const BATCH_SIZE = 500;
+
+@Service()
+class ChangeHistoryService {
+    private repository: Repository<ChangeRecord>;
+
+    constructor() {
+        this.repository = getRepository<ChangeRecord>(ChangeRecord, config.get("ormconfig.connection"));
+    }
+
+    async getHistory(filter: ChangeHistoryFilter = {}): Promise<ChangeRecord[]> {
+        const query = this.repository
+            .createQueryBuilder("c")
+            .orderBy("c.changedAt", "DESC")
+            .addOrderBy("c.id", "DESC")
+            .limit(filter.limit ?? 100);
+
+        if (filter.subject) {
+            query.andWhere("c.subject = :subject", { subject: filter.subject });
+        }
+        if (filter.key) {
+            query.andWhere("c.subjectKey = :key", { key: filter.key });
+        }
+        if (filter.date) {
+            query.andWhere("c.date = :date", { date: moment(filter.date).format("YYYY-MM-DD") });
+        }
+        if (filter.source) {
+            query.andWhere("c.source = :source", { source: filter.source });
+        }
+        if (filter.since) {
+            query.andWhere("c.changedAt >= :since", { since: moment(filter.since).toDate() });
+        }
+
+        return query.getMany();
+    }
+
+    async getChange(id: number): Promise<ChangeRecord> {
+        return this.repository.findOneOrFail(id).catch(() => {
+            throw new Error(`No change with ID ${id}`);
+        });
+    }
+
+    /**
+     * Records the changes of securities. Securities missing in the list after count as deleted, securities that
+     * didn't change aren't recorded.
+     *
+     * @param before the securities before the change, with their benchmarks
+     * @param after the same securities after the change as stored, with their benchmarks
+     * @param source who made the change
+     * @param manager the transaction of the change, so the history is written with it
+     */
+    async recordSecurities(
+        before: Security[],
+        after: Security[],
+        source?: string,
+        manager?: EntityManager
+    ): Promise<void> {
+        const identify = (s: Security) => ({ key: s.isin });
+        await this.record(
+            ChangeSubject.SECURITY,
+            this.pair(before, after, identify, (s) => this.snapshotSecurity(s)),
+            manager ?? this.repository.manager,
+            source
+        );
+    }
+
+    /**
+     * Records the changes of exchanges, like `recordSecurities`.
+     */
+    async recordExchanges(
+        before: SecuritiesExchange[],
+        after: SecuritiesExchange[],
+        source?: string,
+        manager?: EntityManager
+    ): Promise<void> {
+        const identify = (e: SecuritiesExchange) => ({ key: e.name });
+        await this.record(
+            ChangeSubject.EXCHANGE,
+            this.pair(before, after, identify, (e) => this.snapshotExchange(e)),
+            manager ?? this.repository.manager,
+            source
+        );
+    }
+
+    /**
+     * Records the changes of quotes, like `recordSecurities`.
+     *
+     * @param before the quotes before the change, with their securities and exchanges
+     * @param after the same quotes after the change as stored, with their securities and exchanges; the stored prices
+     * may be rounded
+     * @param source who made the change
+     * @param manager the transaction of the change, so the history is written with it
+     */
+    async recordQuotes(
+        before: QuoteData[],
+        after: QuoteData[],
+        source?: string,
+        manager?: EntityManager
+    ): Promise<void> {
+        const identify = (q: QuoteData) => ({
+            key: `${q.security.isin}@${q.exchange.name}`,
+            date: moment(q.date).format("YYYY-MM-DD")
+        });
+        await this.record(
+            ChangeSubject.QUOTE,
+            this.pair(before, after, identify, (q) => this.snapshotQuote(q)),
+            manager ?? this.repository.manager,
+            source
+        );
+    }
+
+    /**
+     * Restores the values from before a change. This is itself recorded as a change, so it can be reverted as well.
+     * Only the latest change of a security, exchange, or quote can be reverted; earlier ones would silently undo the
+     * later ones.
+     *
+     * @param id the ID of the change
+     * @param source who reverts the change
+     * @returns the change that reverted the given one
+     */
+    async revert(id: number, source?: string): Promise<ChangeRecord> {
+        const change = await this.getChange(id);
+        // the check, the restore, and its record happen together or not at all
+        return this.repository.manager.transaction(async (manager) => {
+            const current = await this.getCurrentValues(change, manager);
+            if (!this.isEqual(current, change.after)) {
+                throw new Error(
+                    `The ${change.subject} was changed again after change ${id}; revert the later changes first`
+                );
+            }
+
+            await this.restore(change, manager);
+            const restored = await this.getCurrentValues(change, manager);
+            const [record] = await this.record(
+                change.subject,
+                [{ key: change.subjectKey, date: change.date ?? undefined, before: current, after: restored }],
+                manager,
+                source,
+                change.id
+            );
+            if (!record) {
+                throw new Error(`Change ${id} didn't change anything`);
+            }
+            return record;
+        });
+    }
+
+    private async record(
+        subject: ChangeSubject,
+        changes: PendingChange[],
+        manager: EntityManager,
+        source?: string,
+        revertOf?: number
+    ): Promise<ChangeRecord[]> {
+        const records = changes
+            .filter((c) => !this.isEqual(c.before, c.after))
+            .map((c) => {
+                const record = new ChangeRecord();
+                record.subject = subject;
+                record.subjectKey = c.key;
+                record.date = c.date ?? null;
+                record.action =
+                    c.before === null
+                        ? ChangeAction.INSERT
+                        : c.after === null
+                        ? ChangeAction.DELETE
+                        : ChangeAction.UPDATE;
+                record.before = c.before;
+                record.after = c.after;
+                record.source = source ?? null;
+                record.revertOf = revertOf ?? null;
+                return record;
+            });
+
+        for (let i = 0; i < records.length; i += BATCH_SIZE) {
+            await manager.save(records.slice(i, i + BATCH_SIZE));
+        }
+        return records;
+    }
+
+    /**
+     * Matches the items before and after a change by their keys.
+     */
+    private pair<T>(
+        before: T[],
+        after: T[],
+        identify: (item: T) => { key: string; date?: string },
+        snapshot: (item: T) => ChangeValues
+    ): PendingChange[] {
+        const changes = new Map<string, PendingChange>();
+        for (const item of before) {
+            const id = identify(item);
+            changes.set(`${id.key}|${id.date}`, { ...id, before: snapshot(item), after: null });
+        }
+        for (const item of after) {
+            const id = identify(item);
+            const previous = changes.get(`${id.key}|${id.date}`);
+            changes.set(`${id.key}|${id.date}`, { ...id, before: previous?.before ?? null, after: snapshot(item) });
+        }
+        return [...changes.values()];
+    }
+
+    private async getCurrentValues(change: ChangeRecord, manager: EntityManager): Promise<ChangeValues | null> {
+        switch (change.subject) {
+            case ChangeSubject.SECURITY: {
+                const security = await this.findSecurity(change.subjectKey, manager);
+                return security ? this.snapshotSecurity(security) : null;
+            }
+            case ChangeSubject.EXCHANGE: {
+                const exchange = await manager.findOne(SecuritiesExchange, { name: change.subjectKey });
+                return exchange ? this.snapshotExchange(exchange) : null;
+            }
+            case ChangeSubject.QUOTE: {
+                const quote = await this.findQuote(change, manager);
+                return quote ? this.snapshotQuote(quote) : null;
+            }
+        }
+    }
+
+    /**
+     * Writes the values from before a change back, or deletes what the change inserted.
+     */
+    private async restore(change: ChangeRecord, manager: EntityManager): Promise<void> {
+        const securityRepository = manager.getRepository(Security);
+        const exchangeRepository = manager.getRepository(SecuritiesExchange);
+        const values = change.before;
+        switch (change.subject) {
+            case ChangeSubject.SECURITY: {
+                const security = await this.findSecurity(change.subjectKey, manager);
+                if (!values) {
+                    await securityRepository.delete({ isin: change.subjectKey }).catch(() => {
+                        throw new Error(`Security ${change.subjectKey} is still in use and can't be deleted`);
+                    });
+                    return;
+                }
+                const { benchmark, ...fields } = values;
+                const restored = Object.assign(security ?? new Security(), fields, { isin: change.subjectKey });
+                restored.benchmark = benchmark
+                    ? await securityRepository.findOneOrFail({ isin: String(benchmark) }).catch(() => {
+                          throw new Error(`The benchmark ${benchmark} doesn't exist anymore`);
+                      })
+                    : null;
+                await securityRepository.save(restored);
+                return;
+            }
+            case ChangeSubject.EXCHANGE: {
+                if (!values) {
+                    await exchangeRepository.delete({ name: change.subjectKey }).catch(() => {
+                        throw new Error(`Exchange ${change.subjectKey} is still in use and can't be deleted`);
+                    });
+                    return;
+                }
+                const exchange = await exchangeRepository.findOne({ name: change.subjectKey });
+                await exchangeRepository.save(
+                    Object.assign(exchange ?? new SecuritiesExchange(), values, { name: change.subjectKey })
+                );
+                return;
+            }
+            case ChangeSubject.QUOTE: {
+                const quote = await this.findQuote(change, manager);
+                if (!values) {
+                    if (quote) {
+                        await manager.delete(QuoteData, quote.id);
+                    }
+                    return;
+                }
+                const restored = quote ?? new QuoteData();
+                if (!quote) {
+                    const [isin, exchangeName] = change.subjectKey.split("@");
+                    restored.security = await securityRepository.findOneOrFail({ isin: isin }).catch(() => {
+                        throw new Error(`Security ${isin} doesn't exist anymore`);
+                    });
+                    restored.exchange = await exchangeRepository.findOneOrFail({ name: exchangeName }).catch(() => {
+                        throw new Error(`Exchange ${exchangeName} doesn't exist anymore`);
+                    });
+                    restored.date = moment(change.date).toDate();
+                }
+                await manager.save(Object.assign(restored, values));
+                return;
+            }
+        }
+    }
+
+    private async findSecurity(isin: string, manager: EntityManager): Promise<Security | undefined> {
+        return manager.findOne(Security, { isin: isin }, { relations: ["benchmark"] });
+    }
+
+    private async findQuote(change: ChangeRecord, manager: EntityManager): Promise<QuoteData | undefined> {
+        const [isin, exchangeName] = change.subjectKey.split("@");
+        return manager
+            .createQueryBuilder(QuoteData, "q")
+            .innerJoinAndSelect("q.security", "s")
+            .innerJoinAndSelect("q.exchange", "e")
+            .where("s.isin = :isin", { isin: isin })
+            .andWhere("e.name = :exchange", { exchange: exchangeName })
+            .andWhere("q.date = :date", { date: change.date })
+            .getOne();
+    }
+
+    private snapshotSecurity(security: Security): ChangeValues {
+        return {
+            nsin: security.nsin,
+            name: security.name,
+            type: security.type,
+            country: security.country ?? null,
+            sector: security.sector ?? null,
+            industry: security.industry ?? null,
+            currency: security.currency ?? null,
+            wkn: security.wkn ?? null,
+            ticker: security.ticker ?? null,
+            figi: security.figi ?? null,
+            issuer: security.issuer ?? null,
+            ter: security.ter ?? null,
+            tags: security.tags && security.tags.length > 0 ? security.tags : null,
+            isBenchmark: security.isBenchmark ?? false,
+            // by ISIN, since the IDs change when a deleted security is inserted again
+            benchmark: security.benchmark?.isin ?? null
+        };
+    }
+
+    private snapshotExchange(exchange: SecuritiesExchange): ChangeValues {
+        return {
+            currency: exchange.currency,
+            timezone: exchange.timezone,
+            tradingDays: exchange.tradingDays
+        };
+    }
+
+    private snapshotQuote(quote: QuoteData): ChangeValues {
+        // decimals and big integers come back from the database as strings
+        const toNumber = (value?: number | null) => (value === null || value === undefined ? null : Number(value));
+        return {
+            open: toNumber(quote.open),
+            high: toNumber(quote.high),
+            low: toNumber(quote.low),
+            close: Number(quote.close),
+            volume: toNumber(quote.volume)
+        };
+    }
+
+    private isEqual(a: ChangeValues | null, b: ChangeValues | null): boolean {
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+}
+
+export { ChangeHistoryFilter, ChangeHistoryService };
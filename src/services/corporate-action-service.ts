@@ -0,0 +1,168 @@
+import config from "config";
+import moment from "moment";
+import { Service } from "typedi";
+import { DeleteResult, getRepository, InsertResult, Repository } from "typeorm";
+
+import {
+    CreateDividendRequest,
+    CreateStockSplitRequest,
+    DividendDTO,
+    PriceAdjustmentOptions,
+    StockSplitDTO
+} from "../dtos";
+import { Dividend, QuoteData, Security, StockSplit } from "../entities";
+import { PriceAdjustments, validateRequests } from "../utils";
+import { SecuritiesService } from "./security-service";
+
+@Service()
+class CorporateActionService {
+    private splitRepository: Repository<StockSplit>;
+    private dividendRepository: Repository<Dividend>;
+
+    constructor(private securityService: SecuritiesService) {
+        this.splitRepository = getRepository<StockSplit>(StockSplit, config.get("ormconfig.connection"));
+        this.dividendRepository = getRepository<Dividend>(Dividend, config.get("ormconfig.connection"));
+    }
+
+    async getSplits(isin: string): Promise<StockSplitDTO[]> {
+        return this.splitRepository
+            .find({ where: { security: await this.securityService.getOne({ isin: isin }) }, order: { date: "ASC" } })
+            .then((splits) =>
+                splits.map((split) => ({
+                    id: split.id,
+                    isin: isin,
+                    date: moment(split.date).format("YYYY-MM-DD"),
+                    ratio: Number(split.ratio)
+                }))
+            );
+    }
+
+    /**
+     * Adds a stock split (or a list of splits), or updates the ratio of an existing split on the same date.
+     *
+     * @param data The DTO (or list of DTOs) containing the split data.
+     * @returns An InsertResult object.
+     */
+    async addOrUpdateSplits(data: CreateStockSplitRequest | CreateStockSplitRequest[]): Promise<InsertResult> {
+        const splits: StockSplit[] = [];
+        for (const req of await validateRequests(CreateStockSplitRequest, data)) {
+            const split = new StockSplit();
+            split.security = await this.securityService.getOne({ isin: req.isin });
+            split.date = moment(req.date).toDate();
+            split.ratio = req.ratio;
+            splits.push(split);
+        }
+
+        return this.splitRepository
+            .createQueryBuilder()
+            .insert()
+            .values(splits)
+            .orUpdate({ conflict_target: ["date", "security"], overwrite: ["ratio"] })
+            .execute();
+    }
+
+    async deleteSplit(id: number): Promise<DeleteResult> {
+        await this.splitRepository.findOneOrFail(id);
+        return this.splitRepository.delete(id);
+    }
+
+    async getDividends(isin: string): Promise<DividendDTO[]> {
+        return this.dividendRepository
+            .find({ where: { security: await this.securityService.getOne({ isin: isin }) }, order: { exDate: "ASC" } })
+            .then((dividends) =>
+                dividends.map((dividend) => ({
+                    id: dividend.id,
+                    isin: isin,
+                    exDate: moment(dividend.exDate).format("YYYY-MM-DD"),
+                    amount: Number(dividend.amount)
+                }))
+            );
+    }
+
+    /**
+     * Adds a dividend (or a list of dividends), or updates the amount of an existing dividend with the same ex-date.
+     *
+     * @param data The DTO (or list of DTOs) containing the dividend data.
+     * @returns An InsertResult object.
+     */
+    async addOrUpdateDividends(data: CreateDividendRequest | CreateDividendRequest[]): Promise<InsertResult> {
+        const dividends: Dividend[] = [];
+        for (const req of await validateRequests(CreateDividendRequest, data)) {
+            const dividend = new Dividend();
+            dividend.security = await this.securityService.getOne({ isin: req.isin });
+            dividend.exDate = moment(req.exDate).toDate();
+            dividend.amount = req.amount;
+            dividends.push(dividend);
+        }
+
+        return this.dividendRepository
+            .createQueryBuilder()
+            .insert()
+            .values(dividends)
+            .orUpdate({ conflict_target: ["exDate", "security"], overwrite: ["amount"] })
+            .execute();
+    }
+
+    async deleteDividend(id: number): Promise<DeleteResult> {
+        await this.dividendRepository.findOneOrFail(id);
+        return this.dividendRepository.delete(id);
+    }
+
+    /**
+     * Loads the corporate actions needed to adjust historical prices.
+     *
+     * @param options whether to include dividends in the adjustment
+     * @param security restricts the adjustments to a single security; loads those of all securities otherwise
+     * @returns the price adjustments
+     */
+    async getPriceAdjustments(options: PriceAdjustmentOptions, security?: Security): Promise<PriceAdjustments> {
+        const adjustments = new PriceAdjustments();
+
+        const splitQuery = this.splitRepository
+            .createQueryBuilder("sp")
+            .select(["sp.securityId AS sid", "sp.date AS date", "sp.ratio AS ratio"]);
+        if (security) {
+            splitQuery.where("sp.securityId = :sid", { sid: security.id });
+        }
+        for (const row of await splitQuery.getRawMany()) {
+            adjustments.addSplit(row.sid, new Date(row.date), Number(row.ratio));
+        }
+
+        if (options.dividends) {
+            // the dividend factor depends on the last close before the ex-date, which differs between listings
+            const dividendQuery = this.dividendRepository
+                .createQueryBuilder("d")
+                .select(["d.securityId AS sid", "q.exchangeId AS eid", "d.exDate AS ex_date", "d.amount AS amount"])
+                .addSelect("q.close", "previous_close")
+                .innerJoin(QuoteData, "q", "q.securityId = d.securityId")
+                .where(
+                    (qb) =>
+                        "q.date = " +
+                        qb
+                            .subQuery()
+                            .select("MAX(pq.date)")
+                            .from(QuoteData, "pq")
+                            .where("pq.securityId = q.securityId")
+                            .andWhere("pq.exchangeId = q.exchangeId")
+                            .andWhere("pq.date < d.exDate")
+                            .getQuery()
+                );
+            if (security) {
+                dividendQuery.andWhere("d.securityId = :sid", { sid: security.id });
+            }
+            for (const row of await dividendQuery.getRawMany()) {
+                adjustments.addDividend(
+                    row.sid,
+                    row.eid,
+                    new Date(row.ex_date),
+                    Number(row.amount),
+                    Number(row.previous_close)
+                );
+            }
+        }
+
+        return adjustments;
+    }
+}
+
+export { CorporateActionService };
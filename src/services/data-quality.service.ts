@@ -0,0 +1,233 @@
+import moment from "moment";
+import { Service } from "typedi";
+
+import { SecurityType } from "../entities";
+import { getPeriodKey, PriceAdjustments, TradingCalendar } from "../utils";
+import { CorporateActionService } from "./corporate-action-service";
+import { ExchangeService } from "./exchange-service";
+import { ClosingPrice, ListingInfo, QuoteDataService } from "./quote-service";
+import { RSL_DEFAULT_PERIODS } from "./rsleval.service";
+
+type DataQualityOptions = {
+    /** the number of trading days without a quote after which a listing counts as stale */
+    staleAfter?: number;
+    /** the daily price change, as a positive fraction, above which a move counts as suspicious */
+    jumpThreshold?: number;
+    /** restricts the listings to a security type */
+    type?: SecurityType;
+    /** restricts the listings to an exchange (by name) */
+    exchange?: string;
+};
+
+/**
+ * The data quality of a listing. The trading days are taken from the exchange's calendar.
+ */
+type DataQualityData = {
+    securityISIN: string;
+    securityName: string;
+    instrumentType: string;
+    exchangeName: string;
+    firstDate: Date;
+    lastDate: Date;
+    quoteCount: number;
+    /** the number of trading days between the first and the last date without a quote */
+    missingDays: number;
+    /** the longest run of consecutive trading days without a quote */
+    longestGap: number;
+    /** the number of trading days since the last quote */
+    daysSinceLastQuote: number;
+    stale: boolean;
+    /** the number of daily moves above the threshold that aren't explained by a split */
+    suspiciousJumps: number;
+    /** whether there are enough quotes for the evaluations with their default parameters */
+    enoughForRSLWeekly: boolean;
+    enoughForRSLDaily: boolean;
+    enoughForPerformance: boolean;
+    enoughForRisk: boolean;
+};
+
+/** consecutive trading days without a quote */
+type QuoteGap = {
+    /** the last quote before the gap */
+    previousDate: Date;
+    /** the first quote after the gap */
+    nextDate: Date;
+    missingDays: number;
+};
+
+type PriceJump = {
+    date: Date;
+    previousDate: Date;
+    previousClose: number;
+    close: number;
+    /** the split-adjusted change */
+    change: number;
+};
+
+type DataQualityDetails = DataQualityData & {
+    gaps: QuoteGap[];
+    jumps: PriceJump[];
+};
+
+type ListingCheck = {
+    data: DataQualityData;
+    gaps: QuoteGap[];
+    jumps: PriceJump[];
+};
+
+const DEFAULT_STALE_AFTER = 5;
+const DEFAULT_JUMP_THRESHOLD = 0.4;
+
+/** the minimum number of closes within a year the performance and risk evaluations need */
+const MIN_RISK_CLOSES = 3;
+
+@Service()
+class DataQualityService {
+    constructor(
+        private quoteService: QuoteDataService,
+        private corporateActionService: CorporateActionService,
+        private exchangeService: ExchangeService
+    ) {}
+
+    /**
+     * Checks the quotes of all listings matching the filters for gaps, staleness, and suspicious price moves.
+     *
+     * @param options the thresholds and the filters
+     * @param referenceDate the date the staleness is measured against; today at each exchange if not set
+     * @returns one entry per listing with at least one quote
+     */
+    async getReport(options: DataQualityOptions = {}, referenceDate?: Date): Promise<DataQualityData[]> {
+        const listings = (await this.quoteService.getListings()).filter(
+            (l) =>
+                (!options.type || l.instrumentType === options.type) &&
+                (!options.exchange || l.exchangeName === options.exchange)
+        );
+        return (await this.check(listings, options, referenceDate)).map((r) => r.data);
+    }
+
+    /**
+     * Checks the quotes of a single security/exchange combination and lists the individual gaps and price jumps.
+     *
+     * @param isin the security's ISIN
+     * @param exchangeID the exchange ID
+     * @param options the thresholds
+     * @param referenceDate the date the staleness is measured against; today at the exchange if not set
+     * @returns the data quality with all gaps and jumps
+     */
+    async getListingReport(
+        isin: string,
+        exchangeID: number,
+        options: DataQualityOptions = {},
+        referenceDate?: Date
+    ): Promise<DataQualityDetails> {
+        const listings = (await this.quoteService.getListings()).filter(
+            (l) => l.isin === isin && l.exchangeID === Number(exchangeID)
+        );
+        const result = await this.check(listings, options, referenceDate);
+        if (result.length === 0) {
+            throw new Error(`No quotes for ${isin} on exchange ${exchangeID}`);
+        }
+        return { ...result[0].data, gaps: result[0].gaps, jumps: result[0].jumps };
+    }
+
+    private async check(
+        listings: ListingInfo[],
+        options: DataQualityOptions,
+        referenceDate?: Date
+    ): Promise<ListingCheck[]> {
+        const staleAfter = options.staleAfter ?? DEFAULT_STALE_AFTER;
+        const jumpThreshold = options.jumpThreshold ?? DEFAULT_JUMP_THRESHOLD;
+        if (staleAfter < 0 || jumpThreshold <= 0) {
+            throw new RangeError("The thresholds must be positive");
+        }
+        if (listings.length === 0) {
+            return [];
+        }
+
+        const splits: PriceAdjustments = await this.corporateActionService.getPriceAdjustments({
+            adjusted: true,
+            dividends: false
+        });
+        const closesByListing = new Map<string, ClosingPrice[]>();
+        for (const c of await this.quoteService.getCloses(listings)) {
+            const key = `${c.securityID}@${c.exchangeID}`;
+            const list = closesByListing.get(key);
+            if (list) {
+                list.push(c);
+            } else {
+                closesByListing.set(key, [c]);
+            }
+        }
+
+        const calendars = await this.exchangeService.getCalendars();
+        const result: ListingCheck[] = [];
+        for (const listing of listings) {
+            const closes = closesByListing.get(`${listing.securityID}@${listing.exchangeID}`) ?? [];
+            if (closes.length === 0) {
+                continue;
+            }
+
+            const calendar = calendars.get(listing.exchangeID) ?? new TradingCalendar();
+            const gaps: QuoteGap[] = [];
+            const jumps: PriceJump[] = [];
+            for (let i = 1; i < closes.length; ++i) {
+                const previous = closes[i - 1];
+                const current = closes[i];
+
+                const missing = calendar.countTradingDays(previous.date, current.date) - 1;
+                if (missing > 0) {
+                    gaps.push({ previousDate: previous.date, nextDate: current.date, missingDays: missing });
+                }
+
+                // comparing the split-adjusted prices leaves only the moves no split explains
+                const change =
+                    splits.adjust(current.securityID, current.exchangeID, current.date, current.close) /
+                        splits.adjust(previous.securityID, previous.exchangeID, previous.date, previous.close) -
+                    1;
+                if (Math.abs(change) > jumpThreshold) {
+                    jumps.push({
+                        date: current.date,
+                        previousDate: previous.date,
+                        previousClose: previous.close,
+                        close: current.close,
+                        change: change
+                    });
+                }
+            }
+
+            const first = closes[0];
+            const last = closes[closes.length - 1];
+            const daysSinceLastQuote = calendar.countTradingDays(last.date, referenceDate ?? calendar.getToday());
+            const yearAgo = moment(last.date).subtract(1, "year");
+            const rslWeeks = RSL_DEFAULT_PERIODS.weekly;
+            const weeksStart = moment(last.date).subtract(rslWeeks + 1, "weeks");
+            const recentWeeks = new Set(
+                closes.filter((c) => weeksStart.isBefore(c.date)).map((c) => getPeriodKey(c.date, "week"))
+            );
+
+            const data: DataQualityData = {
+                securityISIN: listing.isin,
+                securityName: listing.securityName,
+                instrumentType: listing.instrumentType,
+                exchangeName: listing.exchangeName,
+                firstDate: first.date,
+                lastDate: last.date,
+                quoteCount: closes.length,
+                missingDays: gaps.reduce((sum, gap) => sum + gap.missingDays, 0),
+                longestGap: Math.max(0, ...gaps.map((gap) => gap.missingDays)),
+                daysSinceLastQuote: daysSinceLastQuote,
+                stale: daysSinceLastQuote > staleAfter,
+                suspiciousJumps: jumps.length,
+                enoughForRSLWeekly: recentWeeks.size >= rslWeeks,
+                enoughForRSLDaily: closes.length >= RSL_DEFAULT_PERIODS.daily,
+                enoughForPerformance: !yearAgo.isBefore(first.date),
+                enoughForRisk: closes.filter((c) => !yearAgo.isAfter(c.date)).length >= MIN_RISK_CLOSES
+            };
+            result.push({ data: data, gaps: gaps, jumps: jumps });
+        }
+
+        return result;
+    }
+}
+
+export { DataQualityData, DataQualityDetails, DataQualityOptions, DataQualityService, PriceJump, QuoteGap };
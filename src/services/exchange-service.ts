@@ -1,17 +1,26 @@
 import config from "config";
-
+import moment from "moment";
 import { Service } from "typedi";
-import { FindConditions, getRepository, InsertResult, Repository } from "typeorm";
+import { DeleteResult, FindConditions, getRepository, In, InsertResult, Repository } from "typeorm";
+
+import { CreateExchangeRequest, CreateHolidayRequest, HolidayDTO } from "../dtos";
+import { ExchangeHoliday, SecuritiesExchange } from "../entities";
+import { isValidTimezone, splitByGivenFields, TradingCalendar, validateRequests } from "../utils";
+import { ChangeHistoryService } from "./change-history.service";
 
-import { CreateExchangeRequest } from "../dtos";
-import { SecuritiesExchange } from "../entities";
+/** the exchange data with defaults, which are kept when an update leaves them out */
+const OPTIONAL_EXCHANGE_FIELDS = ["currency", "timezone", "tradingDays"] as const;
 
 @Service()
 class ExchangeService {
     private repository: Repository<SecuritiesExchange>;
+    private holidayRepository: Repository<ExchangeHoliday>;
+    /** the trading calendars, loaded on first use and reloaded after the exchanges or holidays changed */
+    private calendars?: Promise<Map<number, TradingCalendar>>;
 
-    constructor() {
+    constructor(private historyService: ChangeHistoryService) {
         this.repository = getRepository<SecuritiesExchange>(SecuritiesExchange, config.get("ormconfig.connection"));
+        this.holidayRepository = getRepository<ExchangeHoliday>(ExchangeHoliday, config.get("ormconfig.connection"));
     }
 
     async getAll(): Promise<SecuritiesExchange[]> {
@@ -27,22 +36,171 @@ class ExchangeService {
         return this.repository.findOneOrFail(id_or_conds);
     }
 
-    async addOrUpdate(data: CreateExchangeRequest | CreateExchangeRequest[]): Promise<InsertResult> {
-        const result: SecuritiesExchange | SecuritiesExchange[] = Array.isArray(data)
-            ? data.map((req: CreateExchangeRequest) => this.toExchange(req))
-            : this.toExchange(data);
+    /**
+     * Adds an exchange (or a list of exchanges), or updates the data of an existing exchange with the same name.
+     *
+     * @param data The DTO (or list of DTOs) containing the exchange data.
+     * @param source who made the change, for the change history
+     * @returns An InsertResult object.
+     */
+    async addOrUpdate(data: CreateExchangeRequest | CreateExchangeRequest[], source?: string): Promise<void> {
+        const requests = await validateRequests(CreateExchangeRequest, data);
+        for (const req of requests) {
+            if (req.timezone && !isValidTimezone(req.timezone)) {
+                throw new Error(`Unknown time zone: ${req.timezone}`);
+            }
+        }
+
+        const names = { name: In(requests.map((req) => req.name)) };
+        // the exchanges and their change history are written together or not at all
+        await this.repository.manager.transaction(async (manager) => {
+            const before = await manager.find(SecuritiesExchange, names);
+
+            // only overwrite the optional columns an exchange gives; they would be reset to the defaults otherwise
+            const runs = splitByGivenFields(requests, OPTIONAL_EXCHANGE_FIELDS, (req, field) => Boolean(req[field]));
+            for (const run of runs) {
+                await manager
+                    .createQueryBuilder()
+                    .insert()
+                    .into(SecuritiesExchange)
+                    .values(run.items.map((req) => this.toExchange(req)))
+                    .orUpdate({
+                        conflict_target: ["name"],
+                        overwrite: [
+                            "name", // workaround since empty overwrite doesn't work
+                            ...run.fields
+                        ]
+                    })
+                    .execute();
+            }
+
+            await this.historyService.recordExchanges(
+                before,
+                await manager.find(SecuritiesExchange, names),
+                source,
+                manager
+            );
+        });
+        this.clearCalendars();
+    }
+
+    /**
+     * Returns the holidays of an exchange.
+     *
+     * @param id the exchange ID
+     * @param year restricts the holidays to a calendar year
+     * @returns the holidays, ordered by date
+     */
+    async getHolidays(id: number, year?: number): Promise<HolidayDTO[]> {
+        const query = this.holidayRepository
+            .createQueryBuilder("h")
+            .where("h.exchangeId = :eid", { eid: (await this.getOne(Number(id))).id })
+            .orderBy("h.date");
+        if (year) {
+            query.andWhere("YEAR(h.date) = :year", { year: year });
+        }
+
+        return query
+            .getMany()
+            .then((holidays) =>
+                holidays.map((h) => ({ id: h.id, date: moment(h.date).format("YYYY-MM-DD"), name: h.name }))
+            );
+    }
 
-        return this.repository
+    /**
+     * Adds a holiday (or a list of holidays) to an exchange, or updates the name of an existing holiday on the same
+     * date.
+     *
+     * @param id the exchange ID
+     * @param data The DTO (or list of DTOs) containing the holiday data.
+     * @returns An InsertResult object.
+     */
+    async addOrUpdateHolidays(id: number, data: CreateHolidayRequest | CreateHolidayRequest[]): Promise<InsertResult> {
+        const exchange = await this.getOne(Number(id));
+        const holidays: ExchangeHoliday[] = (await validateRequests(CreateHolidayRequest, data)).map((req) => {
+            const holiday = new ExchangeHoliday();
+            holiday.exchange = exchange;
+            holiday.date = moment(req.date).toDate();
+            holiday.name = req.name ?? null;
+            return holiday;
+        });
+        if (holidays.length === 0) {
+            throw new Error("No holidays given");
+        }
+
+        const result = await this.holidayRepository
             .createQueryBuilder()
             .insert()
-            .values(result)
-            .orUpdate({ conflict_target: ["name"], overwrite: ["name"] }) // workaround since empty overwrite doesn't work
+            .values(holidays)
+            .orUpdate({ conflict_target: ["date", "exchange"], overwrite: ["name"] })
             .execute();
+        this.clearCalendars();
+        return result;
+    }
+
+    async deleteHoliday(id: number, holidayID: number): Promise<DeleteResult> {
+        await this.holidayRepository.findOneOrFail({ id: holidayID, exchange: { id: id } });
+        const result = await this.holidayRepository.delete(holidayID);
+        this.clearCalendars();
+        return result;
+    }
+
+    /**
+     * Returns the trading calendars of all exchanges.
+     *
+     * @returns the calendars, keyed by exchange ID
+     */
+    async getCalendars(): Promise<Map<number, TradingCalendar>> {
+        if (!this.calendars) {
+            this.calendars = this.loadCalendars();
+            // a failed load is retried on the next call
+            this.calendars.catch(() => this.clearCalendars());
+        }
+        return this.calendars;
+    }
+
+    /**
+     * Makes the next `getCalendars` call reload the calendars, e.g. after an exchange was changed elsewhere.
+     */
+    clearCalendars(): void {
+        this.calendars = undefined;
+    }
+
+    private async loadCalendars(): Promise<Map<number, TradingCalendar>> {
+        const holidays = new Map<number, Date[]>();
+        const rows = await this.holidayRepository
+            .createQueryBuilder("h")
+            .select(["h.exchangeId AS eid", "h.date AS date"])
+            .getRawMany();
+        for (const row of rows) {
+            const dates = holidays.get(row.eid);
+            if (dates) {
+                dates.push(new Date(row.date));
+            } else {
+                holidays.set(row.eid, [new Date(row.date)]);
+            }
+        }
+
+        return new Map<number, TradingCalendar>(
+            (await this.getAll()).map((e) => [
+                e.id,
+                new TradingCalendar(e.tradingDays, holidays.get(e.id) ?? [], e.timezone)
+            ])
+        );
     }
 
     private toExchange(req: CreateExchangeRequest): SecuritiesExchange {
         const exchange: SecuritiesExchange = new SecuritiesExchange();
         exchange.name = req.name;
+        if (req.currency) {
+            exchange.currency = req.currency;
+        }
+        if (req.timezone) {
+            exchange.timezone = req.timezone;
+        }
+        if (req.tradingDays) {
+            exchange.tradingDays = req.tradingDays;
+        }
         return exchange;
     }
 }
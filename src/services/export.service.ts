@@ -0,0 +1,189 @@
+import { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import moment from "moment";
+import { Service } from "typedi";
+
+import { ExportFormat, ExportOptions } from "../dtos";
+import { CSVSettings, getCSVSettings } from "../utils";
+
+const CONTENT_TYPES: { [format in ExportFormat]: string } = {
+    json: "application/json",
+    csv: "text/csv",
+    ndjson: "application/x-ndjson"
+};
+
+@Service()
+class ExportService {
+    /**
+     * Determines the output format of a request. An explicitly given format takes precedence over the Accept header.
+     *
+     * @param request the request
+     * @param format the format given in the query params, if any
+     * @returns the output format
+     */
+    getFormat(request: Request, format?: string): ExportFormat {
+        if (format) {
+            const lower = format.toLowerCase();
+            if (lower === "json" || lower === "csv" || lower === "ndjson") {
+                return lower;
+            }
+            if (lower === "jsonl") {
+                return "ndjson";
+            }
+            throw new Error(`Unsupported format: ${format}`);
+        }
+
+        const accepted = request.accepts([...Object.values(CONTENT_TYPES), "application/jsonl"]);
+        switch (accepted) {
+            case CONTENT_TYPES.csv:
+                return "csv";
+            case CONTENT_TYPES.ndjson:
+            case "application/jsonl":
+                return "ndjson";
+            default:
+                return "json";
+        }
+    }
+
+    /**
+     * Writes the items to the response in the requested format. The items are written one after another, so an async
+     * iterable (e.g. a database stream) never has to be held in memory completely. For CSV, the columns are taken from
+     * the keys of the first item.
+     *
+     * The first item is fetched before anything is sent, so errors that occur before the first item (e.g. an unknown
+     * security) are thrown and can still be answered with an error status. Later errors, and a client that disconnects,
+     * abort the response and stop the iteration.
+     *
+     * @param response the response to write to
+     * @param format the output format
+     * @param items the items to send
+     * @param options the CSV options; ignored for other formats
+     * @param filename the file name suggested to clients for CSV downloads
+     * @returns the response
+     */
+    async send<T>(
+        response: Response,
+        format: ExportFormat,
+        items: Iterable<T> | AsyncIterable<T>,
+        options: ExportOptions = {},
+        filename?: string
+    ): Promise<Response> {
+        const settings: CSVSettings = getCSVSettings(options);
+        const iterator: Iterator<T> | AsyncIterator<T> =
+            Symbol.asyncIterator in items
+                ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+                : (items as Iterable<T>)[Symbol.iterator]();
+        let next = await iterator.next();
+
+        response.status(StatusCodes.OK).type(`${CONTENT_TYPES[format]}; charset=utf-8`);
+        if (format === "csv" && filename) {
+            response.attachment(filename);
+        }
+
+        let columns: string[] | undefined;
+        let first = true;
+
+        try {
+            if (format === "json") {
+                await this.write(response, "[");
+            } else if (format === "csv" && options.bom) {
+                await this.write(response, "\ufeff");
+            }
+
+            while (!next.done) {
+                const item = next.value;
+                if (format === "json") {
+                    await this.write(response, (first ? "" : ",") + JSON.stringify(item));
+                } else if (format === "ndjson") {
+                    await this.write(response, JSON.stringify(item) + "\n");
+                } else {
+                    if (!columns) {
+                        columns = Object.keys(item);
+                        await this.write(response, this.toCSVLine(columns, settings));
+                    }
+                    const record = (item as unknown) as { [key: string]: unknown };
+                    await this.write(
+                        response,
+                        this.toCSVLine(
+                            columns.map((c) => record[c]),
+                            settings
+                        )
+                    );
+                }
+                first = false;
+                next = await iterator.next();
+            }
+
+            if (format === "json") {
+                await this.write(response, "]");
+            }
+        } catch (error) {
+            // releases e.g. the database stream of a generator that is still suspended
+            await Promise.resolve(iterator.return?.()).catch(() => undefined);
+            // the headers are already sent, so all that's left is to abort the response
+            response.destroy(error);
+            return response;
+        }
+
+        response.end();
+        return response;
+    }
+
+    private toCSVLine(values: unknown[], settings: CSVSettings): string {
+        return values.map((value) => this.toCSVField(value, settings)).join(settings.delimiter) + "\r\n";
+    }
+
+    private toCSVField(value: unknown, settings: CSVSettings): string {
+        let text: string;
+        if (value === null || value === undefined) {
+            text = "";
+        } else if (value instanceof Date) {
+            text = moment(value).format(settings.dateFormat);
+        } else if (typeof value === "number") {
+            text = String(value).replace(".", settings.decimalSeparator);
+        } else {
+            text = String(value);
+        }
+
+        // quote all fields that would otherwise break the CSV structure
+        if (text.includes(settings.delimiter) || /["\r\n]/.test(text)) {
+            // double all quotes inside the field
+            const escaped = text.replace(/"/g, "$&$&");
+            return `"${escaped}"`;
+        }
+        return text;
+    }
+
+    /**
+     * Writes a chunk to the response, waiting for the buffer to drain if necessary. A client that disconnects never
+     * drains the buffer, so closing the response ends the wait with an error.
+     */
+    private async write(response: Response, chunk: string): Promise<void> {
+        if (response.destroyed) {
+            throw new Error("The client closed the connection");
+        }
+        if (response.write(chunk)) {
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const done = (error?: Error) => {
+                response.off("drain", onDrain);
+                response.off("close", onClose);
+                response.off("error", done);
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            };
+            const onDrain = () => done();
+            const onClose = () => done(new Error("The client closed the connection"));
+            response.on("drain", onDrain);
+            response.on("close", onClose);
+            response.on("error", done);
+        });
+    }
+}
+
+export { ExportService };
@@ -0,0 +1,397 @@
+import config from "config";
+import parse from "csv-parse";
+import moment from "moment";
+import { Readable } from "stream";
+import { Service } from "typedi";
+import { DeleteResult, getRepository, LessThanOrEqual, Repository } from "typeorm";
+
+import {
+    AddFundCompositionRequest,
+    ExposureDTO,
+    FundCompositionDTO,
+    FundCompositionImportOptions,
+    FundHoldingItem,
+    LookThroughDTO
+} from "../dtos";
+import { FundHolding, Security, SecurityType } from "../entities";
+import { CSVSettings, getCSVSettings, parseCSVNumber, validateRequests } from "../utils";
+import { PortfolioService } from "./portfolio-service";
+import { SecuritiesService } from "./security-service";
+
+/** the tolerance for weights adding up to slightly more than 100% due to rounding in published lists */
+const WEIGHT_TOLERANCE = 0.01;
+
+/** the exposures collected while walking through the compositions */
+type Exposures = {
+    underlyings: Map<string | null, ExposureDTO>;
+    sectors: Map<string | null, ExposureDTO>;
+    countries: Map<string | null, ExposureDTO>;
+    uncovered: number;
+};
+
+/** a composition loaded for the look-through */
+type Composition = {
+    date: Date;
+    holdings: FundHolding[];
+};
+
+@Service()
+class FundCompositionService {
+    private repository: Repository<FundHolding>;
+
+    constructor(private securityService: SecuritiesService, private portfolioService: PortfolioService) {
+        this.repository = getRepository<FundHolding>(FundHolding, config.get("ormconfig.connection"));
+    }
+
+    /**
+     * Returns the composition of a fund or ETF.
+     *
+     * @param isin the fund's ISIN
+     * @param date the newest composition on or before this date is returned; the newest one overall if not set
+     * @returns the composition, ordered by weight
+     */
+    async getComposition(isin: string, date?: string): Promise<FundCompositionDTO> {
+        const fund = await this.securityService.getOne({ isin: isin });
+        const composition = await this.load(fund, date ? moment(date).toDate() : undefined);
+        if (!composition) {
+            throw new Error(`No composition for ${isin}${date ? ` on or before ${date}` : ""}`);
+        }
+
+        return {
+            isin: isin,
+            date: moment(composition.date).format("YYYY-MM-DD"),
+            totalWeight: composition.holdings.reduce((sum, h) => sum + Number(h.weight), 0),
+            holdings: composition.holdings.map((h) => ({
+                id: h.id,
+                isin: h.isin ?? null,
+                name: h.name ?? null,
+                weight: Number(h.weight),
+                country: h.country ?? null,
+                sector: h.sector ?? null
+            }))
+        };
+    }
+
+    /**
+     * Returns the dates a fund has compositions for.
+     *
+     * @param isin the fund's ISIN
+     * @returns the dates, oldest first
+     */
+    async getCompositionDates(isin: string): Promise<string[]> {
+        const fund = await this.securityService.getOne({ isin: isin });
+        const rows = await this.repository
+            .createQueryBuilder("h")
+            .select("DISTINCT h.date", "date")
+            .where("h.fundId = :fund", { fund: fund.id })
+            .orderBy("date")
+            .getRawMany();
+        return rows.map((r) => moment(r.date).format("YYYY-MM-DD"));
+    }
+
+    /**
+     * Stores the compositions of one or several funds. Each composition replaces the one stored for the same fund and
+     * date, since a published list is always complete. Either all compositions are stored, or none if one is invalid.
+     *
+     * @param data the composition (or list of compositions)
+     */
+    async setCompositions(data: AddFundCompositionRequest | AddFundCompositionRequest[]): Promise<void> {
+        const compositions: { fund: Security; date: Date; holdings: FundHolding[] }[] = [];
+        for (const req of await validateRequests(AddFundCompositionRequest, data)) {
+            const fund = await this.securityService.getOne({ isin: req.isin });
+            if (fund.type !== SecurityType.EQUITY_FUND && fund.type !== SecurityType.ETF) {
+                throw new Error(`Security ${req.isin} is no fund or ETF`);
+            }
+            const date = moment(req.date).toDate();
+            compositions.push({ fund: fund, date: date, holdings: this.toHoldings(req.holdings, fund, date) });
+        }
+
+        await this.repository.manager.transaction(async (manager) => {
+            for (const composition of compositions) {
+                await manager
+                    .createQueryBuilder()
+                    .delete()
+                    .from(FundHolding)
+                    .where("fundId = :fund AND date = :date", { fund: composition.fund.id, date: composition.date })
+                    .execute();
+                await manager.save(composition.holdings);
+            }
+        });
+    }
+
+    /**
+     * Imports the composition of a fund from a CSV stream. The first line must contain the column headers: weight, and
+     * isin and/or name, and optionally country and sector.
+     *
+     * @param isin the fund's ISIN
+     * @param input the CSV input stream
+     * @param options the CSV settings, the date of the composition, and the weight format
+     */
+    async importComposition(isin: string, input: Readable, options: FundCompositionImportOptions): Promise<void> {
+        if (!options.date) {
+            throw new Error("The composition needs a date");
+        }
+        const settings: CSVSettings = getCSVSettings(options);
+
+        const parser = input.pipe(
+            parse({
+                bom: true,
+                columns: (header: string[]) => header.map((name: string) => name.trim().toLowerCase()),
+                delimiter: settings.delimiter,
+                relax_column_count: true,
+                skip_empty_lines: true,
+                trim: true
+            })
+        );
+
+        const holdings: FundHoldingItem[] = [];
+        // the header is line 1
+        let row = 1;
+        for await (const record of parser) {
+            ++row;
+            try {
+                const weight = parseCSVNumber(record.weight, settings);
+                if (weight === undefined) {
+                    throw new Error("No weight given");
+                }
+                holdings.push({
+                    isin: record.isin || undefined,
+                    name: record.name || undefined,
+                    weight: options.percent ? weight / 100 : weight,
+                    country: record.country || undefined,
+                    sector: record.sector || undefined
+                });
+            } catch (error) {
+                throw new Error(`Row ${row}: ${error.message}`);
+            }
+        }
+
+        await this.setCompositions(new AddFundCompositionRequest(isin, options.date, holdings));
+    }
+
+    async deleteComposition(isin: string, date: string): Promise<DeleteResult> {
+        const fund = await this.securityService.getOne({ isin: isin });
+        const result = await this.repository
+            .createQueryBuilder()
+            .delete()
+            .where("fundId = :fund AND date = :date", { fund: fund.id, date: moment(date).toDate() })
+            .execute();
+        if (!result.affected) {
+            throw new Error(`No composition for ${isin} on ${date}`);
+        }
+        return result;
+    }
+
+    /**
+     * Determines what a fund is invested in, by underlying, sector, and country. Funds held by the fund are looked
+     * through as well, as far as their compositions are known.
+     *
+     * @param isin the fund's ISIN
+     * @param date the compositions on or before this date are used; the newest ones if not set
+     * @returns the exposures, largest first
+     */
+    async getFundLookThrough(isin: string, date?: string): Promise<LookThroughDTO> {
+        const fund = await this.securityService.getOne({ isin: isin });
+        const asOf = date ? moment(date).toDate() : undefined;
+        if (!(await this.load(fund, asOf))) {
+            throw new Error(`No composition for ${isin}${date ? ` on or before ${date}` : ""}`);
+        }
+
+        const securities = await this.getSecurities();
+        const exposures = this.createExposures();
+        await this.expand(fund, 1, asOf, securities, exposures, new Set());
+        return this.toLookThrough(isin, null, exposures);
+    }
+
+    /**
+     * Determines what a portfolio is invested in, by underlying, sector, and country. The positions are weighted by
+     * their market value; funds and ETFs are replaced by their constituents as far as their compositions are known.
+     * Positions without quotes are left out.
+     *
+     * @param id the portfolio ID
+     * @param date the compositions on or before this date are used; the newest ones if not set
+     * @returns the exposures, largest first
+     */
+    async getPortfolioLookThrough(id: number, date?: string): Promise<LookThroughDTO> {
+        const holdings = (await this.portfolioService.getHoldings(id, "fifo")).holdings.filter(
+            (h) => h.marketValue !== null && h.marketValue > 0
+        );
+        const total = holdings.reduce((sum, h) => sum + (h.marketValue ?? 0), 0);
+        const securities = await this.getSecurities();
+        const exposures = this.createExposures();
+        const asOf = date ? moment(date).toDate() : undefined;
+
+        for (const holding of holdings) {
+            const security = securities.get(holding.isin);
+            const weight = (holding.marketValue ?? 0) / total;
+            if (security) {
+                await this.expand(security, weight, asOf, securities, exposures, new Set());
+            }
+        }
+
+        const portfolio = await this.portfolioService.getOne(id);
+        return this.toLookThrough(portfolio.name, total, exposures);
+    }
+
+    /**
+     * Adds the exposures of a security with the given weight: the constituents of a fund with a known composition, or
+     * the security itself otherwise.
+     *
+     * @param security the security
+     * @param weight the security's share of the total assets
+     * @param date the compositions on or before this date are used; the newest ones if not set
+     * @param securities the stored securities by ISIN, for their master data
+     * @param exposures the exposures to add to
+     * @param path the IDs of the funds already being expanded, to break cycles
+     */
+    private async expand(
+        security: Security,
+        weight: number,
+        date: Date | undefined,
+        securities: Map<string, Security>,
+        exposures: Exposures,
+        path: Set<number>
+    ): Promise<void> {
+        const isFund = security.type === SecurityType.EQUITY_FUND || security.type === SecurityType.ETF;
+        const composition = isFund && !path.has(security.id) ? await this.load(security, date) : undefined;
+        if (!composition) {
+            this.add(exposures, weight, security.isin, security.name, security.sector, security.country);
+            return;
+        }
+
+        const inner = new Set(path).add(security.id);
+        let total = 0;
+        for (const holding of composition.holdings) {
+            const holdingWeight = weight * Number(holding.weight);
+            total += Number(holding.weight);
+
+            const underlying = holding.isin ? securities.get(holding.isin) : undefined;
+            if (underlying) {
+                await this.expand(underlying, holdingWeight, date, securities, exposures, inner);
+            } else {
+                this.add(
+                    exposures,
+                    holdingWeight,
+                    holding.isin ?? holding.name ?? null,
+                    holding.name ?? null,
+                    holding.sector ?? null,
+                    holding.country ?? null
+                );
+            }
+        }
+        exposures.uncovered += weight * Math.max(0, 1 - total);
+    }
+
+    private add(
+        exposures: Exposures,
+        weight: number,
+        key: string | null,
+        name: string | null,
+        sector: string | null,
+        country: string | null
+    ): void {
+        const underlying = exposures.underlyings.get(key);
+        if (underlying) {
+            underlying.weight += weight;
+        } else {
+            exposures.underlyings.set(key, { key: key, name: name, weight: weight, value: null });
+        }
+
+        for (const [map, group] of [
+            [exposures.sectors, sector],
+            [exposures.countries, country]
+        ] as const) {
+            const exposure = map.get(group);
+            if (exposure) {
+                exposure.weight += weight;
+            } else {
+                map.set(group, { key: group, weight: weight, value: null });
+            }
+        }
+    }
+
+    private createExposures(): Exposures {
+        return { underlyings: new Map(), sectors: new Map(), countries: new Map(), uncovered: 0 };
+    }
+
+    private toLookThrough(source: string, marketValue: number | null, exposures: Exposures): LookThroughDTO {
+        const toList = (map: Map<string | null, ExposureDTO>): ExposureDTO[] =>
+            [...map.values()]
+                .map((e) => ({ ...e, value: marketValue === null ? null : e.weight * marketValue }))
+                .sort((a, b) => b.weight - a.weight);
+
+        return {
+            source: source,
+            marketValue: marketValue,
+            uncovered: exposures.uncovered,
+            byUnderlying: toList(exposures.underlyings),
+            bySector: toList(exposures.sectors),
+            byCountry: toList(exposures.countries)
+        };
+    }
+
+    /**
+     * Loads the newest composition of a fund on or before the date.
+     *
+     * @returns the composition, or undefined if there is none
+     */
+    private async load(fund: Security, date?: Date): Promise<Composition | undefined> {
+        const newest = await this.repository.findOne({
+            where: date ? { fund: fund, date: LessThanOrEqual(date) } : { fund: fund },
+            order: { date: "DESC" }
+        });
+        if (!newest) {
+            return undefined;
+        }
+
+        const holdings = await this.repository.find({
+            where: { fund: fund, date: newest.date },
+            order: { weight: "DESC", id: "ASC" }
+        });
+        return { date: newest.date, holdings: holdings };
+    }
+
+    private async getSecurities(): Promise<Map<string, Security>> {
+        return new Map((await this.securityService.getAll()).map((s) => [s.isin, s]));
+    }
+
+    /**
+     * Converts the items of a composition to entities after checking them.
+     */
+    private toHoldings(items: FundHoldingItem[], fund: Security, date: Date): FundHolding[] {
+        let total = 0;
+        const holdings = items.map((item, i) => {
+            const position = `Holding ${i + 1}`;
+            if (!item.isin && !item.name) {
+                throw new Error(`${position} needs an ISIN or a name`);
+            }
+            if (item.isin && item.isin.length !== 12) {
+                throw new Error(`${position}: ISIN must be exactly 12 characters long`);
+            }
+            if (typeof item.weight !== "number" || !(item.weight > 0) || item.weight > 1) {
+                throw new RangeError(`${position}: weight must be a fraction between 0 and 1`);
+            }
+            if (item.country && !/^[A-Z]{2}$/.test(item.country)) {
+                throw new Error(`${position}: country must be a two-letter ISO 3166-1 code`);
+            }
+            total += item.weight;
+
+            const holding = new FundHolding();
+            holding.fund = fund;
+            holding.date = date;
+            holding.isin = item.isin ?? null;
+            holding.name = item.name ?? null;
+            holding.weight = item.weight;
+            holding.country = item.country ?? null;
+            holding.sector = item.sector ?? null;
+            return holding;
+        });
+
+        if (total > 1 + WEIGHT_TOLERANCE) {
+            throw new RangeError(`The weights of ${fund.isin} add up to more than 100%`);
+        }
+        return holdings;
+    }
+}
+
+export { FundCompositionService };
@@ -0,0 +1,123 @@
+import config from "config";
+import moment from "moment";
+import { Service } from "typedi";
+import { Brackets, getRepository, Repository } from "typeorm";
+
+import { AddFxRatesRequest, FxRateItem } from "../dtos";
+import { FxRate } from "../entities";
+import { CurrencyConverter } from "../utils";
+
+@Service()
+class FxRateService {
+    private repository: Repository<FxRate>;
+
+    constructor() {
+        this.repository = getRepository<FxRate>(FxRate, config.get("ormconfig.connection"));
+    }
+
+    async get(
+        baseCurrency: string,
+        quoteCurrency: string,
+        startDate?: string,
+        endDate?: string
+    ): Promise<FxRateItem[]> {
+        const query = this.repository
+            .createQueryBuilder("fx")
+            .where("fx.baseCurrency = :base", { base: baseCurrency })
+            .andWhere("fx.quoteCurrency = :quote", { quote: quoteCurrency })
+            .orderBy("fx.date");
+
+        if (startDate) {
+            query.andWhere("fx.date >= :start", { start: moment(startDate).format("YYYY-MM-DD") });
+        }
+        if (endDate) {
+            query.andWhere("fx.date <= :end", { end: moment(endDate).format("YYYY-MM-DD") });
+        }
+
+        return query.getMany().then((rates) => rates.map((fx) => ({ date: fx.date, rate: Number(fx.rate) })));
+    }
+
+    /**
+     * Inserts the exchange rates, or updates those that already exist for the same date and currency pair.
+     *
+     * @param data the exchange rates of a single currency pair
+     */
+    async add(data: AddFxRatesRequest): Promise<void> {
+        if (data.baseCurrency === data.quoteCurrency) {
+            throw new Error("Base and quote currency must differ");
+        }
+
+        const itemList: FxRate[] = data.rates.map((item: FxRateItem) => {
+            if (!(item.rate > 0)) {
+                throw new RangeError(`Invalid exchange rate for ${item.date}: ${item.rate}`);
+            }
+
+            const fx = new FxRate();
+            fx.date = item.date;
+            fx.baseCurrency = data.baseCurrency;
+            fx.quoteCurrency = data.quoteCurrency;
+            fx.rate = item.rate;
+            return fx;
+        });
+
+        if (itemList.length === 0) {
+            return;
+        }
+
+        await this.repository
+            .createQueryBuilder()
+            .insert()
+            .values(itemList)
+            .orUpdate({ conflict_target: ["date", "baseCurrency", "quoteCurrency"], overwrite: ["rate"] })
+            .execute();
+    }
+
+    /**
+     * Creates a converter from the given currencies into the target currency. Rates stored for the inverse currency
+     * pair are used as well.
+     *
+     * @param targetCurrency the currency to convert into
+     * @param currencies the currencies to convert from
+     * @returns the currency converter
+     */
+    async getConverter(targetCurrency: string, currencies: string[]): Promise<CurrencyConverter> {
+        const converter = new CurrencyConverter(targetCurrency);
+        const sources = [...new Set(currencies)].filter((c) => c !== targetCurrency);
+        if (sources.length === 0) {
+            return converter;
+        }
+
+        const rates: FxRate[] = await this.repository
+            .createQueryBuilder("fx")
+            .where(
+                new Brackets((qb) =>
+                    qb
+                        .where("fx.baseCurrency IN (:...sources)", { sources: sources })
+                        .andWhere("fx.quoteCurrency = :target", { target: targetCurrency })
+                )
+            )
+            .orWhere(
+                new Brackets((qb) =>
+                    qb
+                        .where("fx.baseCurrency = :target", { target: targetCurrency })
+                        .andWhere("fx.quoteCurrency IN (:...sources)", { sources: sources })
+                )
+            )
+            .getMany();
+
+        for (const currency of sources) {
+            converter.addRates(currency, [
+                ...rates
+                    .filter((fx) => fx.baseCurrency === currency)
+                    .map((fx) => ({ date: new Date(fx.date), rate: Number(fx.rate) })),
+                ...rates
+                    .filter((fx) => fx.quoteCurrency === currency)
+                    .map((fx) => ({ date: new Date(fx.date), rate: 1 / Number(fx.rate) }))
+            ]);
+        }
+
+        return converter;
+    }
+}
+
+export { FxRateService };
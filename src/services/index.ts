@@ -1,9 +1,55 @@
+export { AlertService } from "./alert.service";
+export { ApiPrincipal, AuditTrailFilter, AuthService } from "./auth.service";
+export { BacktestService } from "./backtest.service";
+export { BenchmarkService, ComparisonPoint, RelativePerformanceData } from "./benchmark.service";
+export {
+    CertificateEvaluationData,
+    CertificateEvaluationOptions,
+    CertificateEvaluationService
+} from "./certificate-evaluation.service";
+export { ChangeHistoryFilter, ChangeHistoryService } from "./change-history.service";
+export { CorporateActionService } from "./corporate-action-service";
+export {
+    DataQualityData,
+    DataQualityDetails,
+    DataQualityOptions,
+    DataQualityService,
+    PriceJump,
+    QuoteGap
+} from "./data-quality.service";
 export { ExchangeService } from "./exchange-service";
+export { ExportService } from "./export.service";
+export { FundCompositionService } from "./fund-composition.service";
+export { FxRateService } from "./fx-rate-service";
+export { IndicatorService } from "./indicator.service";
+export { ListingFilter, ListingService } from "./listing.service";
 export {
     PerformanceEvaluationService,
+    PerformanceGroupData,
+    PerformanceGrouping,
     PerformanceInterval,
-    PerformanceResponseData
+    PerformanceResponseData,
+    PerformanceTableRow
 } from "./performance-evaluation.service";
-export { QuoteDataService } from "./quote-service";
-export { RSLevyAlgorithm, RSLevyResponseData, RSLevyService } from "./rsleval.service";
+export { PortfolioReturnService } from "./portfolio-return.service";
+export { PortfolioService } from "./portfolio-service";
+export { QuoteImportService } from "./quote-import.service";
+export { IngestionSummary, ProviderRunFilter, ProviderStatus, QuoteIngestionService } from "./quote-ingestion.service";
+export {
+    CloseSeriesOptions,
+    ClosingPrice,
+    ListingID,
+    ListingInfo,
+    QuoteDataService,
+    QuoteStreamOptions
+} from "./quote-service";
+export { CorrelationMatrixData, ReturnFrequency, RiskOptions, RiskService, RiskStatisticsData } from "./risk.service";
+export {
+    RSLevyAlgorithm,
+    RSLevyRankingData,
+    RSLevyResponseData,
+    RSLevySeriesData,
+    RSLevyService
+} from "./rsleval.service";
 export { SecuritiesService } from "./security-service";
+export { WatchlistService } from "./watchlist-service";
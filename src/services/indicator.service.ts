@@ -0,0 +1,154 @@
+import moment from "moment";
+import { Service } from "typedi";
+
+import { IndicatorOptions, IndicatorPointDTO, IndicatorType, PriceAdjustmentOptions, QuoteDataDTO } from "../dtos";
+import { atr, bollinger, ema, IndicatorSeries, macd, OHLCBar, resampleBars, rsi, rsl, sma, volatility } from "../utils";
+import { QuoteDataService } from "./quote-service";
+
+const INDICATOR_TYPES: IndicatorType[] = ["sma", "ema", "rsi", "macd", "bollinger", "atr", "volatility", "rsl"];
+
+/**
+ * The warm-up of the exponentially smoothed indicators in multiples of their period. They depend on the whole history,
+ * but the influence of older values fades, so that this many periods give practically the same values.
+ */
+const SMOOTHING_WARM_UP = 10;
+
+@Service()
+class IndicatorService {
+    constructor(private quoteService: QuoteDataService) {}
+
+    /**
+     * Computes an indicator time series for a security and exchange combination. Only the quotes needed for the warm-up
+     * before the start date are loaded, so the series has values from the start date on if there's enough history.
+     *
+     * @param isin the security's ISIN
+     * @param exchangeID the exchange ID
+     * @param type the indicator
+     * @param options the indicator parameters
+     * @param startDate the first date of the returned series; the complete history if not set
+     * @param endDate the last date of the returned series; the newest quote if not set
+     * @param adjustment whether to compute the indicator on split- (and dividend-) adjusted prices
+     * @returns the indicator values, ordered by date
+     */
+    async getIndicator(
+        isin: string,
+        exchangeID: number,
+        type: IndicatorType,
+        options: IndicatorOptions = {},
+        startDate?: string,
+        endDate?: string,
+        adjustment?: PriceAdjustmentOptions
+    ): Promise<IndicatorPointDTO[]> {
+        if (!INDICATOR_TYPES.includes(type)) {
+            throw new Error(`Unknown indicator: ${type}`);
+        }
+        const weekly = options.interval === "weekly";
+        if (options.interval && !weekly && options.interval !== "daily") {
+            throw new Error(`Unknown interval: ${options.interval}`);
+        }
+
+        const start = startDate ? moment(startDate).startOf("day") : undefined;
+        const end = endDate ? moment(endDate).endOf("day") : undefined;
+
+        const lookback = this.getLookback(type, options, weekly);
+        // trading days are roughly 5/7 of the calendar days; the margin covers holidays and missing quotes
+        const first = start
+            ? start
+                  .clone()
+                  .subtract(weekly ? lookback + 1 : Math.ceil((lookback * 7) / 5) + 30, weekly ? "weeks" : "days")
+            : undefined;
+
+        const quotes: QuoteDataDTO[] = [];
+        const stream = this.quoteService.stream(isin, exchangeID, {
+            startDate: first?.format("YYYY-MM-DD"),
+            endDate: end?.format("YYYY-MM-DD"),
+            adjustment: adjustment
+        });
+        for await (const quote of stream) {
+            if (end && end.isBefore(quote.date)) {
+                break;
+            }
+            quotes.push(quote);
+        }
+
+        // weekly bars have the date and close of the week's last trading day
+        const bars: OHLCBar[] = [];
+        for await (const bar of weekly ? resampleBars(quotes, "week") : quotes) {
+            bars.push(bar);
+        }
+        const lines = this.compute(type, options, bars, weekly);
+
+        const result: IndicatorPointDTO[] = [];
+        bars.forEach((bar, i) => {
+            if (start && start.isAfter(bar.date)) {
+                return;
+            }
+            const point: IndicatorPointDTO = { date: bar.date };
+            for (const [name, series] of Object.entries(lines)) {
+                point[name] = series[i];
+            }
+            result.push(point);
+        });
+        return result;
+    }
+
+    /**
+     * Determines the number of bars an indicator needs before its first value.
+     */
+    private getLookback(type: IndicatorType, options: IndicatorOptions, weekly: boolean): number {
+        switch (type) {
+            case "sma":
+            case "bollinger":
+                return options.period ?? 20;
+            case "volatility":
+                // the returns need one more close
+                return (options.period ?? 20) + 1;
+            case "rsl":
+                return options.period ?? (weekly ? 27 : 200);
+            case "ema":
+                return SMOOTHING_WARM_UP * (options.period ?? 20);
+            case "rsi":
+            case "atr":
+                return SMOOTHING_WARM_UP * (options.period ?? 14) + 1;
+            case "macd":
+                return SMOOTHING_WARM_UP * ((options.slow ?? 26) + (options.signal ?? 9));
+        }
+    }
+
+    private compute(
+        type: IndicatorType,
+        options: IndicatorOptions,
+        bars: OHLCBar[],
+        weekly: boolean
+    ): { [line: string]: IndicatorSeries } {
+        const closes = bars.map((b) => b.close);
+
+        switch (type) {
+            case "sma":
+                return { value: sma(closes, options.period ?? 20) };
+            case "ema":
+                return { value: ema(closes, options.period ?? 20) };
+            case "rsi":
+                return { value: rsi(closes, options.period ?? 14) };
+            case "macd":
+                return { ...macd(closes, options.fast ?? 12, options.slow ?? 26, options.signal ?? 9) };
+            case "bollinger":
+                return { ...bollinger(closes, options.period ?? 20, options.deviations ?? 2) };
+            case "atr":
+                return {
+                    value: atr(
+                        bars.map((b) => b.high),
+                        bars.map((b) => b.low),
+                        closes,
+                        options.period ?? 14
+                    )
+                };
+            case "volatility":
+                return { value: volatility(closes, options.period ?? 20, weekly ? 52 : 252) };
+            case "rsl":
+                return { value: rsl(closes, options.period ?? (weekly ? 27 : 200)) };
+        }
+    }
+}
+
+export { IndicatorService };
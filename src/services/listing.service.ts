@@ -0,0 +1,305 @@
+import config from "config";
+import { Service } from "typedi";
+import { getRepository, Repository } from "typeorm";
+
+import { CreateListingRequest, ListingDTO, ListingQuoteDataDTO, ListingSelection } from "../dtos";
+import { Listing, ListingStatus } from "../entities";
+import { splitByGivenFields, validateRequests } from "../utils";
+import { ExchangeService } from "./exchange-service";
+import { ListingInfo, QuoteDataService, QuoteStreamOptions } from "./quote-service";
+import { SecuritiesService } from "./security-service";
+
+/** the exchange-specific data that is only overwritten if a request gives it */
+const OPTIONAL_LISTING_FIELDS = ["nsin", "ticker", "preferred", "status"] as const;
+
+/** decides whether an evaluation includes a listing, given by the security's ISIN and the exchange name */
+type ListingFilter = (isin: string, exchangeName: string) => boolean;
+
+@Service()
+class ListingService {
+    private repository: Repository<Listing>;
+
+    constructor(
+        private quoteService: QuoteDataService,
+        private securityService: SecuritiesService,
+        private exchangeService: ExchangeService
+    ) {
+        this.repository = getRepository<Listing>(Listing, config.get("ormconfig.connection"));
+    }
+
+    /**
+     * Returns the listings: all security/exchange combinations with quotes, and those registered without quotes yet.
+     * Each security has exactly one preferred listing: the one marked as preferred unless it was delisted, or else the
+     * active listing with the most quotes.
+     *
+     * @param isin restricts the listings to a security
+     * @returns the listings, ordered by ISIN with the preferred listing first
+     */
+    async getListings(isin?: string): Promise<ListingDTO[]> {
+        const entries = await this.repository.find({ relations: ["security", "exchange"] });
+        const counts = new Map(
+            (await this.quoteService.getQuoteCount(isin ? [isin] : undefined)).map((c) => [
+                `${c.isin}@${c.exchange}`,
+                c.count
+            ])
+        );
+        const newestDates = new Map(
+            (await this.quoteService.getNewestQuotes()).map((q) => [`${q.securityID}@${q.exchangeID}`, q.date])
+        );
+        const securities = new Map((await this.securityService.getAll()).map((s) => [s.isin, s]));
+
+        const listings = new Map<string, ListingDTO>();
+        for (const l of await this.quoteService.getListings()) {
+            listings.set(`${l.isin}@${l.exchangeName}`, {
+                isin: l.isin,
+                securityName: l.securityName,
+                exchangeID: l.exchangeID,
+                exchangeName: l.exchangeName,
+                nsin: securities.get(l.isin)?.nsin ?? "",
+                ticker: null,
+                preferred: false,
+                status: ListingStatus.ACTIVE,
+                quoteCount: counts.get(`${l.isin}@${l.exchangeName}`) ?? 0,
+                newestDate: newestDates.get(`${l.securityID}@${l.exchangeID}`) ?? null
+            });
+        }
+
+        const marked = new Set<string>();
+        for (const entry of entries) {
+            const key = `${entry.security.isin}@${entry.exchange.name}`;
+            const listing: ListingDTO = listings.get(key) ?? {
+                isin: entry.security.isin,
+                securityName: entry.security.name,
+                exchangeID: entry.exchange.id,
+                exchangeName: entry.exchange.name,
+                nsin: entry.security.nsin,
+                ticker: null,
+                preferred: false,
+                status: entry.status,
+                quoteCount: 0,
+                newestDate: null
+            };
+            listing.nsin = entry.nsin ?? listing.nsin;
+            listing.ticker = entry.ticker ?? null;
+            listing.status = entry.status;
+            if (entry.preferred && entry.status !== ListingStatus.DELISTED) {
+                listing.preferred = true;
+                marked.add(listing.isin);
+            }
+            listings.set(key, listing);
+        }
+
+        const result = [...listings.values()].filter((l) => !isin || l.isin === isin);
+        // securities without a marked listing prefer the active one with the most quotes
+        const fallbacks = new Map<string, ListingDTO>();
+        for (const listing of result) {
+            if (marked.has(listing.isin)) {
+                continue;
+            }
+            const best = fallbacks.get(listing.isin);
+            if (!best || this.compare(listing, best) < 0) {
+                fallbacks.set(listing.isin, listing);
+            }
+        }
+        for (const listing of fallbacks.values()) {
+            listing.preferred = true;
+        }
+
+        return result.sort(
+            (a, b) => a.isin.localeCompare(b.isin) || Number(b.preferred) - Number(a.preferred) || this.compare(a, b)
+        );
+    }
+
+    /**
+     * Adds or updates the exchange-specific data of listings. Preferring a listing makes the security's other listings
+     * non-preferred; delisting a listing makes it non-preferred.
+     *
+     * @param data the listing request (or list of requests)
+     */
+    async addOrUpdate(data: CreateListingRequest | CreateListingRequest[]): Promise<void> {
+        const requests = await validateRequests(CreateListingRequest, data);
+        const entries: Listing[] = [];
+        for (const req of requests) {
+            if (req.preferred && req.status === ListingStatus.DELISTED) {
+                throw new Error(`The delisted listing of ${req.isin} on ${req.exchange} can't be preferred`);
+            }
+            const listing = new Listing();
+            listing.security = await this.securityService.getOne({ isin: req.isin });
+            listing.exchange = await this.exchangeService.getOne({ name: req.exchange }).catch(() => {
+                throw new Error(`Unknown exchange: ${req.exchange}`);
+            });
+            if (req.nsin !== undefined) {
+                listing.nsin = req.nsin;
+            }
+            if (req.ticker !== undefined) {
+                listing.ticker = req.ticker;
+            }
+            if (req.preferred !== undefined) {
+                listing.preferred = req.preferred;
+            }
+            if (req.status !== undefined) {
+                listing.status = req.status;
+                if (req.status === ListingStatus.DELISTED) {
+                    listing.preferred = false;
+                }
+            }
+            entries.push(listing);
+        }
+        const preferred = entries.filter((l) => l.preferred);
+        if (new Set(preferred.map((l) => l.security.id)).size < preferred.length) {
+            throw new Error("Only one listing per security can be preferred");
+        }
+
+        // both happen or neither, so a security never ends up with two preferred listings
+        await this.repository.manager.transaction(async (manager) => {
+            // only overwrite the columns a listing actually gives; they would be reset otherwise
+            for (const run of splitByGivenFields(
+                entries,
+                OPTIONAL_LISTING_FIELDS,
+                (l, field) => l[field] !== undefined
+            )) {
+                await manager
+                    .createQueryBuilder()
+                    .insert()
+                    .into(Listing)
+                    .values(run.items)
+                    .orUpdate({
+                        conflict_target: ["securityId", "exchangeId"],
+                        overwrite: [
+                            "securityId", // workaround since empty overwrite doesn't work
+                            ...run.fields
+                        ]
+                    })
+                    .execute();
+            }
+
+            for (const listing of preferred) {
+                await manager
+                    .createQueryBuilder()
+                    .update(Listing)
+                    .set({ preferred: false })
+                    .where("securityId = :security AND exchangeId != :exchange", {
+                        security: listing.security.id,
+                        exchange: listing.exchange.id
+                    })
+                    .execute();
+            }
+        });
+    }
+
+    /**
+     * Creates a filter selecting the listings an evaluation includes.
+     *
+     * @param selection whether to include all listings that aren't delisted or only the preferred one of each security
+     * @param securities restricts the listings to these ISINs; all securities if not set
+     * @returns the filter, or undefined if all listings are included
+     */
+    async getFilter(selection: ListingSelection = "all", securities?: Set<string>): Promise<ListingFilter | undefined> {
+        if (selection !== "all" && selection !== "preferred") {
+            throw new Error(`Unknown listing selection: ${selection}`);
+        }
+        const delisted = new Set(
+            (
+                await this.repository.find({
+                    where: { status: ListingStatus.DELISTED },
+                    relations: ["security", "exchange"]
+                })
+            ).map((l) => `${l.security.isin}@${l.exchange.name}`)
+        );
+        if (selection === "all" && !securities && delisted.size === 0) {
+            return undefined;
+        }
+
+        const preferred =
+            selection === "preferred"
+                ? new Set(
+                      (await this.getListings()).filter((l) => l.preferred).map((l) => `${l.isin}@${l.exchangeName}`)
+                  )
+                : undefined;
+        return (isin: string, exchangeName: string) =>
+            (!securities || securities.has(isin)) &&
+            (preferred ? preferred.has(`${isin}@${exchangeName}`) : !delisted.has(`${isin}@${exchangeName}`));
+    }
+
+    /**
+     * Looks up the listings given as ISIN or as "ISIN@exchange". For ISINs without exchange, the preferred listing is
+     * used.
+     *
+     * @param ids the listing identifiers
+     * @returns the listings, in the same order as the identifiers
+     */
+    async resolveListings(ids: string[]): Promise<ListingInfo[]> {
+        const listings = await this.quoteService.getListings();
+        const preferred = new Set(
+            (await this.getListings()).filter((l) => l.preferred).map((l) => `${l.isin}@${l.exchangeName}`)
+        );
+        return ids.map((id) => {
+            const [isin, exchangeName] = id.split("@");
+            const listing =
+                exchangeName === undefined
+                    ? listings.find((l) => l.isin === isin && preferred.has(`${l.isin}@${l.exchangeName}`)) ??
+                      // the preferred listing may not have quotes yet
+                      listings.find((l) => l.isin === isin)
+                    : listings.find((l) => l.isin === isin && l.exchangeName === exchangeName);
+            if (!listing) {
+                throw new Error(`No quotes for ${id}`);
+            }
+            return listing;
+        });
+    }
+
+    /**
+     * Determines the listings whose quotes are returned for a security when the exchange isn't known.
+     *
+     * @param isin the security's ISIN
+     * @param selection whether to use all listings with quotes that aren't delisted or only the preferred one
+     * @param exchangeName selects a single listing by exchange name instead, even a delisted one
+     * @returns the listings, the preferred one first
+     */
+    async getQuoteListings(isin: string, selection: ListingSelection, exchangeName?: string): Promise<ListingDTO[]> {
+        if (selection !== "all" && selection !== "preferred") {
+            throw new Error(`Unknown listing selection: ${selection}`);
+        }
+        // the preferred listing comes first, so without quotes the next best one takes its place
+        const withQuotes = (await this.getListings(isin)).filter((l) => l.quoteCount > 0);
+        const listings = exchangeName
+            ? withQuotes.filter((l) => l.exchangeName === exchangeName)
+            : selection === "all"
+            ? withQuotes.filter((l) => l.status !== ListingStatus.DELISTED)
+            : withQuotes.slice(0, 1);
+        if (listings.length === 0) {
+            throw new Error(`No quotes for ${isin}${exchangeName ? ` on ${exchangeName}` : ""}`);
+        }
+        return listings;
+    }
+
+    /**
+     * Streams the quotes of several listings of a security, one listing after the other.
+     *
+     * @param isin the security's ISIN
+     * @param listings the listings, e.g. from `getQuoteListings`
+     * @param options the date range, the price adjustment, the currency, and the interval
+     * @returns the quotes, each with its exchange's name
+     */
+    async *streamQuotes(
+        isin: string,
+        listings: ListingDTO[],
+        options: QuoteStreamOptions = {}
+    ): AsyncGenerator<ListingQuoteDataDTO> {
+        for (const listing of listings) {
+            for await (const quote of this.quoteService.stream(isin, listing.exchangeID, options)) {
+                yield { exchange: listing.exchangeName, ...quote };
+            }
+        }
+    }
+
+    /**
+     * Orders listings by preference: active ones first, then by the number of quotes, then by exchange ID.
+     */
+    private compare(a: ListingDTO, b: ListingDTO): number {
+        const inactive = (l: ListingDTO) => (l.status === ListingStatus.ACTIVE ? 0 : 1);
+        return inactive(a) - inactive(b) || b.quoteCount - a.quoteCount || a.exchangeID - b.exchangeID;
+    }
+}
+
+export { ListingFilter, ListingService };
@@ -1,41 +1,121 @@
 import config from "config";
+import moment from "moment";
 import { Service } from "typedi";
 import { Connection, getConnection, SelectQueryBuilder } from "typeorm";
+import { PriceAdjustmentOptions } from "../dtos";
 import { QuoteData } from "../entities";
-import { QuoteDataService } from "./quote-service";
+import { annualize, CurrencyConverter, DAY_MS, getPeriodRange, PriceAdjustments, TradingCalendar } from "../utils";
+import { BenchmarkService, NO_BENCHMARK, PerformanceWindow, RelativePerformanceData } from "./benchmark.service";
+import { CorporateActionService } from "./corporate-action-service";
+import { ExchangeService } from "./exchange-service";
+import { FxRateService } from "./fx-rate-service";
+import { ListingFilter } from "./listing.service";
+import { ClosingPrice, ListingInfo, QuoteDataService } from "./quote-service";
+import { SecuritiesService } from "./security-service";
 
 type PerformanceInterval = {
     unit: "day" | "month" | "year";
     count: number;
 };
 
-type PerformanceResponseData = {
+type PerformanceResponseData = RelativePerformanceData & {
     securityISIN: string;
     securityName: string;
     instrumentType: string;
     exchangeName: string;
+    /** the currency the performance is measured in */
+    currency: string;
     newestDate: Date;
     performance: number;
 };
 
+/**
+ * One row of the performance table. Besides the listing's data, it has one column per period with the performance (e.g.
+ * "perf1M", "perfYTD", "perf2020"), and for periods that may be longer than a year an additional annualized column (e.g.
+ * "perf3YAnnualized"). Periods without enough history are null.
+ */
+type PerformanceTableRow = {
+    securityISIN: string;
+    securityName: string;
+    instrumentType: string;
+    exchangeName: string;
+    currency: string;
+    newestDate: Date;
+    [column: string]: string | Date | number | null;
+};
+
+/** the security attributes the listings can be grouped by */
+type PerformanceGrouping = "type" | "country" | "sector" | "industry" | "tag";
+
+/** the performance statistics of a group of listings; a listing with several tags is counted in each tag's group */
+type PerformanceGroupData = {
+    /** null for the listings without the attribute */
+    group: string | null;
+    listings: number;
+    averagePerformance: number;
+    medianPerformance: number;
+    bestISIN: string;
+    bestPerformance: number;
+    worstISIN: string;
+    worstPerformance: number;
+};
+
+const GROUPINGS: PerformanceGrouping[] = ["type", "country", "sector", "industry", "tag"];
+
+const DEFAULT_TABLE_PERIODS = ["1m", "3m", "6m", "1y", "3y", "ytd"];
+
+/** how many trading days before a period's start the base close may be, to bridge missing quotes */
+const MAX_BASE_GAP_TRADING_DAYS = 21;
+
 @Service()
 class PerformanceEvaluationService {
     private connection: Connection;
 
-    constructor(private service: QuoteDataService) {
+    constructor(
+        private service: QuoteDataService,
+        private corporateActionService: CorporateActionService,
+        private fxRateService: FxRateService,
+        private benchmarkService: BenchmarkService,
+        private exchangeService: ExchangeService,
+        private securitiesService: SecuritiesService
+    ) {
         this.connection = getConnection(config.get("ormconfig.connection"));
     }
 
-    async getPerformanceData(interval: PerformanceInterval): Promise<PerformanceResponseData[]> {
-        return this.connection
+    /**
+     * Determines the performance of all security/exchange combinations over the given interval.
+     *
+     * @param interval the interval, counting back from each listing's newest date
+     * @param adjustment whether to compute the performance on split- (and dividend-) adjusted prices
+     * @param currency the currency to measure the performance in, including the effect of exchange rate changes; uses
+     *        each exchange's own currency if not set
+     * @param benchmark the ISIN of the benchmark to compare all listings with; uses each security's default benchmark
+     *        if not set
+     * @returns the performance data, including the performance relative to the benchmark
+     */
+    async getPerformanceData(
+        interval: PerformanceInterval,
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string,
+        benchmark?: string
+    ): Promise<PerformanceResponseData[]> {
+        const adjustments: PriceAdjustments | undefined = adjustment?.adjusted
+            ? await this.corporateActionService.getPriceAdjustments(adjustment)
+            : undefined;
+
+        const rawData = await this.connection
             .createQueryBuilder()
             .select([
+                "sid",
+                "eid",
                 "s.isin AS isin",
                 "s.name AS sname",
                 "s.type AS itype",
                 "e.name AS ename",
+                "e.currency AS currency",
                 "newest_date",
-                "(newest_price / q.quote - 1) AS performance"
+                "base_date",
+                "(newest_price / q.close - 1) AS performance"
             ])
             .from(QuoteData, "q")
             .leftJoin("q.security", "s")
@@ -46,17 +126,258 @@ class PerformanceEvaluationService {
                 "q.securityId = sid AND q.exchangeId = eid"
             )
             .where("q.date = base_date")
-            .getRawMany()
-            .then((rawData) =>
-                rawData.map((x) => ({
-                    securityISIN: x.isin,
-                    securityName: x.sname,
-                    instrumentType: x.itype,
-                    exchangeName: x.ename,
-                    newestDate: new Date(x.newest_date),
-                    performance: Number(x.performance)
-                }))
-            );
+            .getRawMany();
+
+        const converter: CurrencyConverter | undefined = currency
+            ? await this.fxRateService.getConverter(
+                  currency,
+                  rawData.map((x) => x.currency)
+              )
+            : undefined;
+
+        const calendars = await this.exchangeService.getCalendars();
+        const start = (date: Date) => moment(date).subtract(interval.count, interval.unit).toDate();
+        const windows: PerformanceWindow[] = rawData
+            .filter((x) =>
+                this.isValidBase(calendars.get(x.eid), new Date(x.base_date), start(new Date(x.newest_date)))
+            )
+            .map((x) => {
+                const baseDate = new Date(x.base_date);
+                const newestDate = new Date(x.newest_date);
+
+                let performance = Number(x.performance);
+                if (adjustments) {
+                    // the base price needs to be expressed in terms of the newest price's share basis
+                    const factor =
+                        adjustments.getFactor(x.sid, x.eid, baseDate) / adjustments.getFactor(x.sid, x.eid, newestDate);
+                    performance = (1 + performance) / factor - 1;
+                }
+                if (converter) {
+                    const fxChange =
+                        converter.getRate(x.currency, newestDate) / converter.getRate(x.currency, baseDate);
+                    performance = (1 + performance) * fxChange - 1;
+                }
+
+                return {
+                    listing: {
+                        securityID: x.sid,
+                        exchangeID: x.eid,
+                        isin: x.isin,
+                        securityName: x.sname,
+                        instrumentType: x.itype,
+                        exchangeName: x.ename,
+                        currency: x.currency
+                    },
+                    baseDate: baseDate,
+                    newestDate: newestDate,
+                    performance: performance
+                };
+            });
+
+        const relative = await this.benchmarkService.getRelativePerformance(windows, benchmark, adjustment, currency);
+
+        return windows.map((w) => ({
+            securityISIN: w.listing.isin,
+            securityName: w.listing.securityName,
+            instrumentType: w.listing.instrumentType,
+            exchangeName: w.listing.exchangeName,
+            currency: converter ? converter.targetCurrency : w.listing.currency,
+            newestDate: w.newestDate,
+            performance: w.performance,
+            ...(relative.get(`${w.listing.securityID}@${w.listing.exchangeID}`) ?? NO_BENCHMARK)
+        }));
+    }
+
+    /**
+     * Aggregates the performance of the listings per group, e.g. per sector or country.
+     *
+     * @param interval the interval, counting back from each listing's newest date
+     * @param groupBy the security attribute to group by
+     * @param include restricts the listings to those it accepts; all listings if not set
+     * @param adjustment whether to compute the performance on split- (and dividend-) adjusted prices
+     * @param currency the currency to measure the performance in; uses each exchange's own currency if not set
+     * @returns one entry per group, ordered by the average performance (best first)
+     */
+    async getPerformanceGroups(
+        interval: PerformanceInterval,
+        groupBy: PerformanceGrouping,
+        include?: ListingFilter,
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<PerformanceGroupData[]> {
+        if (!GROUPINGS.includes(groupBy)) {
+            throw new Error(`Unknown grouping: ${groupBy}`);
+        }
+
+        const masterData = new Map((await this.securitiesService.getAll()).map((s) => [s.isin, s]));
+        const groups = new Map<string | null, PerformanceResponseData[]>();
+        for (const data of await this.getPerformanceData(interval, adjustment, currency)) {
+            if (include && !include(data.securityISIN, data.exchangeName)) {
+                continue;
+            }
+            const security = masterData.get(data.securityISIN);
+            const keys: (string | null)[] =
+                groupBy === "tag"
+                    ? security?.tags?.length
+                        ? security.tags
+                        : [null]
+                    : [(security && security[groupBy]) ?? null];
+            for (const key of keys) {
+                const list = groups.get(key);
+                if (list) {
+                    list.push(data);
+                } else {
+                    groups.set(key, [data]);
+                }
+            }
+        }
+
+        const result: PerformanceGroupData[] = [];
+        for (const [group, list] of groups) {
+            const sorted = [...list].sort((a, b) => a.performance - b.performance);
+            const middle = Math.floor(sorted.length / 2);
+            result.push({
+                group: group,
+                listings: sorted.length,
+                averagePerformance: sorted.reduce((sum, d) => sum + d.performance, 0) / sorted.length,
+                medianPerformance:
+                    sorted.length % 2 === 1
+                        ? sorted[middle].performance
+                        : (sorted[middle - 1].performance + sorted[middle].performance) / 2,
+                bestISIN: sorted[sorted.length - 1].securityISIN,
+                bestPerformance: sorted[sorted.length - 1].performance,
+                worstISIN: sorted[0].securityISIN,
+                worstPerformance: sorted[0].performance
+            });
+        }
+        return result.sort((a, b) => b.averagePerformance - a.averagePerformance);
+    }
+
+    /**
+     * Determines the performance of all security/exchange combinations over several periods at once. Unlike
+     * `getPerformanceData`, the closes are loaded only once for all periods.
+     *
+     * @param periods the period specifications supported by `getPeriodRange`, e.g. "1m", "3y", "ytd", "mtd", "2020",
+     *        or "max"; each period ends on the listing's newest date (calendar years at the end of that year)
+     * @param adjustment whether to compute the performance on split- (and dividend-) adjusted prices
+     * @param currency the currency to measure the performance in; uses each exchange's own currency if not set
+     * @returns one row per listing
+     */
+    async getPerformanceTable(
+        periods: string[] = DEFAULT_TABLE_PERIODS,
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<PerformanceTableRow[]> {
+        if (periods.length === 0) {
+            throw new Error("No periods given");
+        }
+
+        const listings: ListingInfo[] = await this.service.getListings();
+        const newestDates = new Map<string, Date>(
+            (await this.service.getNewestQuotes()).map((q) => [`${q.securityID}@${q.exchangeID}`, q.date])
+        );
+
+        // validates the periods and finds the oldest close any of them needs; "max" needs the complete history
+        let startTime = Infinity;
+        let completeHistory = false;
+        for (const date of newestDates.values()) {
+            for (const period of periods) {
+                const start = getPeriodRange(period, date).start;
+                if (start === null) {
+                    completeHistory = true;
+                } else {
+                    startTime = Math.min(startTime, start.valueOf());
+                }
+            }
+        }
+
+        const calendars = await this.exchangeService.getCalendars();
+        const series = await this.service.getCloseSeries(listings, {
+            // twice the gap in calendar days leaves enough room for weekends and holidays
+            startDate:
+                completeHistory || !isFinite(startTime)
+                    ? undefined
+                    : new Date(startTime - 2 * MAX_BASE_GAP_TRADING_DAYS * DAY_MS),
+            adjustment: adjustment,
+            currency: currency
+        });
+
+        const rows: PerformanceTableRow[] = [];
+        for (const listing of listings) {
+            const closes = series.get(`${listing.securityID}@${listing.exchangeID}`) ?? [];
+            if (closes.length === 0) {
+                continue;
+            }
+            const newest = closes[closes.length - 1];
+            const row: PerformanceTableRow = {
+                securityISIN: listing.isin,
+                securityName: listing.securityName,
+                instrumentType: listing.instrumentType,
+                exchangeName: listing.exchangeName,
+                currency: currency ?? listing.currency,
+                newestDate: newest.date
+            };
+
+            for (const period of periods) {
+                const range = getPeriodRange(period, newest.date);
+                const end = this.getCloseOnOrBefore(closes, range.end.valueOf());
+                const base = range.start ? this.getCloseOnOrBefore(closes, range.start.valueOf()) : closes[0];
+                const valid =
+                    base &&
+                    end &&
+                    base !== end &&
+                    (!range.start || this.isValidBase(calendars.get(listing.exchangeID), base.date, range.start));
+
+                const performance = valid && base && end ? end.close / base.close - 1 : null;
+                // the prefix keeps calendar years from becoming integer keys, which would change the column order
+                const column = `perf${period.trim().toUpperCase()}`;
+                row[column] = performance;
+                if (this.mayExceedYear(period)) {
+                    row[`${column}Annualized`] =
+                        performance !== null && base && end
+                            ? annualize(performance, (end.date.valueOf() - base.date.valueOf()) / DAY_MS)
+                            : null;
+                }
+            }
+            rows.push(row);
+        }
+
+        return rows;
+    }
+
+    /**
+     * Returns the newest close on or before the given time, or undefined if there's none.
+     */
+    private getCloseOnOrBefore(closes: ClosingPrice[], time: number): ClosingPrice | undefined {
+        let result: ClosingPrice | undefined;
+        for (const c of closes) {
+            if (c.date.valueOf() > time) {
+                break;
+            }
+            result = c;
+        }
+        return result;
+    }
+
+    /**
+     * Checks whether a base close is near enough to the period's start, i.e. whether at most a few trading days are
+     * missing in between. Weekends and holidays don't count, so the base close of a period starting on a holiday is
+     * simply the one before.
+     */
+    private isValidBase(calendar: TradingCalendar | undefined, baseDate: Date, start: Date): boolean {
+        return (calendar ?? new TradingCalendar()).countTradingDays(baseDate, start) <= MAX_BASE_GAP_TRADING_DAYS;
+    }
+
+    /**
+     * Determines whether a period can be longer than a year, i.e. whether it needs an annualized column.
+     */
+    private mayExceedYear(period: string): boolean {
+        const relative = /^(\d+)([dwmy])$/.exec(period.trim().toLowerCase());
+        if (relative) {
+            const days = { d: 1, w: 7, m: 30.44, y: 365.25 }[relative[2] as "d" | "w" | "m" | "y"];
+            return Number(relative[1]) * days > 366;
+        }
+        return period.trim().toLowerCase() === "max";
     }
 
     private getBaseDates(
@@ -84,7 +405,7 @@ class PerformanceEvaluationService {
 
     private getNewestPrices(qb: SelectQueryBuilder<QuoteData>): SelectQueryBuilder<QuoteData> {
         return qb
-            .select(["sid", "eid", "max_date AS newest_date", "q.quote AS newest_price"])
+            .select(["sid", "eid", "max_date AS newest_date", "q.close AS newest_price"])
             .from(QuoteData, "q")
             .leftJoin(
                 (qb) => this.service.getMinMaxDates(qb.subQuery()),
@@ -95,4 +416,11 @@ class PerformanceEvaluationService {
     }
 }
 
-export { PerformanceEvaluationService, PerformanceInterval, PerformanceResponseData };
+export {
+    PerformanceEvaluationService,
+    PerformanceGroupData,
+    PerformanceGrouping,
+    PerformanceInterval,
+    PerformanceResponseData,
+    PerformanceTableRow
+};
@@ -0,0 +1,231 @@
+import moment from "moment";
+import { Service } from "typedi";
+
+import { PortfolioReturnDTO } from "../dtos";
+import { PortfolioTransaction, TransactionType } from "../entities";
+import { annualize, CashFlow, DAY_MS, PeriodRange, PriceAdjustments, xirr } from "../utils";
+import { CorporateActionService } from "./corporate-action-service";
+import { PortfolioService } from "./portfolio-service";
+import { ClosingPrice, ListingID, QuoteDataService } from "./quote-service";
+
+/**
+ * The portfolio's market value at the end of a day, and the cash that flowed into it (purchases, fees) and out of it
+ * (sale proceeds, dividends) on that day.
+ */
+type Valuation = {
+    date: Date;
+    value: number;
+    inflow: number;
+    outflow: number;
+};
+
+type ListingState = ListingID & {
+    /** the number of shares, expressed in the share basis after all known splits */
+    shares: number;
+    /** the newest known price, expressed in the same share basis */
+    price: number;
+};
+
+@Service()
+class PortfolioReturnService {
+    constructor(
+        private portfolioService: PortfolioService,
+        private quoteService: QuoteDataService,
+        private corporateActionService: CorporateActionService
+    ) {}
+
+    /**
+     * Determines the time-weighted and money-weighted returns of a portfolio over a period.
+     *
+     * @param id the portfolio ID
+     * @param period the period specification, only used for the response
+     * @param getRange resolves the period from the newest valuation date
+     * @returns the returns
+     */
+    async getReturns(
+        id: number,
+        period: string,
+        getRange: (newestDate: Date) => PeriodRange
+    ): Promise<PortfolioReturnDTO> {
+        const valuations = await this.getValuations(id);
+        if (valuations.length === 0) {
+            throw new Error("The portfolio has no transactions");
+        }
+
+        return this.computeReturns(valuations, period, getRange(valuations[valuations.length - 1].date));
+    }
+
+    /**
+     * Determines the returns of a portfolio for each calendar year it existed in.
+     *
+     * @param id the portfolio ID
+     * @returns the returns by year, oldest first
+     */
+    async getYearlyReturns(id: number): Promise<PortfolioReturnDTO[]> {
+        const valuations = await this.getValuations(id);
+        if (valuations.length === 0) {
+            return [];
+        }
+
+        const newestDate = valuations[valuations.length - 1].date;
+        const result: PortfolioReturnDTO[] = [];
+        for (let year = valuations[0].date.getFullYear(); year <= newestDate.getFullYear(); ++year) {
+            const end = moment.min(moment({ year: year, month: 11, day: 31 }), moment(newestDate));
+            result.push(
+                this.computeReturns(valuations, `${year}`, {
+                    start: moment({ year: year - 1, month: 11, day: 31 }).toDate(),
+                    end: end.toDate()
+                })
+            );
+        }
+        return result;
+    }
+
+    /**
+     * Links the daily returns within the period (TWR) and solves for the rate that discounts all cash flows to zero
+     * (IRR). Inflows are assumed to happen at the start of their day, outflows at its end.
+     */
+    private computeReturns(valuations: Valuation[], period: string, range: PeriodRange): PortfolioReturnDTO {
+        const startTime = range.start ? range.start.valueOf() : -Infinity;
+        const endTime = range.end.valueOf();
+
+        // the base is the last valuation on or before the start date; before the first transaction, the value is 0
+        const baseIndex = valuations.map((v) => v.date.valueOf() <= startTime).lastIndexOf(true);
+        const base: Valuation =
+            baseIndex >= 0
+                ? valuations[baseIndex]
+                : { date: range.start ?? valuations[0].date, value: 0, inflow: 0, outflow: 0 };
+        const inPeriod = valuations.filter((v, i) => i > baseIndex && v.date.valueOf() <= endTime);
+        const last: Valuation = inPeriod.length > 0 ? inPeriod[inPeriod.length - 1] : base;
+
+        let growth = 1.0;
+        let previous = base.value;
+        for (const v of inPeriod) {
+            const invested = previous + v.inflow;
+            if (invested > 0) {
+                growth *= (v.value + v.outflow) / invested;
+            }
+            previous = v.value;
+        }
+
+        const flows: CashFlow[] = [
+            { date: base.date, amount: -base.value },
+            ...inPeriod.map((v) => ({ date: v.date, amount: v.outflow - v.inflow })),
+            { date: last.date, amount: last.value }
+        ].filter((f) => f.amount !== 0);
+
+        const days = (last.date.valueOf() - base.date.valueOf()) / DAY_MS;
+        return {
+            period: period,
+            startDate: base.date,
+            endDate: last.date,
+            startValue: base.value,
+            endValue: last.value,
+            netInflows: inPeriod.reduce((sum, v) => sum + v.inflow - v.outflow, 0.0),
+            twr: growth - 1,
+            annualizedTWR: annualize(growth - 1, days),
+            irr: xirr(flows)
+        };
+    }
+
+    /**
+     * Values the portfolio on each day with a transaction or a quote of one of its listings, starting with the first
+     * transaction. Prices are carried forward over days without quotes.
+     */
+    private async getValuations(id: number): Promise<Valuation[]> {
+        const transactions: PortfolioTransaction[] = await this.portfolioService.getTransactions(id);
+        if (transactions.length === 0) {
+            return [];
+        }
+
+        const listings = new Map<string, ListingState>();
+        for (const t of transactions) {
+            if ((t.type === TransactionType.BUY || t.type === TransactionType.SELL) && t.security && t.exchange) {
+                listings.set(`${t.security.id}@${t.exchange.id}`, {
+                    securityID: t.security.id,
+                    exchangeID: t.exchange.id,
+                    shares: 0,
+                    price: 0
+                });
+            }
+        }
+
+        // splits change the number of shares, so all quantities and prices are converted to the newest share basis
+        const splits: PriceAdjustments = await this.corporateActionService.getPriceAdjustments({
+            adjusted: true,
+            dividends: false
+        });
+        const closes: ClosingPrice[] = await this.quoteService.getCloses(
+            [...listings.values()],
+            new Date(transactions[0].date)
+        );
+
+        // group everything that happens by day
+        const days = new Map<number, { transactions: PortfolioTransaction[]; closes: ClosingPrice[] }>();
+        const getDay = (date: Date) => {
+            const key = moment(date).startOf("day").valueOf();
+            let day = days.get(key);
+            if (!day) {
+                day = { transactions: [], closes: [] };
+                days.set(key, day);
+            }
+            return day;
+        };
+        transactions.forEach((t) => getDay(new Date(t.date)).transactions.push(t));
+        closes.forEach((c) => getDay(c.date).closes.push(c));
+
+        const valuations: Valuation[] = [];
+        for (const time of [...days.keys()].sort((a, b) => a - b)) {
+            const date = new Date(time);
+            const day = days.get(time);
+            let inflow = 0.0;
+            let outflow = 0.0;
+
+            for (const t of day?.transactions ?? []) {
+                const listing =
+                    t.security && t.exchange ? listings.get(`${t.security.id}@${t.exchange.id}`) : undefined;
+                const quantity = Number(t.quantity ?? 0);
+                const price = Number(t.price ?? 0);
+                const fees = Number(t.fees);
+
+                switch (t.type) {
+                    case TransactionType.BUY:
+                    case TransactionType.SELL:
+                        if (listing) {
+                            const factor = splits.getFactor(listing.securityID, listing.exchangeID, date);
+                            const shares = quantity / factor;
+                            listing.shares += t.type === TransactionType.BUY ? shares : -shares;
+                            // until there's a quote, the transaction price is the best estimate of the value
+                            listing.price = listing.price || price * factor;
+                        }
+                        if (t.type === TransactionType.BUY) {
+                            inflow += quantity * price + fees;
+                        } else {
+                            outflow += quantity * price - fees;
+                        }
+                        break;
+                    case TransactionType.DIVIDEND:
+                        outflow += Number(t.amount ?? 0);
+                        break;
+                    case TransactionType.FEE:
+                        inflow += Number(t.amount ?? 0);
+                        break;
+                }
+            }
+
+            for (const c of day?.closes ?? []) {
+                const listing = listings.get(`${c.securityID}@${c.exchangeID}`);
+                if (listing) {
+                    listing.price = c.close * splits.getFactor(c.securityID, c.exchangeID, c.date);
+                }
+            }
+
+            const value = [...listings.values()].reduce((sum, l) => sum + l.shares * l.price, 0.0);
+            valuations.push({ date: date, value: value, inflow: inflow, outflow: outflow });
+        }
+
+        return valuations;
+    }
+}
+
+export { PortfolioReturnService };
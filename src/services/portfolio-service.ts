@@ -0,0 +1,332 @@
+import config from "config";
+import moment from "moment";
+import { Service } from "typedi";
+import { DeleteResult, getRepository, Repository } from "typeorm";
+
+import {
+    AddTransactionRequest,
+    CostBasisMethod,
+    CreatePortfolioRequest,
+    HoldingDTO,
+    PortfolioHoldingsDTO,
+    TransactionDTO
+} from "../dtos";
+import { Portfolio, PortfolioTransaction, TransactionType } from "../entities";
+import { validateRequests } from "../utils";
+import { ExchangeService } from "./exchange-service";
+import { ClosingPrice, QuoteDataService } from "./quote-service";
+import { SecuritiesService } from "./security-service";
+
+/** a number of shares bought at the same time and price */
+type Lot = {
+    quantity: number;
+    costPerShare: number;
+};
+
+type Position = {
+    transaction: PortfolioTransaction;
+    lots: Lot[];
+    realizedPnL: number;
+    dividends: number;
+    fees: number;
+};
+
+/** the tolerance for quantities; anything smaller is treated as zero to avoid rounding artifacts */
+const EPSILON = 1e-9;
+
+@Service()
+class PortfolioService {
+    private repository: Repository<Portfolio>;
+    private transactionRepository: Repository<PortfolioTransaction>;
+
+    constructor(
+        private securityService: SecuritiesService,
+        private exchangeService: ExchangeService,
+        private quoteService: QuoteDataService
+    ) {
+        this.repository = getRepository<Portfolio>(Portfolio, config.get("ormconfig.connection"));
+        this.transactionRepository = getRepository<PortfolioTransaction>(
+            PortfolioTransaction,
+            config.get("ormconfig.connection")
+        );
+    }
+
+    async getAll(): Promise<Portfolio[]> {
+        return this.repository.find();
+    }
+
+    async getOne(id: number): Promise<Portfolio> {
+        return this.repository.findOneOrFail(id);
+    }
+
+    async create(data: CreatePortfolioRequest): Promise<Portfolio> {
+        const portfolio = new Portfolio();
+        portfolio.name = data.name;
+        portfolio.description = data.description ?? null;
+        return this.repository.save(portfolio);
+    }
+
+    async delete(id: number): Promise<DeleteResult> {
+        await this.repository.findOneOrFail(id);
+        return this.repository.delete(id);
+    }
+
+    /**
+     * Returns the transactions of a portfolio, ordered by date.
+     *
+     * @param id the portfolio ID
+     * @returns the transaction entities, including security and exchange
+     */
+    async getTransactions(id: number): Promise<PortfolioTransaction[]> {
+        const portfolio = await this.repository.findOneOrFail(id);
+        return this.transactionRepository.find({
+            where: { portfolio: portfolio },
+            relations: ["security", "exchange"],
+            order: { date: "ASC", id: "ASC" }
+        });
+    }
+
+    /**
+     * Adds one or several transactions to a portfolio. Either all of them are added, or none if one is invalid.
+     *
+     * @param id the portfolio ID
+     * @param data the transaction request (or list of requests)
+     */
+    async addTransactions(id: number, data: AddTransactionRequest | AddTransactionRequest[]): Promise<void> {
+        const portfolio = await this.repository.findOneOrFail(id);
+
+        const transactions: PortfolioTransaction[] = [];
+        for (const req of await validateRequests(AddTransactionRequest, data)) {
+            transactions.push(await this.toTransaction(req, portfolio));
+        }
+
+        // the new transactions come after the existing ones of the same day; sort is stable
+        const all = [...(await this.getTransactions(id)), ...transactions].sort(
+            (a, b) => moment(a.date).valueOf() - moment(b.date).valueOf()
+        );
+        // fails for sales of more shares than are held at that point
+        this.buildPositions(all, "fifo");
+
+        await this.transactionRepository.save(transactions);
+    }
+
+    /**
+     * Deletes a transaction, unless that leaves a later sale without enough shares.
+     *
+     * @param id the transaction ID
+     */
+    async deleteTransaction(id: number): Promise<DeleteResult> {
+        const transaction = await this.transactionRepository.findOneOrFail(id, { relations: ["portfolio"] });
+        const remaining = (await this.getTransactions(transaction.portfolio.id)).filter((t) => t.id !== transaction.id);
+        this.buildPositions(remaining, "fifo");
+        return this.transactionRepository.delete(id);
+    }
+
+    toDTO(t: PortfolioTransaction): TransactionDTO {
+        const toNumber = (value?: number | null): number | null =>
+            value === null || value === undefined ? null : Number(value);
+
+        return {
+            id: t.id,
+            type: t.type,
+            date: moment(t.date).format("YYYY-MM-DD"),
+            isin: t.security?.isin ?? null,
+            exchange: t.exchange?.name ?? null,
+            quantity: toNumber(t.quantity),
+            price: toNumber(t.price),
+            amount: toNumber(t.amount),
+            fees: Number(t.fees)
+        };
+    }
+
+    /**
+     * Computes the holdings of a portfolio from its transactions, valued with the newest quote of each listing.
+     *
+     * @param id the portfolio ID
+     * @param method the cost basis method: first-in-first-out, or average cost
+     * @returns the holdings, including closed positions with realized gains or dividends, and the portfolio totals
+     */
+    async getHoldings(id: number, method: CostBasisMethod): Promise<PortfolioHoldingsDTO> {
+        if (method !== "fifo" && method !== "average") {
+            throw new Error(`Unknown cost basis method: ${method}`);
+        }
+
+        const portfolio = await this.repository.findOneOrFail(id);
+        const { positions, otherFees } = this.buildPositions(await this.getTransactions(id), method);
+
+        const newestQuotes = new Map<string, ClosingPrice>(
+            (await this.quoteService.getNewestQuotes()).map((q) => [`${q.securityID}@${q.exchangeID}`, q])
+        );
+
+        const holdings: HoldingDTO[] = [];
+        for (const [key, position] of positions) {
+            const { security, exchange } = position.transaction;
+            const quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0.0);
+            const costBasis = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0.0);
+            const quote = newestQuotes.get(key);
+            const marketValue = quote ? quantity * quote.close : null;
+
+            holdings.push({
+                isin: security?.isin ?? "",
+                securityName: security?.name ?? "",
+                exchangeName: exchange?.name ?? "",
+                quantity: quantity,
+                costBasis: costBasis,
+                averageCost: quantity > EPSILON ? costBasis / quantity : 0,
+                marketPrice: quote ? quote.close : null,
+                marketPriceDate: quote ? quote.date : null,
+                marketValue: marketValue,
+                unrealizedPnL: marketValue === null ? null : marketValue - costBasis,
+                realizedPnL: position.realizedPnL,
+                dividends: position.dividends,
+                fees: position.fees
+            });
+        }
+
+        const sum = (values: (number | null)[]): number => values.reduce((a: number, b) => a + (b ?? 0), 0.0);
+        return {
+            portfolio: portfolio.name,
+            method: method,
+            holdings: holdings,
+            totals: {
+                costBasis: sum(holdings.map((h) => h.costBasis)),
+                marketValue: sum(holdings.map((h) => h.marketValue)),
+                unrealizedPnL: sum(holdings.map((h) => h.unrealizedPnL)),
+                realizedPnL: sum(holdings.map((h) => h.realizedPnL)),
+                dividends: sum(holdings.map((h) => h.dividends)),
+                fees: sum(holdings.map((h) => h.fees)) + otherFees
+            }
+        };
+    }
+
+    /**
+     * Replays the transactions into one position per security and exchange.
+     *
+     * @param transactions the transactions, ordered by date
+     * @param method the cost basis method
+     * @returns the positions, keyed like the newest quotes, and the fees that belong to no security
+     * @throws RangeError if a transaction sells more shares than are held at that point
+     */
+    private buildPositions(
+        transactions: PortfolioTransaction[],
+        method: CostBasisMethod
+    ): { positions: Map<string, Position>; otherFees: number } {
+        const positions = new Map<string, Position>();
+        let otherFees = 0.0;
+
+        for (const t of transactions) {
+            if (!t.security) {
+                otherFees += Number(t.amount ?? 0);
+                continue;
+            }
+
+            let key = this.getPositionKey(t);
+            if (!t.exchange) {
+                // dividends and fees without an exchange belong to any position held in the security
+                const existing = [...positions.keys()].find((k) => k.startsWith(`${t.security?.id}@`));
+                key = existing ?? key;
+            }
+            let position = positions.get(key);
+            if (!position) {
+                position = { transaction: t, lots: [], realizedPnL: 0, dividends: 0, fees: 0 };
+                positions.set(key, position);
+            }
+            this.applyTransaction(position, t, method);
+        }
+
+        return { positions: positions, otherFees: otherFees };
+    }
+
+    /**
+     * Updates the position with the transaction. Buy fees become part of the cost basis; sell fees reduce the
+     * proceeds.
+     */
+    private applyTransaction(position: Position, t: PortfolioTransaction, method: CostBasisMethod): void {
+        const quantity = Number(t.quantity ?? 0);
+        const price = Number(t.price ?? 0);
+        const fees = Number(t.fees);
+
+        switch (t.type) {
+            case TransactionType.BUY:
+                position.lots.push({ quantity: quantity, costPerShare: (quantity * price + fees) / quantity });
+                if (method === "average") {
+                    // merge everything into a single lot with the average cost
+                    const total = position.lots.reduce((sum, lot) => sum + lot.quantity, 0.0);
+                    const cost = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0.0);
+                    position.lots = [{ quantity: total, costPerShare: cost / total }];
+                }
+                position.fees += fees;
+                break;
+
+            case TransactionType.SELL: {
+                let remaining = quantity;
+                let cost = 0.0;
+                while (remaining > EPSILON && position.lots.length > 0) {
+                    const lot = position.lots[0];
+                    const used = Math.min(lot.quantity, remaining);
+                    cost += used * lot.costPerShare;
+                    lot.quantity -= used;
+                    remaining -= used;
+                    if (lot.quantity <= EPSILON) {
+                        position.lots.shift();
+                    }
+                }
+                if (remaining > EPSILON) {
+                    throw new RangeError(
+                        `The sale on ${moment(t.date).format("YYYY-MM-DD")} sells ${quantity} shares of ${
+                            t.security?.isin
+                        }, but only ${quantity - remaining} are held`
+                    );
+                }
+                position.realizedPnL += quantity * price - fees - cost;
+                position.fees += fees;
+                break;
+            }
+
+            case TransactionType.DIVIDEND:
+                position.dividends += Number(t.amount ?? 0);
+                break;
+
+            case TransactionType.FEE:
+                position.fees += Number(t.amount ?? 0);
+                break;
+        }
+    }
+
+    private getPositionKey(t: PortfolioTransaction): string {
+        return `${t.security?.id}@${t.exchange?.id}`;
+    }
+
+    /**
+     * Converts an add-transaction request to an entity after checking that it has all the fields its type needs.
+     */
+    private async toTransaction(req: AddTransactionRequest, portfolio: Portfolio): Promise<PortfolioTransaction> {
+        const t = new PortfolioTransaction();
+        t.portfolio = portfolio;
+        t.type = req.type;
+        t.date = moment(req.date).toDate();
+        t.fees = req.fees ?? 0;
+
+        if (req.type === TransactionType.BUY || req.type === TransactionType.SELL) {
+            if (!req.isin || !req.exchange || !req.quantity || !req.price) {
+                throw new Error(`A ${req.type} transaction needs ISIN, exchange, quantity, and price`);
+            }
+            t.quantity = req.quantity;
+            t.price = req.price;
+        } else {
+            if (!req.amount) {
+                throw new Error(`A ${req.type} transaction needs an amount`);
+            }
+            if (req.type === TransactionType.DIVIDEND && !req.isin) {
+                throw new Error("A dividend transaction needs an ISIN");
+            }
+            t.amount = req.amount;
+        }
+
+        t.security = req.isin ? await this.securityService.getOne({ isin: req.isin }) : null;
+        t.exchange = req.exchange ? await this.exchangeService.getOne({ name: req.exchange }) : null;
+        return t;
+    }
+}
+
+export { PortfolioService };
@@ -0,0 +1,227 @@
+import parse from "csv-parse";
+import moment from "moment";
+import { Readable } from "stream";
+import { Service } from "typedi";
+
+import { QuoteImportColumns, QuoteImportOptions, QuoteImportReport, QuoteImportRowResult } from "../dtos";
+import { QuoteData, SecuritiesExchange, Security } from "../entities";
+import { CSVSettings, getCSVSettings, parseCSVNumber } from "../utils";
+import { ExchangeService } from "./exchange-service";
+import { QuoteDataService } from "./quote-service";
+import { SecuritiesService } from "./security-service";
+
+/** the number of parsed rows that are written to the database at once */
+const BATCH_SIZE = 500;
+
+type PendingRow = {
+    row: number;
+    quote: QuoteData;
+};
+
+@Service()
+class QuoteImportService {
+    constructor(
+        private quoteService: QuoteDataService,
+        private securityService: SecuritiesService,
+        private exchangeService: ExchangeService
+    ) {}
+
+    /**
+     * Imports quote data from a CSV stream. The first line must contain the column headers. Rows are parsed while the
+     * input is still streaming and written to the database in batches.
+     *
+     * @param input the CSV input stream
+     * @param options the import options
+     * @param source who made the change, for the change history
+     * @returns a report containing the outcome of each row
+     */
+    async import(input: Readable, options: QuoteImportOptions, source?: string): Promise<QuoteImportReport> {
+        const settings: CSVSettings = getCSVSettings(options);
+
+        const columns: Required<QuoteImportColumns> = this.getColumnNames(options.columns);
+
+        const securities = new Map<string, Promise<Security>>();
+        const exchanges = new Map<string, Promise<SecuritiesExchange>>();
+
+        const results: QuoteImportRowResult[] = [];
+        let batch: PendingRow[] = [];
+        // the header is line 1
+        let row = 1;
+
+        const parser = input.pipe(
+            parse({
+                bom: true,
+                columns: (header: string[]) => header.map((name: string) => name.trim().toLowerCase()),
+                delimiter: settings.delimiter,
+                relax_column_count: true,
+                skip_empty_lines: true,
+                trim: true
+            })
+        );
+
+        for await (const record of parser) {
+            ++row;
+            try {
+                const securityID: string | undefined = record[columns.isin] || record[columns.nsin] || options.security;
+                const exchangeName: string | undefined = record[columns.exchange] || options.exchange;
+                if (!securityID) {
+                    throw new Error("No security given");
+                }
+                if (!exchangeName) {
+                    throw new Error("No exchange given");
+                }
+
+                const security = await this.lookup(securities, securityID, "security", (id) =>
+                    this.securityService.getByIdentifier(id)
+                );
+                const exchange = await this.lookup(exchanges, exchangeName, "exchange", (name) =>
+                    this.exchangeService.getOne({ name: name })
+                );
+
+                const date = moment(record[columns.date], settings.dateFormat, true);
+                if (!date.isValid()) {
+                    throw new Error(`Invalid date: ${record[columns.date]}`);
+                }
+
+                const quote: QuoteData = this.quoteService.toQuoteData(
+                    {
+                        date: date.toDate(),
+                        open: parseCSVNumber(record[columns.open], settings),
+                        high: parseCSVNumber(record[columns.high], settings),
+                        low: parseCSVNumber(record[columns.low], settings),
+                        // close-only files may still use the original "quote" column
+                        close: parseCSVNumber(record[columns.close] ?? record["quote"], settings),
+                        volume: parseCSVNumber(record[columns.volume], settings)
+                    },
+                    security,
+                    exchange
+                );
+                batch.push({ row: row, quote: quote });
+            } catch (error) {
+                results.push({ row: row, status: "rejected", reason: error.message });
+            }
+
+            if (batch.length >= BATCH_SIZE) {
+                results.push(...(await this.write(batch, source)));
+                batch = [];
+            }
+        }
+        results.push(...(await this.write(batch, source)));
+
+        results.sort((a, b) => a.row - b.row);
+        return {
+            inserted: results.filter((r) => r.status === "inserted").length,
+            updated: results.filter((r) => r.status === "updated").length,
+            rejected: results.filter((r) => r.status === "rejected").length,
+            rows: results
+        };
+    }
+
+    /**
+     * Writes a batch of rows to the database, determining beforehand which of them will be updates of existing quotes.
+     *
+     * @param batch the rows to write
+     * @param source who made the change, for the change history
+     * @returns the results for the rows
+     */
+    private async write(batch: PendingRow[], source?: string): Promise<QuoteImportRowResult[]> {
+        const results: QuoteImportRowResult[] = [];
+
+        // group the rows by security and exchange since the existing dates are determined per listing
+        const listings = new Map<string, PendingRow[]>();
+        for (const pending of batch) {
+            const key = `${pending.quote.security.id}@${pending.quote.exchange.id}`;
+            listings.set(key, [...(listings.get(key) ?? []), pending]);
+        }
+
+        for (const rows of listings.values()) {
+            const { security, exchange } = rows[0].quote;
+            const existing = await this.quoteService.getExistingDates(
+                security,
+                exchange,
+                rows.map((r) => r.quote.date)
+            );
+
+            for (const pending of rows) {
+                const date = moment(pending.quote.date).format("YYYY-MM-DD");
+                // rows with the same date later in the file overwrite the earlier ones, so they count as updates
+                results.push({ row: pending.row, status: existing.has(date) ? "updated" : "inserted" });
+                existing.add(date);
+            }
+        }
+
+        try {
+            await this.quoteService.upsert(
+                batch.map((r) => r.quote),
+                source
+            );
+        } catch (error) {
+            // only the offending rows are rejected, so the rows are written one by one to find them
+            return this.writeEach(batch, source);
+        }
+        return results;
+    }
+
+    /**
+     * Writes the rows of a failed batch one by one, rejecting only the rows that fail.
+     *
+     * @param batch the rows to write
+     * @param source who made the change, for the change history
+     * @returns the results for the rows
+     */
+    private async writeEach(batch: PendingRow[], source?: string): Promise<QuoteImportRowResult[]> {
+        const results: QuoteImportRowResult[] = [];
+        for (const pending of batch) {
+            const { security, exchange, date } = pending.quote;
+            try {
+                const existing = await this.quoteService.getExistingDates(security, exchange, [date]);
+                await this.quoteService.upsert([pending.quote], source);
+                results.push({ row: pending.row, status: existing.size > 0 ? "updated" : "inserted" });
+            } catch (error) {
+                results.push({ row: pending.row, status: "rejected", reason: error.message });
+            }
+        }
+        return results;
+    }
+
+    /**
+     * Looks up an entity by the given key, caching the result (or the failure) for subsequent rows.
+     */
+    private async lookup<T>(
+        cache: Map<string, Promise<T>>,
+        key: string,
+        kind: string,
+        find: (key: string) => Promise<T>
+    ): Promise<T> {
+        let entity = cache.get(key);
+        if (!entity) {
+            entity = find(key).catch(() => {
+                throw new Error(`Unknown ${kind}: ${key}`);
+            });
+            cache.set(key, entity);
+        }
+        return entity;
+    }
+
+    private getColumnNames(columns: QuoteImportColumns = {}): Required<QuoteImportColumns> {
+        const names: Required<QuoteImportColumns> = {
+            date: "date",
+            open: "open",
+            high: "high",
+            low: "low",
+            close: "close",
+            volume: "volume",
+            isin: "isin",
+            nsin: "nsin",
+            exchange: "exchange"
+        };
+        for (const [field, name] of Object.entries(columns)) {
+            if (name) {
+                names[field as keyof QuoteImportColumns] = name.trim().toLowerCase();
+            }
+        }
+        return names;
+    }
+}
+
+export { QuoteImportService };
@@ -0,0 +1,284 @@
+import config from "config";
+import moment from "moment";
+import { Service } from "typedi";
+import { getRepository, Repository } from "typeorm";
+
+import { AddQuoteDataRequest } from "../dtos";
+import { ProviderRun } from "../entities";
+import { AlertService } from "./alert.service";
+import { createProvider, ProviderConfig, ProviderListing, ProviderResult, QuoteProvider } from "./quote-providers";
+import { QuoteDataService } from "./quote-service";
+
+type ProviderStatus = {
+    name: string;
+    type: string;
+    running: boolean;
+};
+
+/** the outcome of one provider run over all its listings */
+type IngestionSummary = {
+    provider: string;
+    /** the number of listings (or files) processed */
+    results: number;
+    quotes: number;
+    failures: number;
+};
+
+type ProviderRunFilter = {
+    provider?: string;
+    status?: "success" | "failure";
+    since?: string;
+    limit?: number;
+};
+
+type ConfiguredProvider = {
+    conf: ProviderConfig;
+    provider: QuoteProvider;
+};
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+const DEFAULT_RETENTION_DAYS = 90;
+
+@Service()
+class QuoteIngestionService {
+    private repository: Repository<ProviderRun>;
+    private providers: ConfiguredProvider[];
+    private running = new Set<string>();
+    /** the running providers that were triggered again meanwhile */
+    private pending = new Set<string>();
+    private stopFunctions: (() => void)[] = [];
+
+    constructor(private quoteService: QuoteDataService, private alertService: AlertService) {
+        this.repository = getRepository<ProviderRun>(ProviderRun, config.get("ormconfig.connection"));
+
+        const providerConfig: ProviderConfig[] = config.has("providers.sources") ? config.get("providers.sources") : [];
+        this.providers = providerConfig.map((conf) => ({ conf: conf, provider: createProvider(conf) }));
+        if (new Set(this.providers.map((p) => p.provider.name)).size !== this.providers.length) {
+            throw new Error("The quote providers need unique names");
+        }
+    }
+
+    /**
+     * Runs all providers periodically, and additionally whenever a provider notices new data itself.
+     */
+    start(): void {
+        if (this.providers.length === 0) {
+            return;
+        }
+
+        const minutes: number = config.has("providers.interval")
+            ? config.get("providers.interval")
+            : DEFAULT_INTERVAL_MINUTES;
+        const timer = setInterval(() => this.runInBackground(), minutes * 60 * 1000);
+        this.stopFunctions.push(() => clearInterval(timer));
+
+        for (const { provider } of this.providers) {
+            if (provider.watch) {
+                try {
+                    this.stopFunctions.push(provider.watch(() => this.runInBackground(provider.name)));
+                } catch (error) {
+                    // the provider still runs periodically
+                    console.log(error);
+                }
+            }
+        }
+
+        // catches up on everything that happened while the server was down
+        this.runInBackground();
+    }
+
+    stop(): void {
+        this.stopFunctions.forEach((stop) => stop());
+        this.stopFunctions = [];
+    }
+
+    getProviders(): ProviderStatus[] {
+        return this.providers.map(({ conf, provider }) => ({
+            name: provider.name,
+            type: conf.type,
+            running: this.running.has(provider.name)
+        }));
+    }
+
+    /**
+     * Runs the providers now. A provider that is still running from an earlier trigger runs once more after that, so
+     * data arriving during a run isn't left until the next interval; its summary is part of the earlier trigger's.
+     *
+     * @param name the provider to run; all providers if not set
+     * @returns the summary of each provider that ran
+     */
+    async run(name?: string): Promise<IngestionSummary[]> {
+        const selected = this.providers.filter((p) => !name || p.provider.name === name);
+        if (name && selected.length === 0) {
+            throw new Error(`Unknown quote provider: ${name}`);
+        }
+
+        const summaries: IngestionSummary[] = [];
+        for (const configured of selected) {
+            const providerName = configured.provider.name;
+            if (this.running.has(providerName)) {
+                this.pending.add(providerName);
+                continue;
+            }
+            this.running.add(providerName);
+            try {
+                do {
+                    this.pending.delete(providerName);
+                    summaries.push(await this.runProvider(configured));
+                } while (this.pending.has(providerName));
+            } finally {
+                this.running.delete(providerName);
+                this.pending.delete(providerName);
+            }
+        }
+        return summaries;
+    }
+
+    /**
+     * Returns the run history, newest first.
+     *
+     * @param filter restricts the runs to a provider, a status, or a start date
+     * @returns the runs
+     */
+    async getRuns(filter: ProviderRunFilter = {}): Promise<ProviderRun[]> {
+        const query = this.repository
+            .createQueryBuilder("r")
+            .orderBy("r.startedAt", "DESC")
+            .addOrderBy("r.id", "DESC")
+            .limit(filter.limit ?? 100);
+
+        if (filter.provider) {
+            query.andWhere("r.provider = :provider", { provider: filter.provider });
+        }
+        if (filter.status) {
+            query.andWhere("r.status = :status", { status: filter.status });
+        }
+        if (filter.since) {
+            query.andWhere("r.startedAt >= :since", { since: moment(filter.since).toDate() });
+        }
+
+        return query.getMany();
+    }
+
+    private runInBackground(name?: string): void {
+        this.run(name).catch((error) => console.log(error));
+    }
+
+    private async runProvider({ conf, provider }: ConfiguredProvider): Promise<IngestionSummary> {
+        const summary: IngestionSummary = { provider: provider.name, results: 0, quotes: 0, failures: 0 };
+        const updated = new Set<string>();
+
+        let started = new Date();
+        try {
+            for await (const result of provider.fetch(await this.getListings(conf))) {
+                ++summary.results;
+                const count = await this.ingest(provider.name, result);
+                if (count === null) {
+                    ++summary.failures;
+                } else if (count > 0 && result.isin) {
+                    summary.quotes += count;
+                    updated.add(result.isin);
+                }
+                await this.record(provider.name, result, started, count);
+                started = new Date();
+            }
+        } catch (error) {
+            // the provider failed as a whole, e.g. because its directory or server is gone
+            ++summary.failures;
+            await this.record(
+                provider.name,
+                { isin: null, exchange: null, quotes: [], error: error.message },
+                started,
+                null
+            );
+        }
+
+        if (updated.size > 0) {
+            this.alertService.schedule([...updated]);
+        }
+        await this.pruneRuns(provider.name);
+        return summary;
+    }
+
+    /**
+     * Deletes the provider's runs older than the configured number of days, so the history doesn't grow forever.
+     */
+    private async pruneRuns(provider: string): Promise<void> {
+        const days: number = config.has("providers.retentionDays")
+            ? config.get("providers.retentionDays")
+            : DEFAULT_RETENTION_DAYS;
+        await this.repository
+            .createQueryBuilder()
+            .delete()
+            .from(ProviderRun)
+            .where("provider = :provider", { provider: provider })
+            .andWhere("startedAt < :oldest", { oldest: moment().subtract(days, "days").toDate() })
+            .execute();
+    }
+
+    /**
+     * Stores the quotes of a result. The change history names the provider as "provider:<name>".
+     *
+     * @returns the number of stored quotes, or null if the result is a failure
+     */
+    private async ingest(provider: string, result: ProviderResult): Promise<number | null> {
+        if (!result.error && (!result.isin || !result.exchange)) {
+            result.error = "No security or exchange given";
+        }
+        if (result.error || !result.isin || !result.exchange) {
+            return null;
+        }
+        try {
+            await this.quoteService.add(
+                new AddQuoteDataRequest(result.isin, result.exchange, result.quotes),
+                `provider:${provider}`
+            );
+            return result.quotes.length;
+        } catch (error) {
+            result.error = error.message;
+            return null;
+        }
+    }
+
+    private async record(provider: string, result: ProviderResult, started: Date, count: number | null): Promise<void> {
+        const run = new ProviderRun();
+        run.provider = provider;
+        run.isin = result.isin;
+        run.exchange = result.exchange;
+        run.source = result.source ?? null;
+        run.status = count === null ? "failure" : "success";
+        run.quotes = count ?? 0;
+        run.message = result.error ?? null;
+        run.startedAt = started;
+        run.finishedAt = new Date();
+        await this.repository.save(run);
+    }
+
+    /**
+     * Determines the listings the provider is responsible for and the date of their newest quotes.
+     */
+    private async getListings(conf: ProviderConfig): Promise<ProviderListing[]> {
+        const newest = new Map<string, Date>(
+            (await this.quoteService.getNewestDates({ "date-only": true })).map((x) => [
+                `${x.isin}@${x.exchange}`,
+                moment(x.newestDate).toDate()
+            ])
+        );
+
+        if (!conf.listings) {
+            return [...newest.entries()].map(([key, date]) => {
+                const [isin, exchange] = key.split("@");
+                return { isin: isin, exchange: exchange, since: date };
+            });
+        }
+        return conf.listings.map((id) => {
+            const [isin, exchange] = id.split("@");
+            if (!isin || !exchange) {
+                throw new Error(`Listings must be given as "ISIN@exchange": ${id}`);
+            }
+            return { isin: isin, exchange: exchange, since: newest.get(id) ?? null };
+        });
+    }
+}
+
+export { IngestionSummary, ProviderRunFilter, ProviderStatus, QuoteIngestionService };
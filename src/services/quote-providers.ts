@@ -0,0 +1,314 @@
+import parse from "csv-parse";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import moment from "moment";
+import path from "path";
+import { URL } from "url";
+
+import { CSVOptions, QuoteDataItem } from "../dtos";
+import { CSVSettings, getCSVSettings, parseCSVNumber } from "../utils";
+
+/** a listing a provider is asked to update, with the date of its newest stored quote */
+type ProviderListing = {
+    isin: string;
+    exchange: string;
+    /** null if there are no quotes yet */
+    since: Date | null;
+};
+
+/** the quotes a provider delivered for a single listing */
+type ProviderResult = {
+    /** null for errors that don't concern a single listing, e.g. an unreadable file */
+    isin: string | null;
+    exchange: string | null;
+    quotes: QuoteDataItem[];
+    /** where the quotes come from, e.g. the file name */
+    source?: string;
+    /**
+     * set if the quotes of the listing couldn't be fetched; the other listings are still processed. The consumer sets
+     * it as well if it can't store the quotes, so the provider knows that the data wasn't imported.
+     */
+    error?: string;
+};
+
+/**
+ * Fetches quotes from somewhere. New providers only need to implement this and be registered in `createProvider`.
+ */
+interface QuoteProvider {
+    readonly name: string;
+
+    /**
+     * Fetches the new quotes. Providers that are asked for specific listings only return the quotes after each
+     * listing's `since` date; providers that receive data for arbitrary listings (like the file drop) may ignore the
+     * listings altogether.
+     *
+     * @param listings the listings the provider is responsible for
+     * @returns the quotes, one result per listing
+     */
+    fetch(listings: ProviderListing[]): AsyncIterable<ProviderResult>;
+
+    /**
+     * Calls the trigger whenever new data is available, for providers that notice that themselves.
+     *
+     * @returns a function that stops watching
+     */
+    watch?(trigger: () => void): () => void;
+}
+
+type ProviderConfig = CSVOptions & {
+    type: string;
+    /** the unique name of the provider in the run history; defaults to the type */
+    name?: string;
+    /** restricts the provider to these listings, as "ISIN@exchange"; all listings with quotes otherwise */
+    listings?: string[];
+    /** file-drop: the directory to watch */
+    directory?: string;
+    /** http: the URL to request the quotes from */
+    url?: string;
+    /** http: the seconds to wait for a response; 30 if not set */
+    timeout?: number;
+    /** http: the maximum size of a response in bytes; 10 MB if not set */
+    maxBytes?: number;
+};
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Picks up the CSV and JSON files dropped into a directory. CSV files need a header line with the columns date, isin,
+ * exchange, and close (or quote), and optionally open, high, low, and volume. JSON files contain one `POST /quotes`
+ * request body or an array of them. Imported files are moved to the "processed" subdirectory, files that can't be read
+ * or whose quotes couldn't all be stored to the "failed" one.
+ */
+class FileDropProvider implements QuoteProvider {
+    private settings: CSVSettings;
+
+    constructor(readonly name: string, private directory: string, csvOptions: CSVOptions = {}) {
+        this.settings = getCSVSettings(csvOptions);
+    }
+
+    async *fetch(): AsyncGenerator<ProviderResult> {
+        const files = (await fs.promises.readdir(this.directory, { withFileTypes: true }))
+            .filter((f) => f.isFile() && /\.(csv|json)$/i.test(f.name))
+            .map((f) => f.name)
+            .sort();
+
+        for (const file of files) {
+            let results: ProviderResult[];
+            try {
+                const content = await fs.promises.readFile(path.join(this.directory, file), "utf8");
+                results = /\.json$/i.test(file) ? this.parseJSON(content) : await this.parseCSV(content);
+            } catch (error) {
+                await this.move(file, "failed");
+                yield { isin: null, exchange: null, quotes: [], source: file, error: error.message };
+                continue;
+            }
+
+            let failed = false;
+            for (const result of results) {
+                const yielded: ProviderResult = { ...result, source: file };
+                yield yielded;
+                // the consumer sets the error if it couldn't store the quotes
+                failed = failed || Boolean(yielded.error);
+            }
+            // moved only after all results were processed, so a crash leaves the file for the next run
+            await this.move(file, failed ? "failed" : "processed");
+        }
+    }
+
+    watch(trigger: () => void): () => void {
+        // fs.watch fails for missing directories, and the directory is created on the first drop otherwise
+        fs.mkdirSync(this.directory, { recursive: true });
+
+        let timeout: NodeJS.Timeout | undefined;
+        const watcher = fs.watch(this.directory, () => {
+            // files are usually written in several chunks, so wait until they're complete
+            if (timeout) {
+                clearTimeout(timeout);
+            }
+            timeout = setTimeout(trigger, 2000);
+        });
+        // e.g. the directory was deleted; the periodic runs go on
+        watcher.on("error", (error) => console.log(error));
+        return () => {
+            if (timeout) {
+                clearTimeout(timeout);
+            }
+            watcher.close();
+        };
+    }
+
+    private parseJSON(content: string): ProviderResult[] {
+        const data = JSON.parse(content);
+        return (Array.isArray(data) ? data : [data]).map((req) => {
+            if (!req.isin || !req.exchange || !Array.isArray(req.quotes)) {
+                throw new Error("Each entry needs an ISIN, an exchange, and a list of quotes");
+            }
+            return {
+                isin: req.isin,
+                exchange: req.exchange,
+                quotes: req.quotes.map((q: QuoteDataItem) => ({ ...q, date: toDate(q.date, moment.ISO_8601) }))
+            };
+        });
+    }
+
+    private async parseCSV(content: string): Promise<ProviderResult[]> {
+        const listings = new Map<string, ProviderResult>();
+        const parser = parse(content, {
+            bom: true,
+            columns: (header: string[]) => header.map((name: string) => name.trim().toLowerCase()),
+            delimiter: this.settings.delimiter,
+            relax_column_count: true,
+            skip_empty_lines: true,
+            trim: true
+        });
+
+        // the header is line 1
+        let row = 1;
+        for await (const record of parser) {
+            ++row;
+            const key = `${record.isin}@${record.exchange}`;
+            let result = listings.get(key);
+            if (!result) {
+                result = { isin: record.isin, exchange: record.exchange, quotes: [] };
+                listings.set(key, result);
+            }
+            try {
+                result.quotes.push({
+                    date: toDate(record.date, this.settings.dateFormat),
+                    open: parseCSVNumber(record.open, this.settings),
+                    high: parseCSVNumber(record.high, this.settings),
+                    low: parseCSVNumber(record.low, this.settings),
+                    close: parseCSVNumber(record.close ?? record.quote, this.settings),
+                    volume: parseCSVNumber(record.volume, this.settings)
+                });
+            } catch (error) {
+                throw new Error(`Row ${row}: ${error.message}`);
+            }
+        }
+        return [...listings.values()];
+    }
+
+    private async move(file: string, subdirectory: string): Promise<void> {
+        const target = path.join(this.directory, subdirectory);
+        await fs.promises.mkdir(target, { recursive: true });
+        await fs.promises.rename(path.join(this.directory, file), path.join(target, file));
+    }
+}
+
+/**
+ * Requests the quotes of each listing from an HTTP endpoint, as `GET <url>?isin=...&exchange=...&since=YYYY-MM-DD`.
+ * The endpoint has to respond with a JSON array of quotes in the `POST /quotes` format. The mock quote server (see
+ * `yarn start-mock-provider`) implements this for local testing.
+ */
+class HttpQuoteProvider implements QuoteProvider {
+    constructor(
+        readonly name: string,
+        private url: string,
+        private timeout = DEFAULT_TIMEOUT_SECONDS,
+        private maxBytes = DEFAULT_MAX_BYTES
+    ) {}
+
+    async *fetch(listings: ProviderListing[]): AsyncGenerator<ProviderResult> {
+        for (const listing of listings) {
+            const target = new URL(this.url);
+            target.searchParams.set("isin", listing.isin);
+            target.searchParams.set("exchange", listing.exchange);
+            if (listing.since) {
+                target.searchParams.set("since", moment(listing.since).format("YYYY-MM-DD"));
+            }
+
+            try {
+                const quotes: QuoteDataItem[] = (await this.get(target)).map((q: QuoteDataItem) => ({
+                    ...q,
+                    date: toDate(q.date, moment.ISO_8601)
+                }));
+                yield {
+                    isin: listing.isin,
+                    exchange: listing.exchange,
+                    // the endpoint may ignore the since parameter
+                    quotes: quotes.filter((q) => !listing.since || moment(q.date).isAfter(listing.since, "day"))
+                };
+            } catch (error) {
+                yield { isin: listing.isin, exchange: listing.exchange, quotes: [], error: error.message };
+            }
+        }
+    }
+
+    private async get(target: URL): Promise<QuoteDataItem[]> {
+        const request = target.protocol === "https:" ? https.get : http.get;
+
+        return new Promise((resolve, reject) => {
+            const req = request(target, { headers: { Accept: "application/json" } }, (res) => {
+                let body = "";
+                let bytes = 0;
+                res.setEncoding("utf8");
+                res.on("data", (chunk: string) => {
+                    bytes += Buffer.byteLength(chunk);
+                    if (bytes > this.maxBytes) {
+                        req.destroy(new Error(`${target.origin} sent more than ${this.maxBytes} bytes`));
+                        return;
+                    }
+                    body += chunk;
+                });
+                res.on("error", reject);
+                res.on("end", () => {
+                    if (res.statusCode && res.statusCode >= 400) {
+                        reject(new Error(`${target.origin} responded with status ${res.statusCode}`));
+                        return;
+                    }
+                    try {
+                        const data = JSON.parse(body);
+                        if (!Array.isArray(data)) {
+                            throw new Error("Expected an array of quotes");
+                        }
+                        resolve(data);
+                    } catch (error) {
+                        reject(error);
+                    }
+                });
+            });
+            req.setTimeout(this.timeout * 1000, () =>
+                req.destroy(new Error(`${target.origin} didn't respond within ${this.timeout} seconds`))
+            );
+            req.on("error", reject);
+        });
+    }
+}
+
+function toDate(value: unknown, format: moment.MomentFormatSpecification): Date {
+    const date = moment(String(value), format, true);
+    if (!date.isValid()) {
+        throw new Error(`Invalid date: ${value}`);
+    }
+    return date.toDate();
+}
+
+function createProvider(conf: ProviderConfig): QuoteProvider {
+    const name = conf.name ?? conf.type;
+    switch (conf.type) {
+        case "file-drop":
+            if (!conf.directory) {
+                throw new Error("The file-drop provider needs a directory");
+            }
+            return new FileDropProvider(name, conf.directory, conf);
+        case "http":
+            if (!conf.url) {
+                throw new Error("The HTTP provider needs a URL");
+            }
+            return new HttpQuoteProvider(name, conf.url, conf.timeout, conf.maxBytes);
+        default:
+            throw new Error(`Unknown quote provider: ${conf.type}`);
+    }
+}
+
+export {
+    createProvider,
+    FileDropProvider,
+    HttpQuoteProvider,
+    ProviderConfig,
+    ProviderListing,
+    ProviderResult,
+    QuoteProvider
+};
@@ -1,12 +1,66 @@
 import config from "config";
 import moment from "moment";
 import { Service } from "typedi";
-import { getRepository, Repository, SelectQueryBuilder } from "typeorm";
-import { AddQuoteDataRequest, NewestDatesOptions, NewestSharePriceDateDTO } from "../dtos";
-import { QuoteData, Security } from "../entities";
+import { Brackets, EntityManager, getRepository, Repository, SelectQueryBuilder } from "typeorm";
+import {
+    AddQuoteDataRequest,
+    NewestDatesOptions,
+    NewestSharePriceDateDTO,
+    PriceAdjustmentOptions,
+    QuoteDataDTO,
+    QuoteDataItem
+} from "../dtos";
+import { QuoteData, SecuritiesExchange, Security } from "../entities";
+import { CurrencyConverter, PriceAdjustments, resampleBars, ResampleInterval, splitByGivenFields } from "../utils";
+import { ChangeHistoryService } from "./change-history.service";
+import { CorporateActionService } from "./corporate-action-service";
 import { ExchangeService } from "./exchange-service";
+import { FxRateService } from "./fx-rate-service";
 import { SecuritiesService } from "./security-service";
 
+/**
+ * The optional price columns, which have the same names as their fields. When a quote is updated, they are only
+ * overwritten if the new quote gives them; the closing price (column "quote") is always overwritten.
+ */
+const OPTIONAL_QUOTE_COLUMNS = ["open", "high", "low", "volume"] as const;
+
+type QuoteStreamOptions = {
+    startDate?: string;
+    /** only used if a start date is set */
+    endDate?: string;
+    adjustment?: PriceAdjustmentOptions;
+    /** the currency to convert the prices into; the exchange's currency is kept if not set */
+    currency?: string;
+    /** aggregates the daily quotes into one bar per week, month, quarter, or year */
+    interval?: ResampleInterval;
+};
+
+type ListingID = {
+    securityID: number;
+    exchangeID: number;
+};
+
+type ListingInfo = ListingID & {
+    isin: string;
+    securityName: string;
+    instrumentType: string;
+    exchangeName: string;
+    currency: string;
+};
+
+type CloseSeriesOptions = {
+    startDate?: Date;
+    endDate?: Date;
+    adjustment?: PriceAdjustmentOptions;
+    /** the currency to convert the prices into; each exchange's currency is kept if not set */
+    currency?: string;
+};
+
+type ClosingPrice = ListingID & {
+    date: Date;
+    close: number;
+};
+
 type QuoteCountData = {
     isin: string;
     exchange: string;
@@ -17,76 +71,199 @@ type QuoteCountData = {
 class QuoteDataService {
     private repository: Repository<QuoteData>;
 
-    constructor(private securityService: SecuritiesService, private exchangeService: ExchangeService) {
+    constructor(
+        private securityService: SecuritiesService,
+        private exchangeService: ExchangeService,
+        private corporateActionService: CorporateActionService,
+        private fxRateService: FxRateService,
+        private historyService: ChangeHistoryService
+    ) {
         this.repository = getRepository<QuoteData>(QuoteData, config.get("ormconfig.connection"));
     }
 
     async get(isin: string, exchangeID: number, startDate?: string, endDate?: string): Promise<QuoteData[]> {
-        const query = this.repository
-            .createQueryBuilder("q")
-            .innerJoin("q.security", "s")
-            .innerJoin("q.exchange", "e")
-            .where("s.isin = :isin", { isin: isin })
-            .andWhere("e.id = :exid", { exid: exchangeID });
-
-        if (startDate) {
-            const startTimeStamp: number = Date.parse(startDate);
-            if (!isNaN(startTimeStamp)) {
-                // checking the end date makes only sense if the start date is already valid
-                // --> we initialise it with the current date
-                let end: Date = new Date();
-                if (endDate) {
-                    // if the end date was actually set in the query params, try parsing it
-                    const endTimeStamp: number = Date.parse(endDate);
-                    if (!isNaN(endTimeStamp)) {
-                        // if it's a valid date, then overwrite the original value
-                        // ... otherwise it remains the current date from above
-                        end = new Date(endTimeStamp);
-                    }
-                }
+        return this.getQuery(isin, exchangeID, startDate, endDate).getMany();
+    }
 
-                query.andWhere("q.date BETWEEN :start AND :end", {
-                    start: new Date(startTimeStamp).toISOString(),
-                    end: end.toISOString()
-                });
+    /**
+     * Streams the quotes for the security and exchange combination from the database, ordered by date. Unlike `get`,
+     * this never holds the complete history in memory.
+     *
+     * @param isin the security's ISIN
+     * @param exchangeID the exchange ID
+     * @param options the date range, price adjustment, target currency, and interval
+     * @returns the quotes in the same representation as `toDTO`; aggregated quotes have the date of the period's last
+     *          trading day
+     */
+    async *stream(isin: string, exchangeID: number, options: QuoteStreamOptions = {}): AsyncGenerator<QuoteDataDTO> {
+        if (options.interval && options.interval !== "day") {
+            // the prices are adjusted and converted per day, before they are aggregated
+            const daily = this.stream(isin, exchangeID, { ...options, interval: undefined });
+            for await (const bar of resampleBars(daily, options.interval)) {
+                yield {
+                    date: bar.date,
+                    quote: bar.close,
+                    open: bar.open,
+                    high: bar.high,
+                    low: bar.low,
+                    close: bar.close,
+                    volume: bar.volume
+                };
             }
+            return;
+        }
+
+        const adjustments: PriceAdjustments | undefined = options.adjustment?.adjusted
+            ? await this.corporateActionService.getPriceAdjustments(
+                  options.adjustment,
+                  await this.securityService.getOne({ isin: isin })
+              )
+            : undefined;
+
+        let converter: CurrencyConverter | undefined;
+        let exchangeCurrency = "";
+        if (options.currency) {
+            exchangeCurrency = (await this.exchangeService.getOne(exchangeID)).currency;
+            converter = await this.fxRateService.getConverter(options.currency, [exchangeCurrency]);
         }
 
-        return query.getMany();
+        const rows = await this.getQuery(isin, exchangeID, options.startDate, options.endDate)
+            .select("q.securityId", "sid")
+            .addSelect("q.exchangeId", "eid")
+            .addSelect("q.date", "date")
+            .addSelect("q.open", "open")
+            .addSelect("q.high", "high")
+            .addSelect("q.low", "low")
+            .addSelect("q.close", "close")
+            .addSelect("q.volume", "volume")
+            .orderBy("q.date")
+            .stream();
+
+        for await (const row of rows) {
+            const qd = new QuoteData();
+            qd.date = row.date;
+            qd.open = row.open;
+            qd.high = row.high;
+            qd.low = row.low;
+            qd.close = row.close;
+            qd.volume = row.volume;
+
+            let dto = this.toDTO(qd);
+            if (adjustments) {
+                // the volume only changes with the number of shares, i.e. with splits
+                dto = this.scale(
+                    dto,
+                    adjustments.getFactor(row.sid, row.eid, dto.date),
+                    1 / adjustments.getFactor(row.sid, row.eid, dto.date, "split")
+                );
+            }
+            if (converter) {
+                dto = this.scale(dto, converter.getRate(exchangeCurrency, dto.date), 1);
+            }
+            yield dto;
+        }
     }
 
-    async add(data: AddQuoteDataRequest): Promise<void> {
+    async add(data: AddQuoteDataRequest, source?: string): Promise<void> {
         return this.securityService.getOne({ isin: data.isin }).then(async (security: Security) => {
             const exchange = await this.exchangeService.getOne({ name: data.exchange });
             /*
              * Creates a list of items that need to be inserted or updated. And we really don't care which at this
              * point; we only want to make sure that the newest data is in the repository.
              */
-            const itemList: QuoteData[] = [];
-            for (const item of data.quotes) {
-                const qd = new QuoteData();
-                qd.security = security;
-                qd.exchange = exchange;
-                qd.date = item.date;
-                qd.quote = item.quote;
-                itemList.push(qd);
-            }
+            const itemList: QuoteData[] = data.quotes.map((item: QuoteDataItem) =>
+                this.toQuoteData(item, security, exchange)
+            );
+            return this.upsert(itemList, source);
+        });
+    }
+
+    /**
+     * Inserts the quote data entities, or updates the prices of those that already exist for the same date, security,
+     * and exchange. Open, high, low, and volume are kept if an update doesn't give them.
+     *
+     * @param itemList the entities to insert or update
+     * @param source who made the change, for the change history
+     */
+    async upsert(itemList: QuoteData[], source?: string): Promise<void> {
+        if (itemList.length === 0) {
+            return;
+        }
+        // the quotes and their change history are written together or not at all
+        await this.repository.manager.transaction(async (manager) => {
+            const before = await this.getExisting(itemList, manager);
             /*
-             * Insert or update the entities in the list.
-             *
              * Found here: https://github.com/typeorm/typeorm/issues/1090#issuecomment-634391487
              *
              * Works since we made the date, security, and exchange columns a unique combination in the entity.
              */
-            this.repository
-                .createQueryBuilder()
-                .insert()
-                .values(itemList)
-                .orUpdate({ conflict_target: ["date", "security", "exchange"], overwrite: ["quote"] })
-                .execute();
+            for (const run of splitByGivenFields(itemList, OPTIONAL_QUOTE_COLUMNS, (q, column) => q[column] != null)) {
+                await manager
+                    .createQueryBuilder()
+                    .insert()
+                    .into(QuoteData)
+                    .values(run.items)
+                    .orUpdate({
+                        conflict_target: ["date", "security", "exchange"],
+                        overwrite: ["quote", ...run.fields]
+                    })
+                    .execute();
+            }
+            // read back, since the columns round the prices and the omitted ones keep their stored values
+            await this.historyService.recordQuotes(before, await this.getExisting(itemList, manager), source, manager);
         });
     }
 
+    /**
+     * Deletes the quote of a security and exchange combination on a single day.
+     *
+     * @param isin the security's ISIN
+     * @param exchangeID the exchange ID
+     * @param date the date of the quote
+     * @param source who made the change, for the change history
+     */
+    async delete(isin: string, exchangeID: number, date: string, source?: string): Promise<void> {
+        const quote = await this.repository
+            .createQueryBuilder("q")
+            .innerJoinAndSelect("q.security", "s")
+            .innerJoinAndSelect("q.exchange", "e")
+            .where("s.isin = :isin", { isin: isin })
+            .andWhere("e.id = :eid", { eid: exchangeID })
+            .andWhere("q.date = :date", { date: moment(date).format("YYYY-MM-DD") })
+            .getOne();
+        if (!quote) {
+            throw new Error(`No quote for ${isin} on exchange ${exchangeID} on ${date}`);
+        }
+
+        await this.repository.manager.transaction(async (manager) => {
+            await manager.delete(QuoteData, quote.id);
+            await this.historyService.recordQuotes([quote], [], source, manager);
+        });
+    }
+
+    /**
+     * Returns those of the given dates for which there already are quotes for the security and exchange combination.
+     *
+     * @param security the security
+     * @param exchange the exchange
+     * @param dates the dates to check
+     * @returns the existing dates formatted as YYYY-MM-DD
+     */
+    async getExistingDates(security: Security, exchange: SecuritiesExchange, dates: Date[]): Promise<Set<string>> {
+        if (dates.length === 0) {
+            return new Set<string>();
+        }
+
+        return this.repository
+            .createQueryBuilder("q")
+            .select("q.date", "date")
+            .where("q.securityId = :sid", { sid: security.id })
+            .andWhere("q.exchangeId = :eid", { eid: exchange.id })
+            .andWhere("q.date IN (:...dates)", { dates: dates.map((d) => moment(d).format("YYYY-MM-DD")) })
+            .getRawMany()
+            .then((rows) => new Set<string>(rows.map((x) => moment(x.date).format("YYYY-MM-DD"))));
+    }
+
     async getNewestDates(options: NewestDatesOptions): Promise<NewestSharePriceDateDTO[]> {
         const datesOnly = options && options["date-only"];
 
@@ -113,14 +290,165 @@ class QuoteDataService {
     }
 
     /**
-     * Returns the number of quotes stored in the database for the specified security and exchange combination.
+     * Returns all security and exchange combinations that have quotes.
      *
-     * @param isin the security's ISIN
-     * @param exchangeID the exchange ID
-     * @returns the number of the quotes stored in the database for the security and exchange combination
+     * @returns the IDs and names of the combinations
      */
-    async getQuoteCount(): Promise<QuoteCountData[]> {
+    async getListings(): Promise<ListingInfo[]> {
         return this.repository
+            .createQueryBuilder("q")
+            .select(["q.securityId AS sid", "q.exchangeId AS eid"])
+            .addSelect(["s.isin AS isin", "s.name AS sname", "s.type AS itype", "e.name AS ename"])
+            .addSelect("e.currency", "currency")
+            .innerJoin("q.security", "s")
+            .innerJoin("q.exchange", "e")
+            .groupBy("sid")
+            .addGroupBy("eid")
+            .getRawMany()
+            .then((rows) =>
+                rows.map((x) => ({
+                    securityID: x.sid,
+                    exchangeID: x.eid,
+                    isin: x.isin,
+                    securityName: x.sname,
+                    instrumentType: x.itype,
+                    exchangeName: x.ename,
+                    currency: x.currency
+                }))
+            );
+    }
+
+    /**
+     * Returns the closing prices of several security and exchange combinations, ordered by date.
+     *
+     * @param listings the security and exchange combinations; all if not set
+     * @param startDate the optional first date
+     * @param endDate the optional last date
+     * @returns the closing prices
+     */
+    async getCloses(listings?: ListingID[], startDate?: Date, endDate?: Date): Promise<ClosingPrice[]> {
+        if (listings && listings.length === 0) {
+            return [];
+        }
+
+        const query = this.repository
+            .createQueryBuilder("q")
+            .select(["q.securityId AS sid", "q.exchangeId AS eid", "q.date AS date", "q.close AS close"])
+            .orderBy("q.date");
+
+        if (listings) {
+            query.where(
+                new Brackets((qb) => {
+                    listings.forEach((listing, i) =>
+                        qb.orWhere(`(q.securityId = :sid${i} AND q.exchangeId = :eid${i})`, {
+                            [`sid${i}`]: listing.securityID,
+                            [`eid${i}`]: listing.exchangeID
+                        })
+                    );
+                })
+            );
+        }
+
+        if (startDate) {
+            query.andWhere("q.date >= :start", { start: moment(startDate).format("YYYY-MM-DD") });
+        }
+        if (endDate) {
+            query.andWhere("q.date <= :end", { end: moment(endDate).format("YYYY-MM-DD") });
+        }
+
+        return query.getRawMany().then((rows) =>
+            rows.map((x) => ({
+                securityID: x.sid,
+                exchangeID: x.eid,
+                date: new Date(x.date),
+                close: Number(x.close)
+            }))
+        );
+    }
+
+    /**
+     * Returns the closing prices of several listings, optionally adjusted for corporate actions and converted into a
+     * common currency, grouped by listing.
+     *
+     * @param listings the listings
+     * @param options the date range, price adjustment, and target currency
+     * @returns the closes of each listing ordered by date, keyed by "securityID@exchangeID"
+     */
+    async getCloseSeries(
+        listings: ListingInfo[],
+        options: CloseSeriesOptions = {}
+    ): Promise<Map<string, ClosingPrice[]>> {
+        const adjustments: PriceAdjustments | undefined = options.adjustment?.adjusted
+            ? await this.corporateActionService.getPriceAdjustments(options.adjustment)
+            : undefined;
+        const converter: CurrencyConverter | undefined = options.currency
+            ? await this.fxRateService.getConverter(
+                  options.currency,
+                  listings.map((l) => l.currency)
+              )
+            : undefined;
+        const currencies = new Map<string, string>(
+            listings.map((l) => [`${l.securityID}@${l.exchangeID}`, l.currency])
+        );
+
+        const result = new Map<string, ClosingPrice[]>();
+        for (const c of await this.getCloses(listings, options.startDate, options.endDate)) {
+            const key = `${c.securityID}@${c.exchangeID}`;
+            if (adjustments) {
+                c.close *= adjustments.getFactor(c.securityID, c.exchangeID, c.date);
+            }
+            if (converter) {
+                c.close *= converter.getRate(currencies.get(key) ?? converter.targetCurrency, c.date);
+            }
+
+            const series = result.get(key);
+            if (series) {
+                series.push(c);
+            } else {
+                result.set(key, [c]);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Returns the newest closing price of each security and exchange combination.
+     *
+     * @returns the newest close with its date for each combination
+     */
+    async getNewestQuotes(): Promise<ClosingPrice[]> {
+        return this.repository
+            .createQueryBuilder("q")
+            .select(["sid", "eid", "max_date AS newest_date", "q.close AS close"])
+            .innerJoin(
+                (qb) => this.getMinMaxDates(qb.subQuery()),
+                "mmdates",
+                "q.securityId = sid AND q.exchangeId = eid"
+            )
+            .where("q.date = max_date")
+            .getRawMany()
+            .then((rows) =>
+                rows.map((x) => ({
+                    securityID: x.sid,
+                    exchangeID: x.eid,
+                    date: new Date(x.newest_date),
+                    close: Number(x.close)
+                }))
+            );
+    }
+
+    /**
+     * Returns the number of quotes stored in the database for each security and exchange combination.
+     *
+     * @param isins restricts the counts to these securities; all securities if not set
+     * @returns the number of the quotes stored in the database per security and exchange combination
+     */
+    async getQuoteCount(isins?: string[]): Promise<QuoteCountData[]> {
+        if (isins && isins.length === 0) {
+            return [];
+        }
+
+        const query = this.repository
             .createQueryBuilder("q")
             .select("s.isin ", "isin")
             .innerJoin("q.security", "s")
@@ -128,11 +456,36 @@ class QuoteDataService {
             .groupBy("s.id")
             .addGroupBy("e.id")
             .addSelect("e.name ", "exchange")
-            .addSelect("COUNT(*) ", "count")
+            .addSelect("COUNT(*) ", "count");
+        if (isins) {
+            query.where("s.isin IN (:...isins)", { isins: isins });
+        }
+        return query
             .getRawMany()
             .then((rows) => rows.map((x) => ({ isin: x.isin, exchange: x.exchange, count: Number(x.count) })));
     }
 
+    /**
+     * Converts a quote data entity to the representation sent to clients.
+     *
+     * @param qd the quote data entity
+     * @returns the DTO with all prices converted to numbers
+     */
+    toDTO(qd: QuoteData): QuoteDataDTO {
+        const toNumber = (value?: number | null): number | null =>
+            value === null || value === undefined ? null : Number(value);
+
+        return {
+            date: qd.date,
+            quote: Number(qd.close),
+            open: toNumber(qd.open),
+            high: toNumber(qd.high),
+            low: toNumber(qd.low),
+            close: Number(qd.close),
+            volume: toNumber(qd.volume)
+        };
+    }
+
     getMinMaxDates(qb: SelectQueryBuilder<QuoteData>): SelectQueryBuilder<QuoteData> {
         return qb
             .select([
@@ -145,6 +498,129 @@ class QuoteDataService {
             .groupBy("sid")
             .addGroupBy("eid");
     }
+
+    /**
+     * Converts a single item of an add-quotes request to an entity. Items that only have a single `quote` value are
+     * treated as close-only bars.
+     *
+     * @param item the request item
+     * @param security the security the quote belongs to
+     * @param exchange the exchange the quote belongs to
+     * @returns the newly created entity
+     */
+    toQuoteData(item: QuoteDataItem, security: Security, exchange: SecuritiesExchange): QuoteData {
+        const close = item.close ?? item.quote;
+        if (close == null) {
+            throw new Error(`No closing price given for ${item.date}`);
+        }
+        if (item.high != null && item.low != null && item.high < item.low) {
+            throw new RangeError(`High is lower than low for ${item.date}`);
+        }
+
+        const qd = new QuoteData();
+        qd.security = security;
+        qd.exchange = exchange;
+        qd.date = item.date;
+        qd.open = item.open ?? null;
+        qd.high = item.high ?? null;
+        qd.low = item.low ?? null;
+        qd.close = close;
+        qd.volume = item.volume ?? null;
+        return qd;
+    }
+
+    /**
+     * Loads the stored quotes on the same dates and of the same security and exchange combinations as the given ones.
+     */
+    private async getExisting(itemList: QuoteData[], manager: EntityManager): Promise<QuoteData[]> {
+        const listings = new Map<string, QuoteData[]>();
+        for (const item of itemList) {
+            const key = `${item.security.id}@${item.exchange.id}`;
+            const items = listings.get(key);
+            if (items) {
+                items.push(item);
+            } else {
+                listings.set(key, [item]);
+            }
+        }
+
+        const result: QuoteData[] = [];
+        for (const items of listings.values()) {
+            const { security, exchange } = items[0];
+            const existing = await manager
+                .createQueryBuilder(QuoteData, "q")
+                .where("q.securityId = :sid", { sid: security.id })
+                .andWhere("q.exchangeId = :eid", { eid: exchange.id })
+                .andWhere("q.date IN (:...dates)", { dates: items.map((i) => moment(i.date).format("YYYY-MM-DD")) })
+                .getMany();
+            result.push(...existing.map((q) => Object.assign(q, { security: security, exchange: exchange })));
+        }
+        return result;
+    }
+
+    /**
+     * Multiplies all prices and the volume of the quote with the given factors.
+     */
+    private scale(dto: QuoteDataDTO, priceFactor: number, volumeFactor: number): QuoteDataDTO {
+        const scalePrice = (price: number | null): number | null => (price === null ? null : price * priceFactor);
+
+        return {
+            date: dto.date,
+            quote: dto.close * priceFactor,
+            open: scalePrice(dto.open),
+            high: scalePrice(dto.high),
+            low: scalePrice(dto.low),
+            close: dto.close * priceFactor,
+            volume: dto.volume === null ? null : Math.round(dto.volume * volumeFactor)
+        };
+    }
+
+    private getQuery(
+        isin: string,
+        exchangeID: number,
+        startDate?: string,
+        endDate?: string
+    ): SelectQueryBuilder<QuoteData> {
+        const query = this.repository
+            .createQueryBuilder("q")
+            .innerJoin("q.security", "s")
+            .innerJoin("q.exchange", "e")
+            .where("s.isin = :isin", { isin: isin })
+            .andWhere("e.id = :exid", { exid: exchangeID });
+
+        if (startDate) {
+            const startTimeStamp: number = Date.parse(startDate);
+            if (!isNaN(startTimeStamp)) {
+                // checking the end date makes only sense if the start date is already valid
+                // --> we initialise it with the current date
+                let end: Date = new Date();
+                if (endDate) {
+                    // if the end date was actually set in the query params, try parsing it
+                    const endTimeStamp: number = Date.parse(endDate);
+                    if (!isNaN(endTimeStamp)) {
+                        // if it's a valid date, then overwrite the original value
+                        // ... otherwise it remains the current date from above
+                        end = new Date(endTimeStamp);
+                    }
+                }
+
+                query.andWhere("q.date BETWEEN :start AND :end", {
+                    start: new Date(startTimeStamp).toISOString(),
+                    end: end.toISOString()
+                });
+            }
+        }
+
+        return query;
+    }
 }
 
-export { QuoteDataService, QuoteCountData };
+export {
+    CloseSeriesOptions,
+    ClosingPrice,
+    ListingID,
+    ListingInfo,
+    QuoteDataService,
+    QuoteCountData,
+    QuoteStreamOptions
+};
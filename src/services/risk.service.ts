@@ -0,0 +1,301 @@
+import moment from "moment";
+import { Service } from "typedi";
+
+import { PriceAdjustmentOptions } from "../dtos";
+import { SecurityType } from "../entities";
+import {
+    correlation,
+    covariance,
+    Drawdown,
+    getDrawdown,
+    getPeriodKey,
+    ResampleInterval,
+    sharpeRatio,
+    simpleReturns,
+    sortinoRatio,
+    standardDeviation,
+    valueAtRisk
+} from "../utils";
+import { ListingService } from "./listing.service";
+import { PerformanceInterval } from "./performance-evaluation.service";
+import { ClosingPrice, ListingInfo, QuoteDataService } from "./quote-service";
+
+type RiskOptions = {
+    /** the annual risk-free rate for the Sharpe and Sortino ratios */
+    riskFreeRate?: number;
+    /** the confidence level of the Value-at-Risk, e.g. 0.95 */
+    confidence?: number;
+    /** restricts the listings to a security type */
+    type?: SecurityType;
+    /** restricts the listings to an exchange (by name) */
+    exchange?: string;
+};
+
+/**
+ * The risk statistics of a listing, based on the daily returns within the interval. Volatility and the ratios are
+ * annualized; Value-at-Risk and conditional Value-at-Risk are daily losses as positive fractions.
+ */
+type RiskStatisticsData = {
+    securityISIN: string;
+    securityName: string;
+    instrumentType: string;
+    exchangeName: string;
+    startDate: Date;
+    newestDate: Date;
+    volatility: number | null;
+    maxDrawdown: number;
+    drawdownPeakDate: Date | null;
+    drawdownTroughDate: Date | null;
+    /** null if the price hasn't recovered to the peak yet */
+    drawdownRecoveryDate: Date | null;
+    sharpeRatio: number | null;
+    sortinoRatio: number | null;
+    valueAtRisk: number | null;
+    conditionalVaR: number | null;
+};
+
+type ReturnFrequency = "daily" | "weekly" | "monthly";
+
+type CorrelationMatrixData = {
+    /** the listing identifiers, in the order of the matrix rows and columns */
+    securities: string[];
+    frequency: ReturnFrequency;
+    /** the first and last aligned close the returns are computed from */
+    startDate: Date | null;
+    endDate: Date | null;
+    /** the number of aligned returns */
+    observations: number;
+    correlation: (number | null)[][];
+    /** the covariance of the periodic (not annualized) returns */
+    covariance: (number | null)[][];
+};
+
+const RETURN_INTERVALS: { [frequency in ReturnFrequency]: ResampleInterval } = {
+    daily: "day",
+    weekly: "week",
+    monthly: "month"
+};
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+@Service()
+class RiskService {
+    constructor(private quoteService: QuoteDataService, private listingService: ListingService) {}
+
+    /**
+     * Determines the risk statistics of all listings matching the filters.
+     *
+     * @param interval the interval, counting back from each listing's newest date
+     * @param options the risk-free rate, the confidence level, and the filters
+     * @param adjustment whether to compute the statistics on split- (and dividend-) adjusted prices
+     * @param currency the currency to compute the statistics in; uses each exchange's own currency if not set
+     * @returns the statistics of all listings with at least two returns in the interval
+     */
+    async getRiskStatistics(
+        interval: PerformanceInterval,
+        options: RiskOptions = {},
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<RiskStatisticsData[]> {
+        const listings = (await this.quoteService.getListings()).filter(
+            (l) =>
+                (!options.type || l.instrumentType === options.type) &&
+                (!options.exchange || l.exchangeName === options.exchange)
+        );
+        return this.compute(listings, interval, options, adjustment, currency);
+    }
+
+    /**
+     * Determines the risk statistics of a single security/exchange combination.
+     *
+     * @param isin the security's ISIN
+     * @param exchangeID the exchange ID
+     * @param interval the interval, counting back from the newest date
+     * @param options the risk-free rate and the confidence level
+     * @param adjustment whether to compute the statistics on split- (and dividend-) adjusted prices
+     * @param currency the currency to compute the statistics in; uses the exchange's own currency if not set
+     * @returns the statistics
+     */
+    async getListingRiskStatistics(
+        isin: string,
+        exchangeID: number,
+        interval: PerformanceInterval,
+        options: RiskOptions = {},
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<RiskStatisticsData> {
+        const listings = (await this.quoteService.getListings()).filter(
+            (l) => l.isin === isin && l.exchangeID === Number(exchangeID)
+        );
+        const result = await this.compute(listings, interval, options, adjustment, currency);
+        if (result.length === 0) {
+            throw new Error(`Not enough quotes for ${isin} on exchange ${exchangeID}`);
+        }
+        return result[0];
+    }
+
+    /**
+     * Computes the correlation and covariance matrices of the listings' returns.
+     *
+     * The returns are computed on aligned closes: each series is first reduced to the last close per day, week, or
+     * month, and only the periods in which all listings have a close are kept (listwise deletion). A period missing in
+     * any series is therefore not discarded as a return but merged into the next one, i.e. the following return spans
+     * from the last common close. Days without a quote are never filled with previous prices, since that would show up
+     * as artificial zero returns.
+     *
+     * @param securities the listings as ISIN, or as "ISIN@exchange" to choose the exchange
+     * @param interval the window, counting back from the end date
+     * @param frequency the return frequency
+     * @param endDate the end of the window; the newest quote if not set
+     * @param adjustment whether to compute the returns on split- (and dividend-) adjusted prices
+     * @param currency the currency to compute all returns in; uses each exchange's own currency if not set
+     * @returns the matrices
+     */
+    async getCorrelationMatrix(
+        securities: string[],
+        interval: PerformanceInterval,
+        frequency: ReturnFrequency = "daily",
+        endDate?: string,
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<CorrelationMatrixData> {
+        if (securities.length < 2) {
+            throw new Error("At least two securities are needed");
+        }
+        if (!RETURN_INTERVALS[frequency]) {
+            throw new Error(`Unknown return frequency: ${frequency}`);
+        }
+        if (!Number.isInteger(interval.count) || interval.count < 1) {
+            throw new RangeError("Interval count must be positive");
+        }
+
+        const listings = await this.listingService.resolveListings(securities);
+        let end: Date;
+        if (endDate) {
+            end = moment(endDate).toDate();
+        } else {
+            const keys = new Set(listings.map((l) => this.getKey(l)));
+            const newestDates = (await this.quoteService.getNewestQuotes())
+                .filter((q) => keys.has(`${q.securityID}@${q.exchangeID}`))
+                .map((q) => q.date.valueOf());
+            if (newestDates.length === 0) {
+                throw new Error("There are no quotes for the given securities");
+            }
+            end = new Date(newestDates.reduce((newest, date) => Math.max(newest, date)));
+        }
+        const series = await this.quoteService.getCloseSeries(listings, {
+            startDate: moment(end).subtract(interval.count, interval.unit).toDate(),
+            endDate: end,
+            adjustment: adjustment,
+            currency: currency
+        });
+
+        // the last close of each period, per listing
+        const periodCloses = listings.map((listing) => {
+            const closes = new Map<string, ClosingPrice>();
+            for (const c of series.get(this.getKey(listing)) ?? []) {
+                closes.set(getPeriodKey(c.date, RETURN_INTERVALS[frequency]), c);
+            }
+            return closes;
+        });
+
+        const common = [...periodCloses[0].keys()].filter((period) => periodCloses.every((m) => m.has(period))).sort();
+        const returns = periodCloses.map((closes) =>
+            simpleReturns(common.map((period) => (closes.get(period) as ClosingPrice).close))
+        );
+        const matrix = (f: (x: number[], y: number[]) => number | null) =>
+            returns.map((x) => returns.map((y) => f(x, y)));
+
+        return {
+            securities: securities,
+            frequency: frequency,
+            startDate: common.length > 0 ? periodCloses[0].get(common[0])?.date ?? null : null,
+            endDate: common.length > 0 ? periodCloses[0].get(common[common.length - 1])?.date ?? null : null,
+            observations: returns[0].length,
+            correlation: matrix(correlation),
+            covariance: matrix(covariance)
+        };
+    }
+
+    private async compute(
+        listings: ListingInfo[],
+        interval: PerformanceInterval,
+        options: RiskOptions,
+        adjustment?: PriceAdjustmentOptions,
+        currency?: string
+    ): Promise<RiskStatisticsData[]> {
+        if (!Number.isInteger(interval.count) || interval.count < 1) {
+            throw new RangeError("Interval count must be positive");
+        }
+        if (listings.length === 0) {
+            return [];
+        }
+
+        const newestDates = new Map<string, Date>(
+            (await this.quoteService.getNewestQuotes()).map((q) => [`${q.securityID}@${q.exchangeID}`, q.date])
+        );
+        const getStart = (date: Date) => moment(date).subtract(interval.count, interval.unit).toDate();
+        const starts = listings
+            .map((l) => newestDates.get(this.getKey(l)))
+            .filter((date): date is Date => date !== undefined)
+            .map((date) => getStart(date).valueOf());
+        // Math.min of nothing would be an invalid start date
+        if (starts.length === 0) {
+            return [];
+        }
+        const oldest = starts.reduce((first, start) => Math.min(first, start));
+
+        const series = await this.quoteService.getCloseSeries(listings, {
+            startDate: new Date(oldest),
+            adjustment: adjustment,
+            currency: currency
+        });
+
+        const result: RiskStatisticsData[] = [];
+        for (const listing of listings) {
+            const all: ClosingPrice[] = series.get(this.getKey(listing)) ?? [];
+            if (all.length === 0) {
+                continue;
+            }
+            const start = getStart(all[all.length - 1].date).valueOf();
+            const closes = all.filter((c) => c.date.valueOf() >= start);
+            if (closes.length < 3) {
+                continue;
+            }
+
+            const values = closes.map((c) => c.close);
+            const returns = simpleReturns(values);
+            const sd = standardDeviation(returns);
+            const drawdown: Drawdown = getDrawdown(values);
+            const hasDrawdown = drawdown.drawdown > 0;
+            const recoveryIndex = drawdown.recoveryIndex;
+            const risk = valueAtRisk(returns, options.confidence ?? 0.95);
+
+            result.push({
+                securityISIN: listing.isin,
+                securityName: listing.securityName,
+                instrumentType: listing.instrumentType,
+                exchangeName: listing.exchangeName,
+                startDate: closes[0].date,
+                newestDate: closes[closes.length - 1].date,
+                volatility: sd === null ? null : sd * Math.sqrt(TRADING_DAYS_PER_YEAR),
+                maxDrawdown: drawdown.drawdown,
+                drawdownPeakDate: hasDrawdown ? closes[drawdown.peakIndex].date : null,
+                drawdownTroughDate: hasDrawdown ? closes[drawdown.troughIndex].date : null,
+                drawdownRecoveryDate: recoveryIndex === null ? null : closes[recoveryIndex].date,
+                sharpeRatio: sharpeRatio(returns, TRADING_DAYS_PER_YEAR, options.riskFreeRate ?? 0),
+                sortinoRatio: sortinoRatio(returns, TRADING_DAYS_PER_YEAR, options.riskFreeRate ?? 0),
+                valueAtRisk: risk ? risk.valueAtRisk : null,
+                conditionalVaR: risk ? risk.conditionalVaR : null
+            });
+        }
+
+        return result;
+    }
+
+    private getKey(listing: ListingInfo): string {
+        return `${listing.securityID}@${listing.exchangeID}`;
+    }
+}
+
+export { CorrelationMatrixData, ReturnFrequency, RiskOptions, RiskService, RiskStatisticsData };
@@ -1,14 +1,24 @@
-import config from "config";
+import moment from "moment";
 import { Service } from "typedi";
-import { Connection, getConnection, SelectQueryBuilder } from "typeorm";
-import { QuoteData } from "../entities";
-import { QuoteDataService } from "./quote-service";
+import { PriceAdjustmentOptions } from "../dtos";
+import { lastPerPeriod, PriceAdjustments, rsl, TradingCalendar } from "../utils";
+import { CorporateActionService } from "./corporate-action-service";
+import { ExchangeService } from "./exchange-service";
+import { IndicatorService } from "./indicator.service";
+import { ListingFilter } from "./listing.service";
+import { ClosingPrice, ListingID, ListingInfo, QuoteDataService } from "./quote-service";
 
 enum RSLevyAlgorithm {
     WEEKLY = "weekly",
     DAILY = "daily"
 }
 
+/** the default number of weeks or days the average is taken over */
+const RSL_DEFAULT_PERIODS: { [algorithm in RSLevyAlgorithm]: number } = {
+    weekly: 27,
+    daily: 200
+};
+
 type RSLevyResponseData = {
     securityISIN: string;
     securityName: string;
@@ -18,247 +28,318 @@ type RSLevyResponseData = {
     rslValue: number;
 };
 
-type RSLevyWeeklyData = {
-    securityISIN: string;
-    securityName: string;
-    instrumentType: string;
-    exchangeName: string;
-    lastDayOfWeek: Date;
-    lastPriceOfWeek: number;
+type RSLevyRankingData = RSLevyResponseData & {
+    /** 1 for the listing with the highest RSL value; listings without a valid value (NaN) are ranked last */
+    rank: number;
+    /** the percentage of the other listings ranked lower; listings with the same value are ranked in any order */
+    percentile: number;
+};
+
+type RSLevySeriesData = {
+    date: Date;
+    rslValue: number;
+};
+
+/** the last trading day of a listing's newest complete week */
+type WeekEnd = ListingID & {
+    date: Date;
 };
 
 @Service()
 class RSLevyService {
-    private connection: Connection;
+    constructor(
+        private service: QuoteDataService,
+        private corporateActionService: CorporateActionService,
+        private indicatorService: IndicatorService,
+        private exchangeService: ExchangeService
+    ) {}
 
-    constructor(private service: QuoteDataService) {
-        this.connection = getConnection(config.get("ormconfig.connection"));
-    }
-
-    async getRSLevyData(algorithm: RSLevyAlgorithm): Promise<RSLevyResponseData[]> {
+    /**
+     * Determines the newest RSL values of all security/exchange combinations with enough data.
+     *
+     * @param algorithm the weekly or daily RSL algorithm
+     * @param adjustment whether to compute the values on split- (and dividend-) adjusted prices
+     * @param period the number of weeks (weekly) or days (daily) to average over; defaults to 27 weeks or 200 days
+     * @returns the RSL data
+     */
+    async getRSLevyData(
+        algorithm: RSLevyAlgorithm,
+        adjustment?: PriceAdjustmentOptions,
+        period?: number
+    ): Promise<RSLevyResponseData[]> {
+        const periods = this.getPeriods(algorithm, period);
+        const adjustments: PriceAdjustments | undefined = adjustment?.adjusted
+            ? await this.corporateActionService.getPriceAdjustments(adjustment)
+            : undefined;
         if (algorithm == RSLevyAlgorithm.DAILY) {
-            return this.getRSLevyDaily();
+            return this.getRSLevyDaily(periods, adjustments);
         }
-
-        return this.getRSLevyWeekly();
+        return this.getRSLevyWeekly(periods, adjustments);
     }
 
-    private async getRSLevyWeekly(): Promise<RSLevyResponseData[]> {
-        type TempElemType = {
-            isin: string;
-            exchange: string;
-            items: RSLevyWeeklyData[];
-        };
+    /**
+     * Determines the RSL time series of a single security/exchange combination.
+     *
+     * @param isin the security's ISIN
+     * @param exchangeID the exchange ID
+     * @param algorithm the weekly or daily RSL algorithm; the weekly series has one value per week
+     * @param startDate the first date of the series; the complete history if not set
+     * @param endDate the last date of the series; the newest quote if not set
+     * @param adjustment whether to compute the values on split- (and dividend-) adjusted prices
+     * @param period the number of weeks (weekly) or days (daily) to average over; defaults to 27 weeks or 200 days
+     * @returns the RSL values, ordered by date; dates without enough history for the average are left out
+     */
+    async getRSLevySeries(
+        isin: string,
+        exchangeID: number,
+        algorithm: RSLevyAlgorithm,
+        startDate?: string,
+        endDate?: string,
+        adjustment?: PriceAdjustmentOptions,
+        period?: number
+    ): Promise<RSLevySeriesData[]> {
+        const weekly = algorithm !== RSLevyAlgorithm.DAILY;
+        const points = await this.indicatorService.getIndicator(
+            isin,
+            exchangeID,
+            "rsl",
+            { interval: weekly ? "weekly" : "daily", period: this.getPeriods(algorithm, period) },
+            startDate,
+            endDate,
+            adjustment
+        );
 
-        const queryResult: RSLevyWeeklyData[] = await this.getRawRSLevyData();
+        const result: RSLevySeriesData[] = [];
+        for (const point of points) {
+            if (typeof point.value === "number") {
+                result.push({ date: point.date, rslValue: point.value });
+            }
+        }
+        return result;
+    }
 
-        // partition the array of query results into an array where all elements with the same ISIN
-        // and exchange are grouped together
-        const tempArray = queryResult.reduce((obj: TempElemType[], item: RSLevyWeeklyData) => {
-            // find out whether there is already an element with the same ISIN and exchange
-            const elem = obj.filter(
-                (e: TempElemType) => e.isin === item.securityISIN && e.exchange == item.exchangeName
-            );
+    /**
+     * Ranks all security/exchange combinations by their RSL value as of a past date, using only the quotes known at
+     * that date. Like `getRSLevyData`, the weekly algorithm only uses the weeks complete at that date, according to each
+     * exchange's trading calendar.
+     *
+     * @param algorithm the weekly or daily RSL algorithm
+     * @param asOf the date of the ranking
+     * @param adjustment whether to compute the values on split- (and dividend-) adjusted prices
+     * @param period the number of weeks (weekly) or days (daily) to average over; defaults to 27 weeks or 200 days
+     * @param include restricts the ranking to the listings it accepts; all listings if not set
+     * @returns the ranking, best first and listings without a valid RSL value (NaN) last
+     */
+    async getRSLevyRanking(
+        algorithm: RSLevyAlgorithm,
+        asOf: Date,
+        adjustment?: PriceAdjustmentOptions,
+        period?: number,
+        include?: ListingFilter
+    ): Promise<RSLevyRankingData[]> {
+        const periods = this.getPeriods(algorithm, period);
+        const weekly = algorithm !== RSLevyAlgorithm.DAILY;
+        const adjustments: PriceAdjustments | undefined = adjustment?.adjusted
+            ? await this.corporateActionService.getPriceAdjustments(adjustment)
+            : undefined;
 
-            if (elem.length === 0) {
-                // if not, create a new element
-                obj.push({ isin: item.securityISIN, exchange: item.exchangeName, items: [item] });
-            } else {
-                // ... otherwise add the item data to the existing element
-                elem[0].items.push(item);
-            }
-            return obj;
-        }, []);
+        const end = moment(asOf).startOf("day");
+        // trading days are roughly 5/7 of the calendar days; the margin covers holidays and missing quotes
+        const start = weekly
+            ? end.clone().subtract(periods + 2, "weeks")
+            : end.clone().subtract(Math.ceil((periods * 7) / 5) + 30, "days");
 
-        // the result array
-        const levyResult: RSLevyResponseData[] = [];
+        const calendars = await this.exchangeService.getCalendars();
+        // filtering before ranking makes the ranks relative to the chosen listings only
+        const listings: ListingInfo[] = (await this.service.getListings()).filter(
+            (l) => !include || include(l.isin, l.exchangeName)
+        );
+        const closesByListing = this.groupByListing(
+            await this.service.getCloses(include ? listings : undefined, start.toDate(), end.toDate())
+        );
 
-        // tempArray is now partitioned; there is exactly one entry for each ISIN/exchange combination
-        for (const elem of tempArray) {
-            // skip this entry if there's not enough data for the RSL evaluation
-            if (elem.items.length < 27) {
-                // console.log(`Not enough data for ${elem.isin}@${elem.exchange} -- only ${elem.items.length} weeks`);
+        const unranked: RSLevyResponseData[] = [];
+        for (const listing of listings) {
+            let prices = closesByListing.get(`${listing.securityID}@${listing.exchangeID}`) ?? [];
+            if (weekly) {
+                // only the complete weeks count, so the week ends on the exchange's last trading day of the week
+                const calendar = calendars.get(listing.exchangeID) ?? new TradingCalendar();
+                prices = this.getWeeklyCloses(prices, calendar.getLastCompleteWeekEnd(asOf), periods);
+            }
+            if (prices.length < periods) {
                 continue;
             }
 
-            // sort all elements by date in descending order; use only the newest 27 elements
-            const sortedItems = elem.items
-                .sort((a, b) => b.lastDayOfWeek.valueOf() - a.lastDayOfWeek.valueOf())
-                .slice(0, 27);
+            const values = prices.map((c) =>
+                adjustments ? c.close * adjustments.getFactor(c.securityID, c.exchangeID, c.date) : c.close
+            );
+            unranked.push({
+                securityISIN: listing.isin,
+                securityName: listing.securityName,
+                instrumentType: listing.instrumentType,
+                exchangeName: listing.exchangeName,
+                newestWeeklyClose: prices[prices.length - 1].date,
+                rslValue: rsl(values, periods)[values.length - 1] ?? NaN
+            });
+        }
 
-            const newest = sortedItems[0];
+        // NaN can't be compared, so it is sorted explicitly; otherwise the order of all listings would be undefined
+        unranked.sort((a, b) =>
+            isNaN(a.rslValue) || isNaN(b.rslValue)
+                ? Number(isNaN(a.rslValue)) - Number(isNaN(b.rslValue))
+                : b.rslValue - a.rslValue
+        );
+        return unranked.map((data, i) => ({
+            ...data,
+            rank: i + 1,
+            percentile: unranked.length > 1 ? ((unranked.length - 1 - i) / (unranked.length - 1)) * 100 : 100
+        }));
+    }
+
+    private getPeriods(algorithm: RSLevyAlgorithm, period?: number): number {
+        const periods = period ?? RSL_DEFAULT_PERIODS[algorithm] ?? RSL_DEFAULT_PERIODS.weekly;
+        if (!Number.isInteger(periods) || periods < 2) {
+            throw new RangeError(`RSL period must be an integer of at least 2: ${period}`);
+        }
+        return periods;
+    }
 
-            // create a new result entry
+    private async getRSLevyWeekly(weeks: number, adjustments?: PriceAdjustments): Promise<RSLevyResponseData[]> {
+        const weekEnds: WeekEnd[] = await this.getWeekEnds();
+        if (weekEnds.length === 0) {
+            return [];
+        }
+
+        const listings = new Map<string, ListingInfo>(
+            (await this.service.getListings()).map((l) => [`${l.securityID}@${l.exchangeID}`, l])
+        );
+        const oldest = weekEnds.reduce((first, w) => (w.date < first ? w.date : first), weekEnds[0].date);
+        const closesByListing = this.groupByListing(
+            await this.service.getCloses(
+                undefined,
+                moment(oldest)
+                    .subtract(weeks + 1, "weeks")
+                    .toDate()
+            )
+        );
+
+        const levyResult: RSLevyResponseData[] = [];
+        for (const weekEnd of weekEnds) {
+            const key = `${weekEnd.securityID}@${weekEnd.exchangeID}`;
+            const listing = listings.get(key);
+            const prices = this.getWeeklyCloses(closesByListing.get(key) ?? [], weekEnd.date, weeks);
+            // skip the listing if there's not enough data for the RSL evaluation
+            if (!listing || prices.length < weeks) {
+                continue;
+            }
+
+            const values = prices.map((c) =>
+                adjustments ? c.close * adjustments.getFactor(c.securityID, c.exchangeID, c.date) : c.close
+            );
             levyResult.push({
-                securityISIN: newest.securityISIN,
-                securityName: newest.securityName,
-                instrumentType: newest.instrumentType,
-                exchangeName: newest.exchangeName,
-                newestWeeklyClose: newest.lastDayOfWeek,
-                rslValue:
-                    (newest.lastPriceOfWeek * sortedItems.length) /
-                    sortedItems.reduce((sum, elem) => sum + elem.lastPriceOfWeek, 0.0)
+                securityISIN: listing.isin,
+                securityName: listing.securityName,
+                instrumentType: listing.instrumentType,
+                exchangeName: listing.exchangeName,
+                newestWeeklyClose: prices[prices.length - 1].date,
+                rslValue: rsl(values, weeks)[values.length - 1] ?? NaN
             });
         }
 
         return levyResult;
     }
 
-    private async getRawRSLevyData(): Promise<RSLevyWeeklyData[]> {
-        return this.connection
-            .createQueryBuilder()
-            .select([
-                "s.isin AS isin",
-                "s.name AS sname",
-                "s.type AS itype",
-                "e.name AS ename",
-                "last_date_of_week",
-                "q.quote AS last_price_of_week"
-            ])
-            .from(QuoteData, "q")
-            .leftJoin("q.security", "s")
-            .leftJoin("q.exchange", "e")
-            .leftJoin(
-                (qb) => this.getWeeklyCloseDates(qb.subQuery()),
-                "ldows",
-                "q.securityId = ldows.sid AND q.exchangeId = ldows.eid"
-            )
-            .where("q.date = ldows.last_date_of_week")
-            .groupBy("sid")
-            .addGroupBy("eid")
-            .addGroupBy("last_date_of_week")
-            .getRawMany()
-            .then((rawData) =>
-                rawData.map((x) => ({
-                    securityISIN: x.isin,
-                    securityName: x.sname,
-                    instrumentType: x.itype,
-                    exchangeName: x.ename,
-                    lastDayOfWeek: new Date(x.last_date_of_week),
-                    lastPriceOfWeek: Number(x.last_price_of_week)
-                }))
-            );
+    /**
+     * Keeps the last close of each of the complete weeks up to the given week end, plus the week before in case the
+     * oldest week lacks quotes.
+     *
+     * @param closes the closes of a listing, ordered by date
+     * @param weekEnd the last trading day of the newest complete week
+     * @param weeks the number of weeks
+     * @returns the weekly closes, ordered by date
+     */
+    private getWeeklyCloses(closes: ClosingPrice[], weekEnd: Date, weeks: number): ClosingPrice[] {
+        const end = moment(weekEnd);
+        const start = end.clone().subtract(weeks + 1, "weeks");
+        return lastPerPeriod(
+            closes.filter((c) => !end.isBefore(c.date, "day") && !start.isAfter(c.date, "day")),
+            "week"
+        );
     }
 
-    private getWeeklyCloseDates(qb: SelectQueryBuilder<QuoteData>): SelectQueryBuilder<QuoteData> {
-        return qb
-            .select(["sid", "eid", "MAX(q.date) AS last_date_of_week"])
-            .from(QuoteData, "q")
-            .leftJoin(
-                (qb) => this.getLast28Weeks(qb.subQuery()),
-                "weekly",
-                "q.securityId = weekly.sid AND q.exchangeId = weekly.eid"
-            )
-            .where("YEARWEEK(q.date, 3) = weekly.year_week")
-            .groupBy("sid")
-            .addGroupBy("eid")
-            .addGroupBy("weekly.year_week");
+    private groupByListing(closes: ClosingPrice[]): Map<string, ClosingPrice[]> {
+        const closesByListing = new Map<string, ClosingPrice[]>();
+        for (const c of closes) {
+            const key = `${c.securityID}@${c.exchangeID}`;
+            const list = closesByListing.get(key);
+            if (list) {
+                list.push(c);
+            } else {
+                closesByListing.set(key, [c]);
+            }
+        }
+        return closesByListing;
     }
 
-    private getLast28Weeks(qb: SelectQueryBuilder<QuoteData>): SelectQueryBuilder<QuoteData> {
-        return qb
-            .select(["sid", "eid", "YEARWEEK(q.date, 3) AS year_week"])
-            .from(QuoteData, "q")
-            .leftJoin(
-                (qb) => this.getLatestWeekCloseDate(qb.subQuery()),
-                "wcds",
-                "q.securityId = wcds.sid AND q.exchangeId = wcds.eid"
-            )
-            .where("q.date <= wcds.close_date")
-            .andWhere("q.date > DATE_SUB(wcds.close_date, INTERVAL 28 WEEK)")
-            .groupBy("sid")
-            .addGroupBy("eid")
-            .addGroupBy("YEARWEEK(q.date, 3)");
+    /**
+     * Determines the newest complete week of each listing according to its exchange's trading calendar.
+     */
+    private async getWeekEnds(): Promise<WeekEnd[]> {
+        const calendars = await this.exchangeService.getCalendars();
+        return (await this.service.getNewestQuotes()).map((q) => ({
+            securityID: q.securityID,
+            exchangeID: q.exchangeID,
+            date: (calendars.get(q.exchangeID) ?? new TradingCalendar()).getLastCompleteWeekEnd(q.date)
+        }));
     }
 
-    private getLatestWeekCloseDate(qb: SelectQueryBuilder<QuoteData>): SelectQueryBuilder<QuoteData> {
-        return qb
-            .select(["sid", "eid", "MAX(q.date) AS close_date"])
-            .from(QuoteData, "q")
-            .leftJoin(
-                (qb) => this.service.getMinMaxDates(qb.subQuery()),
-                "ndates",
-                "q.securityId = ndates.sid AND q.exchangeId = ndates.eid"
-            )
-            .where("q.date <= DATE_SUB(ndates.max_date, INTERVAL ((3 + WEEKDAY(ndates.max_date)) % 7) DAY)")
-            .groupBy("sid")
-            .addGroupBy("eid");
-    }
+    /**
+     * Computes the daily RSL of each listing as of its newest quote.
+     */
+    private async getRSLevyDaily(days: number, adjustments?: PriceAdjustments): Promise<RSLevyResponseData[]> {
+        const newestQuotes = await this.service.getNewestQuotes();
+        if (newestQuotes.length === 0) {
+            return [];
+        }
 
-    private async getRSLevyDaily(): Promise<RSLevyResponseData[]> {
-        return this.connection
-            .createQueryBuilder()
-            .select("sid")
-            .addSelect("s.isin", "isin")
-            .addSelect("s.name", "sname")
-            .addSelect("s.type", "itype")
-            .addSelect("eid")
-            .addSelect("e.name", "ename")
-            .addSelect("max_date")
-            .addSelect("q.quote", "close_price")
-            .from(QuoteData, "q")
-            .innerJoin("q.security", "s")
-            .innerJoin("q.exchange", "e")
-            .innerJoin(
-                (qb) => this.getLatestDate200(qb.subQuery()),
-                "md200",
-                "q.securityId = md200.sid AND q.exchangeId = md200.eid"
+        const listings = new Map<string, ListingInfo>(
+            (await this.service.getListings()).map((l) => [`${l.securityID}@${l.exchangeID}`, l])
+        );
+        const oldest = newestQuotes.reduce((first, q) => (q.date < first ? q.date : first), newestQuotes[0].date);
+        // trading days are roughly 5/7 of the calendar days; the margin covers holidays and missing quotes
+        const closesByListing = this.groupByListing(
+            await this.service.getCloses(
+                undefined,
+                moment(oldest)
+                    .subtract(Math.ceil((days * 7) / 5) + 30, "days")
+                    .toDate()
             )
-            .where("q.date = md200.max_date")
-            .getRawMany()
-            .then(async (data) => {
-                const result: RSLevyResponseData[] = [];
-
-                for (const row of data) {
-                    const { sid, isin, sname, itype, eid, ename, max_date, close_price } = row;
-                    const avg = await this.connection
-                        .createQueryBuilder()
-                        .select(["sid", "eid"])
-                        .addSelect("AVG(lat200.price)", "average")
-                        .from((qb) => this.getLatest200Rows(qb.subQuery(), sid, eid), "lat200")
-                        .getRawOne();
+        );
 
-                    result.push({
-                        securityISIN: isin,
-                        securityName: sname,
-                        instrumentType: itype,
-                        exchangeName: ename,
-                        newestWeeklyClose: new Date(max_date),
-                        rslValue: Number(close_price / avg.average)
-                    });
-                }
+        const result: RSLevyResponseData[] = [];
+        for (const newest of newestQuotes) {
+            const key = `${newest.securityID}@${newest.exchangeID}`;
+            const listing = listings.get(key);
+            const prices = (closesByListing.get(key) ?? []).slice(-days);
+            // skip the listing if there's not enough data for the RSL evaluation
+            if (!listing || prices.length < days) {
+                continue;
+            }
 
-                return result;
+            const values = prices.map((c) =>
+                adjustments ? c.close * adjustments.getFactor(c.securityID, c.exchangeID, c.date) : c.close
+            );
+            result.push({
+                securityISIN: listing.isin,
+                securityName: listing.securityName,
+                instrumentType: listing.instrumentType,
+                exchangeName: listing.exchangeName,
+                newestWeeklyClose: newest.date,
+                rslValue: rsl(values, days)[values.length - 1] ?? NaN
             });
-    }
-
-    private getLatest200Rows(
-        qb: SelectQueryBuilder<QuoteData>,
-        sid: number,
-        eid: number
-    ): SelectQueryBuilder<QuoteData> {
-        return qb
-            .select("q.securityId", "sid")
-            .addSelect("q.exchangeId", "eid")
-            .addSelect("q.date", "qdate")
-            .addSelect("q.quote", "price")
-            .from(QuoteData, "q")
-            .where("q.securityId = :sid", { sid: sid })
-            .andWhere("q.exchangeId = :eid", { eid: eid })
-            .orderBy("q.date", "DESC")
-            .limit(200);
-    }
-
-    private getLatestDate200(qb: SelectQueryBuilder<QuoteData>): SelectQueryBuilder<QuoteData> {
-        return qb
-            .select("q.securityId", "sid")
-            .addSelect("q.exchangeId", "eid")
-            .addSelect("MAX(q.date)", "max_date")
-            .from(QuoteData, "q")
-            .groupBy("sid")
-            .addGroupBy("eid")
-            .having("COUNT(*) >= 200");
+        }
+        return result;
     }
 }
 
-export { RSLevyAlgorithm, RSLevyResponseData, RSLevyService };
+export { RSL_DEFAULT_PERIODS, RSLevyAlgorithm, RSLevyRankingData, RSLevyResponseData, RSLevySeriesData, RSLevyService };
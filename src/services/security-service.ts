@@ -1,45 +1,254 @@
 import config from "config";
-
+import moment from "moment";
 import { Service } from "typedi";
-import { FindConditions, getRepository, InsertResult, Repository } from "typeorm";
+import { Brackets, FindConditions, getRepository, In, Repository } from "typeorm";
+
+import { CertificateTermsDTO, CertificateTermsRequest, CreateSecurityRequest, SecurityFilter } from "../dtos";
+import { CertificateDetails, Security, SecurityType } from "../entities";
+import { splitByGivenFields, validateRequests } from "../utils";
+import { ChangeHistoryService } from "./change-history.service";
+
+/** the optional master data fields, which have columns of the same name */
+const MASTER_DATA_FIELDS = [
+    "country",
+    "sector",
+    "industry",
+    "currency",
+    "wkn",
+    "ticker",
+    "figi",
+    "issuer",
+    "ter",
+    "tags"
+] as const;
 
-import { CreateSecurityRequest } from "../dtos";
-import { Security } from "../entities";
+/** the fields that are only overwritten if an update gives them; all but the benchmark have columns of the same name */
+const OPTIONAL_SECURITY_FIELDS = [...MASTER_DATA_FIELDS, "isBenchmark", "benchmark"] as const;
 
 @Service()
 class SecuritiesService {
     private repository: Repository<Security>;
+    private certificateRepository: Repository<CertificateDetails>;
 
-    constructor() {
+    constructor(private historyService: ChangeHistoryService) {
         this.repository = getRepository<Security>(Security, config.get("ormconfig.connection"));
+        this.certificateRepository = getRepository<CertificateDetails>(
+            CertificateDetails,
+            config.get("ormconfig.connection")
+        );
     }
 
-    async getAll(): Promise<Security[]> {
-        return this.repository.find();
+    async getAll(relations: string[] = []): Promise<Security[]> {
+        return this.repository.find({ relations: relations });
+    }
+
+    /**
+     * Returns the securities matching the filter.
+     *
+     * @param filter the filter; all securities if empty
+     * @returns the securities
+     */
+    async find(filter: SecurityFilter = {}): Promise<Security[]> {
+        const query = this.repository.createQueryBuilder("s");
+        if (filter.type) {
+            query.andWhere("s.type = :type", { type: filter.type });
+        }
+        for (const field of ["country", "sector", "industry", "currency", "issuer"] as const) {
+            if (filter[field]) {
+                query.andWhere(`LOWER(s.${field}) = LOWER(:${field})`, { [field]: filter[field] });
+            }
+        }
+        if (filter.tag) {
+            // the tags are stored comma-separated, which is exactly what FIND_IN_SET expects
+            query.andWhere("FIND_IN_SET(LOWER(:tag), LOWER(s.tags)) > 0", { tag: filter.tag });
+        }
+        if (filter.search) {
+            // % and _ are searched for literally
+            const search = `%${filter.search.replace(/[\\%_]/g, "\\$&")}%`;
+            query.andWhere(
+                new Brackets((qb) => {
+                    for (const field of ["name", "isin", "nsin", "wkn", "ticker", "figi", "issuer"]) {
+                        qb.orWhere(`s.${field} LIKE :search`, { search: search });
+                    }
+                })
+            );
+        }
+        return query.getMany();
+    }
+
+    /**
+     * Returns the ISINs of the securities matching the filter, to restrict evaluations to them.
+     *
+     * @param filter the filter
+     * @returns the ISINs, or undefined if the filter is empty and therefore matches all securities
+     */
+    async getMatchingISINs(filter: SecurityFilter): Promise<Set<string> | undefined> {
+        if (!Object.values(filter).some((value) => value)) {
+            return undefined;
+        }
+        return new Set((await this.find(filter)).map((s) => s.isin));
     }
 
     async getOne(condition: FindConditions<Security>): Promise<Security> {
         return this.repository.findOneOrFail(condition);
     }
 
+    /**
+     * Looks up a security by its ISIN, its NSIN, its WKN, or its FIGI.
+     *
+     * @param identifier the ISIN, NSIN, WKN, or FIGI of the security
+     * @returns the security
+     */
+    async getByIdentifier(identifier: string): Promise<Security> {
+        return this.repository.findOneOrFail({
+            where: [{ isin: identifier }, { nsin: identifier }, { wkn: identifier }, { figi: identifier }]
+        });
+    }
+
     /**
      * Adds a security (or list of securities) to the database (or tries to update an item in case there is already
      * one with the same ISIN).
      *
      * @param data The DTO (or list of DTOs) containing the data for the security to be added.
-     * @returns An InsertResponse object.
+     * @param source who made the change, for the change history
+     */
+    async addOrUpdate(data: CreateSecurityRequest | CreateSecurityRequest[], source?: string): Promise<void> {
+        const requests = await validateRequests(CreateSecurityRequest, data);
+        const result: Security[] = [];
+        const certificates: CertificateDetails[] = [];
+        for (const req of requests) {
+            result.push(await this.toSecurity(req));
+            if (req.certificate) {
+                certificates.push(await this.toCertificate(req, req.certificate));
+            }
+        }
+
+        const isins = { isin: In(requests.map((req) => req.isin)) };
+        // only overwrite the optional fields a security actually gives; they would be reset otherwise. A benchmark of
+        // null removes it.
+        const runs = splitByGivenFields(
+            result,
+            OPTIONAL_SECURITY_FIELDS,
+            (security, field) => security[field] !== undefined
+        );
+        // a security isn't stored without its certificate terms and its change history
+        await this.repository.manager.transaction(async (manager) => {
+            const before = await manager.find(Security, { where: isins, relations: ["benchmark"] });
+            for (const run of runs) {
+                await manager
+                    .createQueryBuilder()
+                    .insert()
+                    .into(Security)
+                    .values(run.items)
+                    .orUpdate({
+                        conflict_target: ["isin"],
+                        overwrite: [
+                            "nsin",
+                            "name",
+                            "type",
+                            ...run.fields.map((field) => (field === "benchmark" ? "benchmarkId" : field))
+                        ]
+                    })
+                    .execute();
+            }
+
+            // the terms can only be linked once the certificates are stored
+            for (const certificate of certificates) {
+                certificate.security = await manager.findOneOrFail(Security, { isin: certificate.security.isin });
+                const existing = await manager.findOne(CertificateDetails, {
+                    where: { security: certificate.security }
+                });
+                certificate.id = existing?.id ?? certificate.id;
+                await manager.save(certificate);
+            }
+
+            await this.historyService.recordSecurities(
+                before,
+                await manager.find(Security, { where: isins, relations: ["benchmark"] }),
+                source,
+                manager
+            );
+        });
+    }
+
+    /**
+     * Returns the terms of a certificate.
+     *
+     * @param isin the certificate's ISIN
+     * @returns the terms
      */
-    async addOrUpdate(data: CreateSecurityRequest | CreateSecurityRequest[]): Promise<InsertResult> {
-        const result: Security | Security[] = Array.isArray(data)
-            ? data.map((req: CreateSecurityRequest) => this.toSecurity(req))
-            : this.toSecurity(data);
+    async getCertificateTerms(isin: string): Promise<CertificateTermsDTO> {
+        const security = await this.repository.findOneOrFail({ isin: isin });
+        const terms = await this.certificateRepository.findOne({
+            where: { security: security },
+            relations: ["underlying"]
+        });
+        if (!terms) {
+            throw new Error(`No certificate terms for ${isin}`);
+        }
+        return this.toTermsDTO(isin, terms);
+    }
+
+    /**
+     * Returns the terms of all certificates, including their underlyings.
+     */
+    async getCertificates(): Promise<CertificateDetails[]> {
+        return this.certificateRepository.find({ relations: ["security", "underlying"] });
+    }
+
+    toTermsDTO(isin: string, terms: CertificateDetails): CertificateTermsDTO {
+        const toNumber = (value?: number | null): number | null =>
+            value === null || value === undefined ? null : Number(value);
+
+        return {
+            isin: isin,
+            underlyingISIN: terms.underlying?.isin ?? null,
+            kind: terms.kind ?? null,
+            strike: toNumber(terms.strike),
+            barrier: toNumber(terms.barrier),
+            ratio: Number(terms.ratio),
+            expiry: terms.expiry ? moment(terms.expiry).format("YYYY-MM-DD") : null
+        };
+    }
+
+    /**
+     * Returns the securities marked as benchmarks.
+     */
+    async getBenchmarks(): Promise<Security[]> {
+        return this.repository.find({ where: { isBenchmark: true } });
+    }
+
+    /**
+     * Converts the certificate terms of a create-security request to an entity. The security itself is only set up
+     * with the ISIN since it may not be stored yet.
+     */
+    private async toCertificate(
+        req: CreateSecurityRequest,
+        terms: CertificateTermsRequest
+    ): Promise<CertificateDetails> {
+        if (req.type !== SecurityType.CERTIFICATE) {
+            throw new Error(`Security ${req.isin} is no certificate and can't have certificate terms`);
+        }
+
+        const certificate = new CertificateDetails();
+        certificate.security = Object.assign(new Security(), { isin: req.isin });
+        if (terms.underlying) {
+            if (terms.underlying === req.isin) {
+                throw new Error(`Certificate ${req.isin} can't be its own underlying`);
+            }
+            certificate.underlying = await this.repository.findOneOrFail({ isin: terms.underlying }).catch(() => {
+                throw new Error(`Unknown underlying: ${terms.underlying}`);
+            });
+        } else {
+            certificate.underlying = null;
+        }
 
-        return this.repository
-            .createQueryBuilder()
-            .insert()
-            .values(result)
-            .orUpdate({ conflict_target: ["isin"], overwrite: ["nsin", "name", "type"] })
-            .execute();
+        certificate.kind = terms.kind ?? null;
+        certificate.strike = terms.strike ?? null;
+        certificate.barrier = terms.barrier ?? null;
+        certificate.ratio = terms.ratio ?? 1;
+        certificate.expiry = terms.expiry ? moment(terms.expiry).toDate() : null;
+        return certificate;
     }
 
     /**
@@ -48,12 +257,34 @@ class SecuritiesService {
      * @param data A single create-security request
      * @returns the newly created entity
      */
-    private toSecurity(data: CreateSecurityRequest): Security {
+    private async toSecurity(data: CreateSecurityRequest): Promise<Security> {
         const security: Security = new Security();
         security.isin = data.isin;
         security.nsin = data.nsin;
         security.name = data.name;
         security.type = data.type;
+        if (data.isBenchmark !== undefined) {
+            security.isBenchmark = data.isBenchmark;
+        }
+        if (data.benchmark) {
+            if (data.benchmark === data.isin) {
+                throw new Error(`Security ${data.isin} can't be its own benchmark`);
+            }
+            security.benchmark = await this.repository.findOneOrFail({ isin: data.benchmark });
+        } else if (data.benchmark === null) {
+            security.benchmark = null;
+        }
+        if (data.ter !== undefined && data.type !== SecurityType.EQUITY_FUND && data.type !== SecurityType.ETF) {
+            throw new Error(`Security ${data.isin} is no fund or ETF and can't have a TER`);
+        }
+        for (const field of MASTER_DATA_FIELDS) {
+            if (data[field] !== undefined) {
+                Object.assign(security, { [field]: data[field] });
+            }
+        }
+        if (data.tags) {
+            security.tags = [...new Set(data.tags.map((tag) => tag.trim()).filter((tag) => tag))];
+        }
         return security;
     }
 }
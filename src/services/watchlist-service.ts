@@ -0,0 +1,90 @@
+import config from "config";
+import { Service } from "typedi";
+import { DeleteResult, getRepository, Repository } from "typeorm";
+
+import { CreateAlertRuleRequest, CreateWatchlistRequest } from "../dtos";
+import { AlertRule, AlertRuleType, Security, Watchlist } from "../entities";
+import { SecuritiesService } from "./security-service";
+
+@Service()
+class WatchlistService {
+    private repository: Repository<Watchlist>;
+    private ruleRepository: Repository<AlertRule>;
+
+    constructor(private securityService: SecuritiesService) {
+        this.repository = getRepository<Watchlist>(Watchlist, config.get("ormconfig.connection"));
+        this.ruleRepository = getRepository<AlertRule>(AlertRule, config.get("ormconfig.connection"));
+    }
+
+    async getAll(): Promise<Watchlist[]> {
+        return this.repository.find({ relations: ["securities"] });
+    }
+
+    async getOne(id: number): Promise<Watchlist> {
+        return this.repository.findOneOrFail(id, { relations: ["securities", "rules"] });
+    }
+
+    async create(data: CreateWatchlistRequest): Promise<Watchlist> {
+        const watchlist = new Watchlist();
+        watchlist.name = data.name;
+        watchlist.securities = await this.getSecurities(data.isins ?? []);
+        return this.repository.save(watchlist);
+    }
+
+    async delete(id: number): Promise<DeleteResult> {
+        await this.repository.findOneOrFail(id);
+        return this.repository.delete(id);
+    }
+
+    async addSecurities(id: number, isins: string[]): Promise<Watchlist> {
+        const watchlist = await this.repository.findOneOrFail(id, { relations: ["securities"] });
+        const existing = new Set(watchlist.securities.map((s) => s.isin));
+        const added = await this.getSecurities(isins.filter((isin) => !existing.has(isin)));
+        watchlist.securities.push(...added);
+        return this.repository.save(watchlist);
+    }
+
+    async removeSecurity(id: number, isin: string): Promise<Watchlist> {
+        const watchlist = await this.repository.findOneOrFail(id, { relations: ["securities"] });
+        watchlist.securities = watchlist.securities.filter((s) => s.isin !== isin);
+        return this.repository.save(watchlist);
+    }
+
+    async getRules(id: number): Promise<AlertRule[]> {
+        const watchlist = await this.repository.findOneOrFail(id);
+        return this.ruleRepository.find({ where: { watchlist: watchlist } });
+    }
+
+    async addRule(id: number, data: CreateAlertRuleRequest): Promise<AlertRule> {
+        const watchlist = await this.repository.findOneOrFail(id);
+
+        if (data.type === AlertRuleType.PERFORMANCE && !(data.interval && data.interval.count >= 1)) {
+            throw new Error("A performance rule needs an interval with a positive count");
+        }
+
+        const rule = new AlertRule();
+        rule.watchlist = watchlist;
+        rule.type = data.type;
+        rule.direction = data.direction;
+        rule.threshold = data.threshold;
+        rule.interval = data.type === AlertRuleType.PERFORMANCE ? data.interval : null;
+        rule.algorithm = data.type === AlertRuleType.RSL ? data.algorithm ?? "weekly" : null;
+        rule.active = true;
+        return this.ruleRepository.save(rule);
+    }
+
+    async deleteRule(ruleID: number): Promise<DeleteResult> {
+        await this.ruleRepository.findOneOrFail(ruleID);
+        return this.ruleRepository.delete(ruleID);
+    }
+
+    private async getSecurities(isins: string[]): Promise<Security[]> {
+        const securities: Security[] = [];
+        for (const isin of isins) {
+            securities.push(await this.securityService.getOne({ isin: isin }));
+        }
+        return securities;
+    }
+}
+
+export { WatchlistService };
@@ -0,0 +1,55 @@
+import { CSVDialect, CSVOptions } from "../dtos";
+
+type CSVSettings = {
+    delimiter: string;
+    decimalSeparator: string;
+    dateFormat: string;
+};
+
+const CSV_DIALECTS: { [dialect in CSVDialect]: CSVSettings } = {
+    default: { delimiter: ",", decimalSeparator: ".", dateFormat: "YYYY-MM-DD" },
+    german: { delimiter: ";", decimalSeparator: ",", dateFormat: "DD.MM.YYYY" }
+};
+
+/**
+ * Determines the effective CSV settings from the options: the dialect's defaults, overridden by the explicitly set
+ * values.
+ *
+ * @param options the CSV options
+ * @returns the effective settings
+ */
+function getCSVSettings(options: CSVOptions = {}): CSVSettings {
+    const dialect: CSVSettings | undefined = CSV_DIALECTS[options.dialect ?? "default"];
+    if (!dialect) {
+        throw new Error(`Unknown CSV dialect: ${options.dialect}`);
+    }
+
+    return {
+        delimiter: options.delimiter ?? dialect.delimiter,
+        decimalSeparator: options.decimalSeparator ?? dialect.decimalSeparator,
+        dateFormat: options.dateFormat ?? dialect.dateFormat
+    };
+}
+
+/**
+ * Parses a number written with the settings' decimal separator; the other separator is taken as thousands separator.
+ *
+ * @param value the field's text
+ * @param settings the CSV settings
+ * @returns the number, or undefined for an empty field
+ */
+function parseCSVNumber(value: string | undefined, settings: CSVSettings): number | undefined {
+    if (value === undefined || value === "") {
+        return undefined;
+    }
+
+    const thousandsSeparator = settings.decimalSeparator === "," ? "." : ",";
+    const normalized = value.split(thousandsSeparator).join("").replace(settings.decimalSeparator, ".");
+    const result = Number(normalized);
+    if (isNaN(result)) {
+        throw new Error(`Invalid number: ${value}`);
+    }
+    return result;
+}
+
+export { CSV_DIALECTS, CSVSettings, getCSVSettings, parseCSVNumber };
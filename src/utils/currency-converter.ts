@@ -0,0 +1,76 @@
+type RatePoint = {
+    time: number;
+    rate: number;
+};
+
+/**
+ * Converts amounts from several currencies into a single target currency. For each currency, the converter holds a
+ * series of rates (units of the target currency per unit of the source currency), sorted by date. Amounts are converted
+ * with the newest rate on or before their date, which bridges weekends and holidays without rates.
+ */
+class CurrencyConverter {
+    private series = new Map<string, RatePoint[]>();
+
+    constructor(readonly targetCurrency: string) {}
+
+    /**
+     * Adds the rates of a currency. They don't need to be sorted.
+     *
+     * @param currency the source currency
+     * @param rates units of the target currency per unit of the source currency, by date
+     */
+    addRates(currency: string, rates: { date: Date; rate: number }[]): void {
+        const points = [
+            ...(this.series.get(currency) ?? []),
+            ...rates.map((r) => ({ time: r.date.valueOf(), rate: r.rate }))
+        ];
+        this.series.set(
+            currency,
+            points.sort((a, b) => a.time - b.time)
+        );
+    }
+
+    /**
+     * Returns the rate for converting from the currency into the target currency on the given date.
+     *
+     * @param currency the source currency
+     * @param date the date
+     * @returns the rate
+     * @throws RangeError if there's no rate on or before the date
+     */
+    getRate(currency: string, date: Date): number {
+        if (currency === this.targetCurrency) {
+            return 1.0;
+        }
+
+        const points = this.series.get(currency) ?? [];
+        const time = date.valueOf();
+
+        // binary search for the last rate on or before the date
+        let low = 0;
+        let high = points.length - 1;
+        let found = -1;
+        while (low <= high) {
+            const mid = Math.floor((low + high) / 2);
+            if (points[mid].time <= time) {
+                found = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        if (found < 0) {
+            throw new RangeError(
+                `No ${currency}/${this.targetCurrency} exchange rate available for ${date.toISOString()}`
+            );
+        }
+        return points[found].rate;
+    }
+
+    convert(amount: number, currency: string, date: Date): number {
+        return amount * this.getRate(currency, date);
+    }
+}
+
+export { CurrencyConverter };
@@ -0,0 +1,35 @@
+export { CSV_DIALECTS, CSVSettings, getCSVSettings, parseCSVNumber } from "./csv";
+export { CurrencyConverter } from "./currency-converter";
+export {
+    atr,
+    bollinger,
+    BollingerSeries,
+    ema,
+    IndicatorSeries,
+    macd,
+    MACDSeries,
+    rsi,
+    rsl,
+    sma,
+    volatility
+} from "./indicators";
+export { annualize, getPeriodRange, PeriodRange } from "./periods";
+export { PriceAdjustments } from "./price-adjustment";
+export { checkInterval, getPeriodKey, lastPerPeriod, OHLCBar, resampleBars, ResampleInterval } from "./resampling";
+export { CashFlow, DAY_MS, xirr } from "./returns";
+export {
+    beta,
+    correlation,
+    covariance,
+    Drawdown,
+    getDrawdown,
+    maxDrawdown,
+    sharpeRatio,
+    simpleReturns,
+    sortinoRatio,
+    standardDeviation,
+    valueAtRisk
+} from "./risk";
+export { DEFAULT_TRADING_DAYS, isValidTimezone, TradingCalendar } from "./trading-calendar";
+export { splitByGivenFields, UpsertRun } from "./upsert";
+export { validateRequests } from "./validation";
@@ -0,0 +1,217 @@
+/**
+ * The technical indicators. All functions take a series ordered from oldest to newest and return a series of the same
+ * length; elements for which there's not yet enough data (the warm-up phase) are null.
+ */
+type IndicatorSeries = (number | null)[];
+
+type MACDSeries = {
+    macd: IndicatorSeries;
+    signal: IndicatorSeries;
+    histogram: IndicatorSeries;
+};
+
+type BollingerSeries = {
+    middle: IndicatorSeries;
+    upper: IndicatorSeries;
+    lower: IndicatorSeries;
+};
+
+function checkPeriod(period: number): void {
+    if (!Number.isInteger(period) || period < 1) {
+        throw new RangeError(`Indicator period must be a positive integer: ${period}`);
+    }
+}
+
+/**
+ * Simple moving average over the last `period` values.
+ */
+function sma(values: number[], period: number): IndicatorSeries {
+    checkPeriod(period);
+
+    const result: IndicatorSeries = [];
+    let sum = 0.0;
+    values.forEach((value, i) => {
+        sum += value;
+        if (i >= period) {
+            sum -= values[i - period];
+        }
+        result.push(i >= period - 1 ? sum / period : null);
+    });
+    return result;
+}
+
+/**
+ * Exponential moving average with the smoothing factor 2 / (period + 1), seeded with the simple average of the first
+ * `period` values.
+ */
+function ema(values: IndicatorSeries, period: number): IndicatorSeries {
+    checkPeriod(period);
+
+    const alpha = 2 / (period + 1);
+    const result: IndicatorSeries = [];
+    let seed: number[] = [];
+    let previous: number | null = null;
+
+    for (const value of values) {
+        if (value === null) {
+            // leading nulls (e.g. from another indicator's warm-up) are skipped
+            result.push(null);
+            continue;
+        }
+        if (previous === null) {
+            seed.push(value);
+            if (seed.length === period) {
+                previous = seed.reduce((a, b) => a + b, 0.0) / period;
+                seed = [];
+            }
+            result.push(previous);
+            continue;
+        }
+        previous = alpha * value + (1 - alpha) * previous;
+        result.push(previous);
+    }
+    return result;
+}
+
+/**
+ * Wilder's relative strength index, between 0 and 100.
+ */
+function rsi(values: number[], period = 14): IndicatorSeries {
+    checkPeriod(period);
+
+    const result: IndicatorSeries = values.length > 0 ? [null] : [];
+    let averageGain = 0.0;
+    let averageLoss = 0.0;
+
+    for (let i = 1; i < values.length; ++i) {
+        const change = values[i] - values[i - 1];
+        const gain = Math.max(change, 0);
+        const loss = Math.max(-change, 0);
+
+        if (i <= period) {
+            averageGain += gain / period;
+            averageLoss += loss / period;
+        } else {
+            averageGain = (averageGain * (period - 1) + gain) / period;
+            averageLoss = (averageLoss * (period - 1) + loss) / period;
+        }
+
+        if (i < period) {
+            result.push(null);
+        } else if (averageLoss === 0) {
+            result.push(averageGain === 0 ? 50 : 100);
+        } else {
+            result.push(100 - 100 / (1 + averageGain / averageLoss));
+        }
+    }
+    return result;
+}
+
+/**
+ * Moving average convergence/divergence: the difference between the fast and the slow EMA, its signal line (an EMA of
+ * the difference), and the histogram (difference minus signal).
+ */
+function macd(values: number[], fast = 12, slow = 26, signal = 9): MACDSeries {
+    if (fast >= slow) {
+        throw new RangeError("The fast MACD period must be shorter than the slow one");
+    }
+
+    const fastEMA = ema(values, fast);
+    const slowEMA = ema(values, slow);
+    const line: IndicatorSeries = values.map((_, i) => {
+        const f = fastEMA[i];
+        const s = slowEMA[i];
+        return f === null || s === null ? null : f - s;
+    });
+    const signalLine = ema(line, signal);
+
+    return {
+        macd: line,
+        signal: signalLine,
+        histogram: line.map((m, i) => {
+            const s = signalLine[i];
+            return m === null || s === null ? null : m - s;
+        })
+    };
+}
+
+/**
+ * Bollinger bands: the simple moving average and the bands `deviations` (population) standard deviations above and
+ * below it.
+ */
+function bollinger(values: number[], period = 20, deviations = 2): BollingerSeries {
+    const middle = sma(values, period);
+    const upper: IndicatorSeries = [];
+    const lower: IndicatorSeries = [];
+
+    middle.forEach((mean, i) => {
+        if (mean === null) {
+            upper.push(null);
+            lower.push(null);
+            return;
+        }
+        const window = values.slice(i - period + 1, i + 1);
+        const sd = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) * (v - mean), 0.0) / period);
+        upper.push(mean + deviations * sd);
+        lower.push(mean - deviations * sd);
+    });
+
+    return { middle: middle, upper: upper, lower: lower };
+}
+
+/**
+ * Wilder's average true range. Bars without high or low (close-only bars) use the close instead.
+ */
+function atr(highs: (number | null)[], lows: (number | null)[], closes: number[], period = 14): IndicatorSeries {
+    checkPeriod(period);
+
+    const result: IndicatorSeries = [];
+    let average = 0.0;
+
+    closes.forEach((close, i) => {
+        const high = highs[i] ?? close;
+        const low = lows[i] ?? close;
+        const trueRange =
+            i === 0 ? high - low : Math.max(high - low, Math.abs(high - closes[i - 1]), Math.abs(low - closes[i - 1]));
+
+        if (i < period) {
+            average += trueRange / period;
+            result.push(i === period - 1 ? average : null);
+        } else {
+            average = (average * (period - 1) + trueRange) / period;
+            result.push(average);
+        }
+    });
+    return result;
+}
+
+/**
+ * Rolling volatility: the sample standard deviation of the logarithmic returns over the last `period` returns,
+ * annualized with the number of periods per year.
+ */
+function volatility(values: number[], period = 20, periodsPerYear = 252): IndicatorSeries {
+    checkPeriod(period);
+    if (period < 2) {
+        throw new RangeError("Volatility needs a period of at least 2");
+    }
+
+    const returns = values.map((value, i) => (i === 0 ? 0 : Math.log(value / values[i - 1])));
+    return values.map((_, i) => {
+        if (i < period) {
+            return null;
+        }
+        const window = returns.slice(i - period + 1, i + 1);
+        const mean = window.reduce((a, b) => a + b, 0.0) / period;
+        const variance = window.reduce((sum, r) => sum + (r - mean) * (r - mean), 0.0) / (period - 1);
+        return Math.sqrt(variance * periodsPerYear);
+    });
+}
+
+/**
+ * Levy's relative strength: the ratio of the value to its simple moving average over `period` values.
+ */
+function rsl(values: number[], period: number): IndicatorSeries {
+    return sma(values, period).map((average, i) => (average === null ? null : values[i] / average));
+}
+
+export { atr, bollinger, BollingerSeries, ema, IndicatorSeries, macd, MACDSeries, rsi, rsl, sma, volatility };
@@ -0,0 +1,78 @@
+import moment from "moment";
+
+type PeriodRange = {
+    /** the base date the return is measured from; null for the complete history */
+    start: Date | null;
+    end: Date;
+};
+
+const RELATIVE_PERIOD = /^(\d+)([dwmy])$/;
+
+const PERIOD_UNITS: { [unit: string]: moment.unitOfTime.DurationConstructor } = {
+    d: "days",
+    w: "weeks",
+    m: "months",
+    y: "years"
+};
+
+/**
+ * Resolves a period specification relative to the given date. Supported are:
+ *
+ * - relative periods counting back from the date, e.g. "1m", "3m", "1y", "3y" (units d, w, m, y)
+ * - "ytd" and "mtd", measured from the end of the previous year or month
+ * - a calendar year like "2020", measured from the end of the previous year to the end of that year
+ * - "max" for the complete history
+ *
+ * @param spec the period specification
+ * @param asOf the date the period ends; a calendar year ends on this date at the latest
+ * @returns the start and end date of the period
+ */
+function getPeriodRange(spec: string, asOf: Date): PeriodRange {
+    const lower = spec.trim().toLowerCase();
+    const end = moment(asOf).startOf("day");
+
+    const relative = RELATIVE_PERIOD.exec(lower);
+    if (relative) {
+        const count = Number(relative[1]);
+        if (count < 1) {
+            throw new RangeError("Period count must be positive");
+        }
+        return { start: end.clone().subtract(count, PERIOD_UNITS[relative[2]]).toDate(), end: end.toDate() };
+    }
+
+    switch (lower) {
+        case "max":
+            return { start: null, end: end.toDate() };
+        case "ytd":
+            return { start: end.clone().startOf("year").subtract(1, "day").toDate(), end: end.toDate() };
+        case "mtd":
+            return { start: end.clone().startOf("month").subtract(1, "day").toDate(), end: end.toDate() };
+    }
+
+    if (/^\d{4}$/.test(lower)) {
+        const yearEnd = moment({ year: Number(lower), month: 11, day: 31 });
+        return {
+            start: moment({ year: Number(lower) - 1, month: 11, day: 31 }).toDate(),
+            end: moment.min(yearEnd, end).toDate()
+        };
+    }
+
+    throw new Error(`Unknown period: ${spec}`);
+}
+
+/**
+ * Converts a return over the given number of days into an annual rate. Only meaningful for periods longer than a year;
+ * shorter periods would be extrapolated, so they yield null.
+ *
+ * @param totalReturn the return over the complete period, e.g. 0.25 for +25%
+ * @param days the length of the period in days
+ * @returns the annualized return, or null for periods of a year or less
+ */
+function annualize(totalReturn: number, days: number): number | null {
+    if (days <= 366) {
+        return null;
+    }
+    return Math.pow(1 + totalReturn, 365.25 / days) - 1;
+}
+
+export { annualize, getPeriodRange, PeriodRange };
@@ -0,0 +1,71 @@
+type AdjustmentEvent = {
+    /** the first date whose prices are no longer affected */
+    date: Date;
+    /** the factor by which all prices before the date are multiplied */
+    factor: number;
+    kind: "split" | "dividend";
+};
+
+/**
+ * Collects the corporate actions of several listings and applies them to historical prices. Splits affect all listings
+ * of a security while dividend factors depend on the listing's own closing prices, so they are stored per listing.
+ */
+class PriceAdjustments {
+    private events = new Map<string, AdjustmentEvent[]>();
+
+    addSplit(securityID: number, date: Date, ratio: number): void {
+        this.addEvent(`${securityID}`, { date: date, factor: 1 / ratio, kind: "split" });
+    }
+
+    /**
+     * Adds a dividend for a single listing.
+     *
+     * @param securityID the security ID
+     * @param exchangeID the exchange ID
+     * @param exDate the ex-dividend date
+     * @param amount the dividend per share
+     * @param previousClose the listing's last close before the ex-dividend date
+     */
+    addDividend(securityID: number, exchangeID: number, exDate: Date, amount: number, previousClose: number): void {
+        if (previousClose <= amount) {
+            // this would turn all earlier prices negative; the data is obviously broken
+            return;
+        }
+        this.addEvent(`${securityID}@${exchangeID}`, {
+            date: exDate,
+            factor: 1 - amount / previousClose,
+            kind: "dividend"
+        });
+    }
+
+    /**
+     * Returns the factor by which a price of the given date has to be multiplied to make it comparable to today's
+     * prices.
+     *
+     * @param securityID the security ID
+     * @param exchangeID the exchange ID
+     * @param date the date of the price
+     * @param kind restricts the factor to one kind of corporate action
+     * @returns the adjustment factor
+     */
+    getFactor(securityID: number, exchangeID: number, date: Date, kind?: AdjustmentEvent["kind"]): number {
+        const events = [
+            ...(this.events.get(`${securityID}`) ?? []),
+            ...(this.events.get(`${securityID}@${exchangeID}`) ?? [])
+        ];
+
+        return events
+            .filter((e) => e.date.valueOf() > date.valueOf() && (!kind || e.kind === kind))
+            .reduce((factor, e) => factor * e.factor, 1.0);
+    }
+
+    adjust(securityID: number, exchangeID: number, date: Date, price: number): number {
+        return price * this.getFactor(securityID, exchangeID, date);
+    }
+
+    private addEvent(key: string, event: AdjustmentEvent): void {
+        this.events.set(key, [...(this.events.get(key) ?? []), event]);
+    }
+}
+
+export { PriceAdjustments };
@@ -0,0 +1,111 @@
+import moment from "moment";
+
+type ResampleInterval = "day" | "week" | "month" | "quarter" | "year";
+
+type OHLCBar = {
+    date: Date;
+    open: number | null;
+    high: number | null;
+    low: number | null;
+    close: number;
+    volume: number | null;
+};
+
+/**
+ * The moment.js formats that map a date to its period. Weeks are ISO weeks starting on Monday, which is the same as
+ * MariaDB's `YEARWEEK(date, 3)`.
+ */
+const PERIOD_KEY_FORMATS: { [interval in ResampleInterval]: string } = {
+    day: "YYYY-MM-DD",
+    week: "GGGG-WW",
+    month: "YYYY-MM",
+    quarter: "YYYY-[Q]Q",
+    year: "YYYY"
+};
+
+function checkInterval(interval: string): asserts interval is ResampleInterval {
+    if (!Object.keys(PERIOD_KEY_FORMATS).includes(interval)) {
+        throw new Error(`Unknown interval: ${interval}`);
+    }
+}
+
+/**
+ * Returns a key identifying the period a date belongs to; all dates within the same period have the same key, and the
+ * keys sort chronologically.
+ *
+ * @param date the date
+ * @param interval the period length
+ * @returns the period key, e.g. "2021-09" for the 9th ISO week of 2021
+ */
+function getPeriodKey(date: Date, interval: ResampleInterval): string {
+    return moment(date).format(PERIOD_KEY_FORMATS[interval]);
+}
+
+/**
+ * Combines two consecutive bars of the same period. OHLC values and the volume are only kept if both bars have them,
+ * so a period with close-only days becomes a close-only bar.
+ */
+function mergeBars(earlier: OHLCBar, later: OHLCBar): OHLCBar {
+    const both = (a: number | null, b: number | null, f: (a: number, b: number) => number) =>
+        a === null || b === null ? null : f(a, b);
+
+    return {
+        date: later.date,
+        open: both(earlier.open, later.open, (a) => a),
+        high: both(earlier.high, later.high, Math.max),
+        low: both(earlier.low, later.low, Math.min),
+        close: later.close,
+        volume: both(earlier.volume, later.volume, (a, b) => a + b)
+    };
+}
+
+/**
+ * Aggregates daily bars into one bar per period: the first open, the highest high, the lowest low, the last close, and
+ * the total volume. Each bar has the date of the period's last trading day.
+ *
+ * @param bars the bars, ordered by date
+ * @param interval the period length
+ * @returns the aggregated bars, ordered by date
+ */
+async function* resampleBars(
+    bars: Iterable<OHLCBar> | AsyncIterable<OHLCBar>,
+    interval: ResampleInterval
+): AsyncGenerator<OHLCBar> {
+    checkInterval(interval);
+
+    let current: OHLCBar | undefined;
+    let currentKey = "";
+    for await (const bar of bars) {
+        const key = getPeriodKey(bar.date, interval);
+        if (current && key === currentKey) {
+            current = mergeBars(current, bar);
+            continue;
+        }
+        if (current) {
+            yield current;
+        }
+        current = { ...bar };
+        currentKey = key;
+    }
+    if (current) {
+        yield current;
+    }
+}
+
+/**
+ * Keeps only the last of several values per period.
+ *
+ * @param items the items, ordered by date
+ * @param interval the period length
+ * @returns the last item of each period
+ */
+function lastPerPeriod<T extends { date: Date }>(items: T[], interval: ResampleInterval): T[] {
+    checkInterval(interval);
+
+    return items.filter(
+        (item, i) =>
+            i === items.length - 1 || getPeriodKey(item.date, interval) !== getPeriodKey(items[i + 1].date, interval)
+    );
+}
+
+export { checkInterval, getPeriodKey, lastPerPeriod, OHLCBar, resampleBars, ResampleInterval };
@@ -0,0 +1,62 @@
+type CashFlow = {
+    date: Date;
+    /** positive for money received by the investor, negative for money paid */
+    amount: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Calculates the internal rate of return of irregularly spaced cash flows (XIRR), as an annual rate. Uses Newton's
+ * method and falls back to bisection if it doesn't converge.
+ *
+ * @param flows the cash flows; there must be at least one positive and one negative flow
+ * @returns the annual rate, or null if there's no solution
+ */
+function xirr(flows: CashFlow[]): number | null {
+    if (!flows.some((f) => f.amount > 0) || !flows.some((f) => f.amount < 0)) {
+        return null;
+    }
+
+    const t0 = Math.min(...flows.map((f) => f.date.valueOf()));
+    const years = flows.map((f) => (f.date.valueOf() - t0) / DAY_MS / 365);
+    const npv = (rate: number): number =>
+        flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0.0);
+    const derivative = (rate: number): number =>
+        flows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0.0);
+
+    let rate = 0.1;
+    for (let i = 0; i < 100; ++i) {
+        const value = npv(rate);
+        if (Math.abs(value) < 1e-7) {
+            return rate;
+        }
+        const slope = derivative(rate);
+        if (slope === 0 || !isFinite(slope)) {
+            break;
+        }
+        const next = rate - value / slope;
+        if (!isFinite(next) || next <= -1) {
+            break;
+        }
+        rate = next;
+    }
+
+    // bisection between -99.99% and +100000%
+    let low = -0.9999;
+    let high = 1000.0;
+    if (npv(low) * npv(high) > 0) {
+        return null;
+    }
+    for (let i = 0; i < 200; ++i) {
+        const mid = (low + high) / 2;
+        if (npv(low) * npv(mid) <= 0) {
+            high = mid;
+        } else {
+            low = mid;
+        }
+    }
+    return (low + high) / 2;
+}
+
+export { CashFlow, DAY_MS, xirr };
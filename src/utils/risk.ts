@@ -0,0 +1,189 @@
+/**
+ * Calculates the simple returns between consecutive values.
+ *
+ * @param values the values, ordered from oldest to newest
+ * @returns the returns; one element less than the values
+ */
+function simpleReturns(values: number[]): number[] {
+    return values.slice(1).map((value, i) => value / values[i] - 1);
+}
+
+/**
+ * Calculates the sample standard deviation.
+ *
+ * @param values the values
+ * @returns the standard deviation, or null for less than two values
+ */
+function standardDeviation(values: number[]): number | null {
+    if (values.length < 2) {
+        return null;
+    }
+    const mean = values.reduce((a, b) => a + b, 0.0) / values.length;
+    return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0.0) / (values.length - 1));
+}
+
+/**
+ * Calculates the sample covariance of two series of the same length.
+ *
+ * @returns the covariance, or null for less than two values
+ */
+function covariance(x: number[], y: number[]): number | null {
+    if (x.length !== y.length) {
+        throw new RangeError("The series must have the same length");
+    }
+    if (x.length < 2) {
+        return null;
+    }
+    const meanX = x.reduce((a, b) => a + b, 0.0) / x.length;
+    const meanY = y.reduce((a, b) => a + b, 0.0) / y.length;
+    return x.reduce((sum, value, i) => sum + (value - meanX) * (y[i] - meanY), 0.0) / (x.length - 1);
+}
+
+/**
+ * Calculates Pearson's correlation coefficient of two series of the same length.
+ *
+ * @returns the correlation between -1 and 1, or null if it's undefined (less than two values, or a constant series)
+ */
+function correlation(x: number[], y: number[]): number | null {
+    const cov = covariance(x, y);
+    const sdX = standardDeviation(x);
+    const sdY = standardDeviation(y);
+    return cov === null || !sdX || !sdY ? null : cov / (sdX * sdY);
+}
+
+/**
+ * Calculates the beta of a series of returns relative to the benchmark's returns on the same dates.
+ *
+ * @returns the beta, or null if it's undefined (less than two values, or constant benchmark returns)
+ */
+function beta(returns: number[], benchmarkReturns: number[]): number | null {
+    const cov = covariance(returns, benchmarkReturns);
+    const sd = standardDeviation(benchmarkReturns);
+    return cov === null || !sd ? null : cov / (sd * sd);
+}
+
+type Drawdown = {
+    /** the decline as a positive fraction, e.g. 0.25 for a decline of 25% */
+    drawdown: number;
+    peakIndex: number;
+    troughIndex: number;
+    /** the index of the first value at or above the peak after the trough; null if it hasn't recovered yet */
+    recoveryIndex: number | null;
+};
+
+/**
+ * Determines the largest relative decline from a peak to a subsequent trough, and when it happened.
+ *
+ * @param values the values, ordered from oldest to newest
+ * @returns the maximum drawdown with the indices of peak, trough, and recovery; a drawdown of 0 for rising values
+ */
+function getDrawdown(values: number[]): Drawdown {
+    const result: Drawdown = { drawdown: 0.0, peakIndex: 0, troughIndex: 0, recoveryIndex: null };
+    let peakIndex = 0;
+    values.forEach((value, i) => {
+        if (value > values[peakIndex]) {
+            peakIndex = i;
+        }
+        const peak = values[peakIndex];
+        if (peak > 0 && (peak - value) / peak > result.drawdown) {
+            result.drawdown = (peak - value) / peak;
+            result.peakIndex = peakIndex;
+            result.troughIndex = i;
+        }
+    });
+
+    if (result.drawdown > 0) {
+        const recovery = values.findIndex((v, i) => i > result.troughIndex && v >= values[result.peakIndex]);
+        result.recoveryIndex = recovery < 0 ? null : recovery;
+    }
+    return result;
+}
+
+/**
+ * Determines the largest relative decline from a peak to a subsequent trough.
+ *
+ * @param values the values, ordered from oldest to newest
+ * @returns the maximum drawdown as a positive fraction, e.g. 0.25 for a decline of 25%
+ */
+function maxDrawdown(values: number[]): number {
+    return getDrawdown(values).drawdown;
+}
+
+/**
+ * Calculates the annualized Sharpe ratio of periodic returns.
+ *
+ * @param returns the periodic (e.g. daily) returns
+ * @param periodsPerYear the number of periods per year, e.g. 252 for daily returns
+ * @param riskFreeRate the annual risk-free rate
+ * @returns the Sharpe ratio, or null if the returns don't vary
+ */
+function sharpeRatio(returns: number[], periodsPerYear = 252, riskFreeRate = 0.0): number | null {
+    const excess = returns.map((r) => r - riskFreeRate / periodsPerYear);
+    const sd = standardDeviation(excess);
+    if (!sd) {
+        return null;
+    }
+    const mean = excess.reduce((a, b) => a + b, 0.0) / excess.length;
+    return (mean / sd) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Calculates the annualized Sortino ratio of periodic returns, which unlike the Sharpe ratio only penalizes returns
+ * below the risk-free rate.
+ *
+ * @param returns the periodic (e.g. daily) returns
+ * @param periodsPerYear the number of periods per year, e.g. 252 for daily returns
+ * @param riskFreeRate the annual risk-free rate
+ * @returns the Sortino ratio, or null if there are no returns below the risk-free rate
+ */
+function sortinoRatio(returns: number[], periodsPerYear = 252, riskFreeRate = 0.0): number | null {
+    if (returns.length === 0) {
+        return null;
+    }
+    const excess = returns.map((r) => r - riskFreeRate / periodsPerYear);
+    const downside = Math.sqrt(excess.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0.0) / excess.length);
+    if (downside === 0) {
+        return null;
+    }
+    const mean = excess.reduce((a, b) => a + b, 0.0) / excess.length;
+    return (mean / downside) * Math.sqrt(periodsPerYear);
+}
+
+/**
+ * Determines the historical Value-at-Risk and the conditional Value-at-Risk (expected shortfall) of periodic returns.
+ *
+ * @param returns the periodic (e.g. daily) returns
+ * @param confidence the confidence level, e.g. 0.95
+ * @returns both as positive loss fractions for a single period, or null if there are no returns
+ */
+function valueAtRisk(returns: number[], confidence = 0.95): { valueAtRisk: number; conditionalVaR: number } | null {
+    if (confidence <= 0 || confidence >= 1) {
+        throw new RangeError("The confidence level must be between 0 and 1");
+    }
+    if (returns.length === 0) {
+        return null;
+    }
+
+    const sorted = [...returns].sort((a, b) => a - b);
+    // the number of returns in the tail, at least the worst one; the tolerance avoids rounding errors like 10 * 0.2 < 2
+    const count = Math.max(1, Math.floor(sorted.length * (1 - confidence) + 1e-9));
+    const tail = sorted.slice(0, count);
+    return {
+        valueAtRisk: -tail[count - 1],
+        conditionalVaR: -tail.reduce((a, b) => a + b, 0.0) / count
+    };
+}
+
+export {
+    beta,
+    correlation,
+    covariance,
+    Drawdown,
+    getDrawdown,
+    maxDrawdown,
+    sharpeRatio,
+    simpleReturns,
+    sortinoRatio,
+    standardDeviation,
+    valueAtRisk
+};
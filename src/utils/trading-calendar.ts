@@ -0,0 +1,123 @@
+import moment from "moment";
+
+const DEFAULT_TRADING_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * The trading days of an exchange: its trading weekdays minus its holidays. All dates are compared by their calendar
+ * day, the time of day is ignored.
+ */
+class TradingCalendar {
+    private tradingDays: number[];
+    private holidays: Set<string>;
+    private sortedHolidays: Date[];
+
+    /**
+     * @param tradingDays the ISO weekdays the exchange trades on (1 = Monday, 7 = Sunday)
+     * @param holidays the dates the exchange is closed on although they fall on a trading weekday
+     * @param timezone the exchange's IANA time zone; determines which day it is at the exchange
+     */
+    constructor(tradingDays: number[] = DEFAULT_TRADING_DAYS, holidays: Date[] = [], private timezone?: string) {
+        this.tradingDays = [...new Set(tradingDays)].filter((d) => Number.isInteger(d) && d >= 1 && d <= 7);
+        if (this.tradingDays.length === 0) {
+            throw new RangeError("A trading calendar needs at least one trading weekday");
+        }
+        this.holidays = new Set(holidays.map((h) => this.toKey(h)));
+        this.sortedHolidays = [...holidays].sort((a, b) => a.valueOf() - b.valueOf());
+    }
+
+    isTradingDay(date: Date): boolean {
+        return this.tradingDays.includes(moment(date).isoWeekday()) && !this.holidays.has(this.toKey(date));
+    }
+
+    /**
+     * Counts the trading days after the first date, up to and including the second one.
+     *
+     * @param from the first date (excluded)
+     * @param to the second date (included)
+     * @returns the number of trading days; 0 if the second date isn't after the first one
+     */
+    countTradingDays(from: Date, to: Date): number {
+        const start = moment(from).startOf("day");
+        const end = moment(to).startOf("day");
+        const days = end.diff(start, "days");
+        if (days <= 0) {
+            return 0;
+        }
+
+        let count = Math.floor(days / 7) * this.tradingDays.length;
+        // the remaining days are less than a week, so each weekday occurs at most once
+        for (let i = 1; i <= days % 7; ++i) {
+            if (this.tradingDays.includes(((start.isoWeekday() + i - 1) % 7) + 1)) {
+                ++count;
+            }
+        }
+
+        for (const holiday of this.sortedHolidays) {
+            if (end.isBefore(holiday, "day")) {
+                break;
+            }
+            if (start.isBefore(holiday, "day") && this.tradingDays.includes(moment(holiday).isoWeekday())) {
+                --count;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Returns the date itself if it's a trading day, or the last trading day before it otherwise.
+     */
+    getTradingDayOnOrBefore(date: Date): Date {
+        const day = moment(date).startOf("day");
+        while (!this.isTradingDay(day.toDate())) {
+            day.subtract(1, "day");
+        }
+        return day.toDate();
+    }
+
+    /**
+     * Returns the last trading day of the newest ISO week that is complete on the given date, i.e. whose last trading
+     * day is on or before it. On a Thursday, this is usually the previous week's Friday, unless Friday is a holiday.
+     *
+     * @param date the date
+     * @returns the last trading day of the newest complete week
+     */
+    getLastCompleteWeekEnd(date: Date): Date {
+        const day = moment(date).startOf("day");
+        let weekEnd = this.getTradingDayOnOrBefore(day.clone().endOf("isoWeek").toDate());
+        while (day.isBefore(weekEnd, "day")) {
+            // the week isn't complete yet, so take the previous week's last trading day
+            weekEnd = this.getTradingDayOnOrBefore(moment(weekEnd).startOf("isoWeek").subtract(1, "day").toDate());
+        }
+        return weekEnd;
+    }
+
+    /**
+     * Returns the current date at the exchange, as the start of that day in local time.
+     */
+    getToday(): Date {
+        if (!this.timezone) {
+            return moment().startOf("day").toDate();
+        }
+        // the Canadian English format happens to be ISO 8601
+        const today = new Intl.DateTimeFormat("en-CA", { timeZone: this.timezone }).format(new Date());
+        return moment(today, "YYYY-MM-DD").toDate();
+    }
+
+    private toKey(date: Date): string {
+        return moment(date).format("YYYY-MM-DD");
+    }
+}
+
+/**
+ * Checks whether a time zone is known, e.g. "Europe/Berlin" or "America/New_York".
+ */
+function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-CA", { timeZone: timezone });
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+export { DEFAULT_TRADING_DAYS, isValidTimezone, TradingCalendar };
@@ -0,0 +1,38 @@
+/** consecutive items of a bulk upsert that all give the same optional fields */
+type UpsertRun<T, F extends string> = {
+    /** the optional fields each item of the run gives; only their columns are overwritten */
+    fields: F[];
+    items: T[];
+};
+
+/**
+ * Splits the items of a bulk upsert into runs of consecutive items giving the same optional fields. Upserting each run
+ * with its own overwrite list keeps the stored values of the fields an item leaves out, while the order of the items,
+ * and with it which of several items for the same row wins, stays the same.
+ *
+ * @param items the items, in the order they are written
+ * @param fields the optional fields
+ * @param isGiven decides whether an item gives a field
+ * @returns the runs, in the order of the items
+ */
+function splitByGivenFields<T, F extends string>(
+    items: T[],
+    fields: readonly F[],
+    isGiven: (item: T, field: F) => boolean
+): UpsertRun<T, F>[] {
+    const runs: UpsertRun<T, F>[] = [];
+    let previousKey: string | undefined;
+    for (const item of items) {
+        const given = fields.filter((field) => isGiven(item, field));
+        const key = given.join(",");
+        if (key === previousKey) {
+            runs[runs.length - 1].items.push(item);
+        } else {
+            runs.push({ fields: given, items: [item] });
+            previousKey = key;
+        }
+    }
+    return runs;
+}
+
+export { splitByGivenFields, UpsertRun };
@@ -0,0 +1,41 @@
+import { plainToClass } from "class-transformer";
+import { ClassType } from "class-transformer/ClassTransformer";
+import { validate, ValidationError } from "class-validator";
+
+/**
+ * Converts and validates the items of a request body that takes a single item or a list. routing-controllers only
+ * validates bodies whose parameter type is a class, which `X | X[]` isn't, so these bodies have to be validated here.
+ *
+ * @param cls the request class carrying the validation decorators
+ * @param data the item or list of items
+ * @returns the items as instances of the request class
+ * @throws Error naming the first invalid item and its failed constraints
+ */
+async function validateRequests<T>(cls: ClassType<T>, data: T | T[]): Promise<T[]> {
+    const items: T[] = Array.isArray(data) ? data : [data];
+    const requests = items.map((item) => plainToClass(cls, item));
+    for (const [index, request] of requests.entries()) {
+        const errors = await validate(request);
+        if (errors.length > 0) {
+            const prefix = Array.isArray(data) ? `Item ${index + 1}: ` : "";
+            throw new Error(prefix + getConstraints(errors).join("; "));
+        }
+    }
+    return requests;
+}
+
+/**
+ * Collects the messages of the failed constraints, including those of nested objects.
+ */
+function getConstraints(errors: ValidationError[]): string[] {
+    return errors.reduce(
+        (messages: string[], error: ValidationError) => [
+            ...messages,
+            ...Object.values(error.constraints ?? {}),
+            ...getConstraints(error.children ?? [])
+        ],
+        []
+    );
+}
+
+export { validateRequests };